@@ -6,20 +6,23 @@ import {
   Eye, 
   Save, 
   Send, 
-  CheckCircle 
+  CheckCircle,
+  XCircle
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useNewsletter } from "@/hooks/useNewsletter";
+import { useGenerationOptions } from "@/hooks/useGenerationOptions";
 import { apiRequest } from "@/lib/api";
 import { format } from "date-fns";
 
 export default function ControlsPanel() {
   const [isPublishing, setIsPublishing] = useState(false);
   const { toast } = useToast();
-  const { newsletter, isGenerating, generateNewsletter } = useNewsletter();
+  const { newsletter, isGenerating, generateNewsletter, cancelGeneration } = useNewsletter();
+  const { generationParams } = useGenerationOptions();
 
   // Get articles to check if any are selected
   const { data: articlesData } = useQuery({
@@ -52,10 +55,7 @@ export default function ControlsPanel() {
       return;
     }
 
-    generateNewsletter({
-      issueNumber: nextIssueNumber,
-      date: format(new Date(), 'yyyy-MM-dd'),
-    });
+    generateNewsletter(generationParams(nextIssueNumber));
   };
 
   const handlePublishToBeehiiv = async () => {
@@ -77,10 +77,18 @@ export default function ControlsPanel() {
 
       const result = await response.json();
       
-      toast({
-        title: "Newsletter Published!",
-        description: `Successfully published to Beehiiv${result.beehiivPost.web_url ? ` - ${result.beehiivPost.web_url}` : ''}`,
-      });
+      // 202: the first attempt failed and the job queue will retry it
+      if (response.status === 202) {
+        toast({
+          title: "Publishing Queued",
+          description: `${result.message}. Track it under Jobs.`,
+        });
+      } else {
+        toast({
+          title: "Newsletter Published!",
+          description: `Successfully published to Beehiiv${result.beehiivPost.web_url ? ` - ${result.beehiivPost.web_url}` : ''}`,
+        });
+      }
     } catch (error) {
       toast({
         title: "Publishing Failed",
@@ -108,10 +116,18 @@ export default function ControlsPanel() {
         draft: true,
       });
 
-      toast({
-        title: "Draft Saved",
-        description: "Newsletter saved as draft in Beehiiv.",
-      });
+      if (response.status === 202) {
+        const result = await response.json();
+        toast({
+          title: "Draft Queued",
+          description: `${result.message}. Track it under Jobs.`,
+        });
+      } else {
+        toast({
+          title: "Draft Saved",
+          description: "Newsletter saved as draft in Beehiiv.",
+        });
+      }
     } catch (error) {
       toast({
         title: "Save Failed",
@@ -148,6 +164,13 @@ export default function ControlsPanel() {
           )}
         </Button>
 
+        {isGenerating && (
+          <Button variant="outline" onClick={cancelGeneration} className="w-full">
+            <XCircle className="w-4 h-4 mr-2" />
+            Cancel Generation
+          </Button>
+        )}
+
         <div className="flex space-x-3">
           <Button
             variant="outline"
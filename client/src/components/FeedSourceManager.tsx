@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useRef, useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -7,7 +7,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
-import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Switch } from "@/components/ui/switch";
 import { useToast } from "@/hooks/use-toast";
@@ -25,42 +26,94 @@ import {
   AlertCircle, 
   CheckCircle,
   TrendingUp,
-  Tag
+  Tag,
+  Upload,
+  Download
 } from "lucide-react";
 import type { FeedSource } from "@shared/schema";
 
 const feedSourceSchema = z.object({
   name: z.string().min(1, "Name is required"),
   url: z.string().url("Must be a valid URL"),
+  sourceType: z.enum(["feed", "html", "sitemap"]).default("feed"),
+  scrapeConfig: z.object({
+    itemSelector: z.string().optional(),
+    titleSelector: z.string().optional(),
+    linkSelector: z.string().optional(),
+    dateSelector: z.string().optional(),
+    summarySelector: z.string().optional(),
+    urlPattern: z.string().optional(),
+  }).default({}),
   category: z.string().min(1, "Category is required"),
   description: z.string().optional(),
   enabled: z.boolean().default(true),
   refreshInterval: z.number().min(5).max(1440).default(60),
+  weight: z.number().min(0).max(100).default(50),
   tags: z.array(z.string()).default([]),
 });
 
 type FeedSourceForm = z.infer<typeof feedSourceSchema>;
 
+interface FeedTestPreview {
+  format: string;
+  articleCount: number;
+  articles: Array<{ title: string; url: string; publishedDate: string }>;
+}
+
+const SOURCE_TYPE_LABELS: Record<FeedSourceForm["sourceType"], string> = {
+  feed: "RSS / Atom / JSON feed",
+  html: "HTML listing page",
+  sitemap: "Sitemap",
+};
+
+// Blank selectors are dropped so the server falls back to its defaults
+function toPayload(data: FeedSourceForm) {
+  if (data.sourceType === "feed") {
+    return { ...data, scrapeConfig: null };
+  }
+  const scrapeConfig = Object.fromEntries(
+    Object.entries(data.scrapeConfig).filter(([, value]) => value && value.trim().length > 0)
+  );
+  return { ...data, scrapeConfig };
+}
+
+interface OpmlImportEntry {
+  name: string;
+  url: string;
+  category: string;
+  tags: string[];
+  status: "new" | "duplicate";
+}
+
 export default function FeedSourceManager() {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [editingFeed, setEditingFeed] = useState<FeedSource | null>(null);
   const [newTag, setNewTag] = useState("");
+  const [testPreview, setTestPreview] = useState<FeedTestPreview | null>(null);
+  const [opmlContent, setOpmlContent] = useState<string | null>(null);
+  const [importPreview, setImportPreview] = useState<OpmlImportEntry[]>([]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   const form = useForm<FeedSourceForm>({
     resolver: zodResolver(feedSourceSchema),
     defaultValues: {
       name: "",
       url: "",
+      sourceType: "feed",
+      scrapeConfig: {},
       category: "",
       description: "",
       enabled: true,
       refreshInterval: 60,
+      weight: 50,
       tags: [],
     },
   });
 
+  const sourceType = form.watch("sourceType");
+
   const { data: feedsData, isLoading } = useQuery({
     queryKey: ["/api/feed-sources"],
     queryFn: async () => {
@@ -71,7 +124,7 @@ export default function FeedSourceManager() {
 
   const createMutation = useMutation({
     mutationFn: async (data: FeedSourceForm) => {
-      const res = await apiRequest("POST", "/api/feed-sources", data);
+      const res = await apiRequest("POST", "/api/feed-sources", toPayload(data));
       return res.json();
     },
     onSuccess: () => {
@@ -93,7 +146,7 @@ export default function FeedSourceManager() {
   });
 
   const updateMutation = useMutation({
-    mutationFn: async ({ id, data }: { id: number; data: Partial<FeedSource> }) => {
+    mutationFn: async ({ id, data }: { id: number; data: ReturnType<typeof toPayload> }) => {
       const res = await apiRequest("PUT", `/api/feed-sources/${id}`, data);
       return res.json();
     },
@@ -122,14 +175,16 @@ export default function FeedSourceManager() {
   });
 
   const testFeedMutation = useMutation({
-    mutationFn: async (url: string) => {
-      const res = await apiRequest("POST", "/api/feed-sources/test", { url });
+    mutationFn: async (data: FeedSourceForm) => {
+      const { url, sourceType, scrapeConfig } = toPayload(data);
+      const res = await apiRequest("POST", "/api/feed-sources/test", { url, sourceType, scrapeConfig });
       return res.json();
     },
-    onSuccess: (data) => {
+    onSuccess: (data: FeedTestPreview) => {
+      setTestPreview(data);
       toast({
         title: "Feed Test Successful",
-        description: `Found ${data.articleCount} articles`,
+        description: `Found ${data.articleCount} articles (${data.format} feed)`,
       });
     },
     onError: (error: any) => {
@@ -141,11 +196,69 @@ export default function FeedSourceManager() {
     },
   });
 
+  const importMutation = useMutation({
+    mutationFn: async ({ opml, dryRun }: { opml: string; dryRun: boolean }) => {
+      const res = await apiRequest("POST", "/api/feed-sources/import", { opml, dryRun });
+      return res.json();
+    },
+    onSuccess: (data, { opml }) => {
+      if (data.dryRun) {
+        setOpmlContent(opml);
+        setImportPreview(data.feeds);
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ["/api/feed-sources"] });
+      setOpmlContent(null);
+      setImportPreview([]);
+      toast({
+        title: "Feed Sources Imported",
+        description: `Created ${data.created} feed sources, skipped ${data.skipped} duplicates`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const feeds: FeedSource[] = feedsData?.feedSources || [];
 
+  const handleImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = "";
+    if (!file) return;
+
+    importMutation.mutate({ opml: await file.text(), dryRun: true });
+  };
+
+  const handleExport = async () => {
+    try {
+      const res = await apiRequest("GET", "/api/feed-sources/export");
+      const blob = new Blob([await res.text()], { type: "text/x-opml" });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = "feed-sources.opml";
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      toast({
+        title: "Export Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   const onSubmit = (data: FeedSourceForm) => {
     if (editingFeed) {
-      updateMutation.mutate({ id: editingFeed.id, data });
+      updateMutation.mutate({ id: editingFeed.id, data: toPayload(data) });
     } else {
       createMutation.mutate(data);
     }
@@ -153,13 +266,17 @@ export default function FeedSourceManager() {
 
   const handleEdit = (feed: FeedSource) => {
     setEditingFeed(feed);
+    setTestPreview(null);
     form.reset({
       name: feed.name,
       url: feed.url,
+      sourceType: (feed.sourceType || "feed") as FeedSourceForm["sourceType"],
+      scrapeConfig: feed.scrapeConfig || {},
       category: feed.category,
       description: feed.description || "",
       enabled: feed.enabled,
       refreshInterval: feed.refreshInterval,
+      weight: feed.weight ?? 50,
       tags: feed.tags || [],
     });
     setIsCreateDialogOpen(true);
@@ -190,7 +307,12 @@ export default function FeedSourceManager() {
     return date ? new Date(date).toLocaleString() : "Never";
   };
 
-  const categories = ["AI", "Technology", "Business", "Science", "News", "Marketing", "Development"];
+  // Imported feeds can bring their own categories, so offer those alongside the defaults
+  const categories = Array.from(new Set([
+    "AI", "Technology", "Business", "Science", "News", "Marketing", "Development",
+    ...feeds.map(feed => feed.category),
+  ]));
+  const newImportCount = importPreview.filter(entry => entry.status === "new").length;
 
   return (
     <div className="space-y-6">
@@ -201,52 +323,98 @@ export default function FeedSourceManager() {
             Manage multiple RSS/JSON feeds for different newsletters and topics
           </p>
         </div>
-        <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button onClick={() => { setEditingFeed(null); form.reset(); }}>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Feed Source
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>{editingFeed ? "Edit" : "Add New"} Feed Source</DialogTitle>
-              <DialogDescription>
-                Configure RSS/JSON feed sources for automated content fetching
-              </DialogDescription>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="name"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Name</FormLabel>
-                        <FormControl>
-                          <Input placeholder="AI News Feed" {...field} />
-                        </FormControl>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
+        <div className="flex items-center gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".opml,.xml,text/x-opml,text/xml"
+            className="hidden"
+            onChange={handleImportFile}
+          />
+          <Button
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            Import OPML
+          </Button>
+          <Button variant="outline" onClick={handleExport} disabled={feeds.length === 0}>
+            <Download className="h-4 w-4 mr-2" />
+            Export OPML
+          </Button>
+          <Dialog open={isCreateDialogOpen} onOpenChange={setIsCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button onClick={() => { setEditingFeed(null); setTestPreview(null); form.reset(); }}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Feed Source
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>{editingFeed ? "Edit" : "Add New"} Feed Source</DialogTitle>
+                <DialogDescription>
+                  Configure RSS/JSON feed sources for automated content fetching
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="name"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Name</FormLabel>
+                          <FormControl>
+                            <Input placeholder="AI News Feed" {...field} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="category"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Category</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Select category" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {categories.map((category) => (
+                                <SelectItem key={category} value={category}>
+                                  {category}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+
                   <FormField
                     control={form.control}
-                    name="category"
+                    name="sourceType"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Category</FormLabel>
+                        <FormLabel>Source Type</FormLabel>
                         <Select onValueChange={field.onChange} value={field.value}>
                           <FormControl>
                             <SelectTrigger>
-                              <SelectValue placeholder="Select category" />
+                              <SelectValue />
                             </SelectTrigger>
                           </FormControl>
                           <SelectContent>
-                            {categories.map((category) => (
-                              <SelectItem key={category} value={category}>
-                                {category}
+                            {Object.entries(SOURCE_TYPE_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>
+                                {label}
                               </SelectItem>
                             ))}
                           </SelectContent>
@@ -255,131 +423,318 @@ export default function FeedSourceManager() {
                       </FormItem>
                     )}
                   />
-                </div>
 
-                <FormField
-                  control={form.control}
-                  name="url"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Feed URL</FormLabel>
-                      <div className="flex gap-2">
-                        <FormControl>
-                          <Input placeholder="https://example.com/feed.xml" {...field} />
-                        </FormControl>
-                        <Button 
-                          type="button" 
-                          variant="outline" 
-                          onClick={() => testFeedMutation.mutate(field.value)}
-                          disabled={!field.value || testFeedMutation.isPending}
-                        >
-                          Test
-                        </Button>
+                  <FormField
+                    control={form.control}
+                    name="url"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{sourceType === "html" ? "Listing Page URL" : sourceType === "sitemap" ? "Sitemap URL" : "Feed URL"}</FormLabel>
+                        <div className="flex gap-2">
+                          <FormControl>
+                            <Input placeholder="https://example.com/feed.xml" {...field} />
+                          </FormControl>
+                          <Button 
+                            type="button" 
+                            variant="outline" 
+                            onClick={() => testFeedMutation.mutate(form.getValues())}
+                            disabled={!field.value || testFeedMutation.isPending}
+                          >
+                            Test
+                          </Button>
+                        </div>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  {sourceType === "html" && (
+                    <div className="grid grid-cols-2 gap-4 rounded-lg border p-4">
+                      <FormField
+                        control={form.control}
+                        name="scrapeConfig.itemSelector"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Item Selector</FormLabel>
+                            <FormControl>
+                              <Input placeholder="article.post" {...field} value={field.value || ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="scrapeConfig.titleSelector"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Title Selector</FormLabel>
+                            <FormControl>
+                              <Input placeholder="h2" {...field} value={field.value || ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="scrapeConfig.linkSelector"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Link Selector</FormLabel>
+                            <FormControl>
+                              <Input placeholder="a[href]" {...field} value={field.value || ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="scrapeConfig.dateSelector"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Date Selector</FormLabel>
+                            <FormControl>
+                              <Input placeholder="time" {...field} value={field.value || ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <FormField
+                        control={form.control}
+                        name="scrapeConfig.summarySelector"
+                        render={({ field }) => (
+                          <FormItem>
+                            <FormLabel>Summary Selector</FormLabel>
+                            <FormControl>
+                              <Input placeholder="p.excerpt" {...field} value={field.value || ""} />
+                            </FormControl>
+                            <FormMessage />
+                          </FormItem>
+                        )}
+                      />
+                      <div className="col-span-2 text-sm text-muted-foreground">
+                        Title, link, date and summary selectors are matched inside each item. Leave them blank to use the first heading, link and &lt;time&gt; element.
                       </div>
-                      <FormMessage />
-                    </FormItem>
+                    </div>
                   )}
-                />
-
-                <FormField
-                  control={form.control}
-                  name="description"
-                  render={({ field }) => (
-                    <FormItem>
-                      <FormLabel>Description</FormLabel>
-                      <FormControl>
-                        <Textarea 
-                          placeholder="Brief description of this feed source"
-                          {...field}
-                        />
-                      </FormControl>
-                      <FormMessage />
-                    </FormItem>
+
+                  {sourceType === "sitemap" && (
+                    <FormField
+                      control={form.control}
+                      name="scrapeConfig.urlPattern"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>URL Pattern (regex)</FormLabel>
+                          <FormControl>
+                            <Input placeholder="/blog/" {...field} value={field.value || ""} />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  )}
+
+                  {testPreview && (
+                    <div className="rounded-lg border p-4 space-y-2">
+                      <div className="text-sm font-medium">
+                        Preview: {testPreview.articleCount} items ({testPreview.format})
+                      </div>
+                      {testPreview.articles.length === 0 ? (
+                        <div className="text-sm text-muted-foreground">Nothing matched. Check the selectors and try again.</div>
+                      ) : (
+                        <ScrollArea className="max-h-48">
+                          <div className="space-y-2">
+                            {testPreview.articles.map((article) => (
+                              <div key={article.url} className="text-sm">
+                                <div className="font-medium truncate">{article.title}</div>
+                                <div className="text-xs text-muted-foreground truncate">
+                                  {new Date(article.publishedDate).toLocaleDateString()} · {article.url}
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </ScrollArea>
+                      )}
+                    </div>
                   )}
-                />
 
-                <div className="grid grid-cols-2 gap-4">
                   <FormField
                     control={form.control}
-                    name="refreshInterval"
+                    name="weight"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Refresh Interval (minutes)</FormLabel>
+                        <FormLabel>Source Weight (0-100)</FormLabel>
                         <FormControl>
-                          <Input 
-                            type="number" 
-                            min="5" 
-                            max="1440"
+                          <Input
+                            type="number"
+                            min="0"
+                            max="100"
                             {...field}
                             onChange={(e) => field.onChange(parseInt(e.target.value))}
                           />
                         </FormControl>
+                        <div className="text-sm text-muted-foreground">
+                          How much articles from this source count towards relevance scores
+                        </div>
                         <FormMessage />
                       </FormItem>
                     )}
                   />
+
                   <FormField
                     control={form.control}
-                    name="enabled"
+                    name="description"
                     render={({ field }) => (
-                      <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
-                        <div className="space-y-0.5">
-                          <FormLabel className="text-base">Enabled</FormLabel>
-                          <div className="text-sm text-muted-foreground">
-                            Allow automatic fetching from this source
-                          </div>
-                        </div>
+                      <FormItem>
+                        <FormLabel>Description</FormLabel>
                         <FormControl>
-                          <Switch
-                            checked={field.value}
-                            onCheckedChange={field.onChange}
+                          <Textarea 
+                            placeholder="Brief description of this feed source"
+                            {...field}
                           />
                         </FormControl>
+                        <FormMessage />
                       </FormItem>
                     )}
                   />
-                </div>
 
-                <div className="space-y-2">
-                  <Label>Tags</Label>
-                  <div className="flex gap-2">
-                    <Input
-                      placeholder="Add tag"
-                      value={newTag}
-                      onChange={(e) => setNewTag(e.target.value)}
-                      onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="refreshInterval"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Refresh Interval (minutes)</FormLabel>
+                          <FormControl>
+                            <Input 
+                              type="number" 
+                              min="5" 
+                              max="1440"
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value))}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                    <FormField
+                      control={form.control}
+                      name="enabled"
+                      render={({ field }) => (
+                        <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                          <div className="space-y-0.5">
+                            <FormLabel className="text-base">Enabled</FormLabel>
+                            <div className="text-sm text-muted-foreground">
+                              Allow automatic fetching from this source
+                            </div>
+                          </div>
+                          <FormControl>
+                            <Switch
+                              checked={field.value}
+                              onCheckedChange={field.onChange}
+                            />
+                          </FormControl>
+                        </FormItem>
+                      )}
                     />
-                    <Button type="button" variant="outline" onClick={addTag}>
-                      <Tag className="h-4 w-4" />
-                    </Button>
                   </div>
-                  <div className="flex flex-wrap gap-2">
-                    {form.watch("tags").map((tag) => (
-                      <Badge key={tag} variant="secondary" className="cursor-pointer" onClick={() => removeTag(tag)}>
-                        {tag} ×
-                      </Badge>
-                    ))}
+
+                  <div className="space-y-2">
+                    <Label>Tags</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Add tag"
+                        value={newTag}
+                        onChange={(e) => setNewTag(e.target.value)}
+                        onKeyPress={(e) => e.key === 'Enter' && (e.preventDefault(), addTag())}
+                      />
+                      <Button type="button" variant="outline" onClick={addTag}>
+                        <Tag className="h-4 w-4" />
+                      </Button>
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {form.watch("tags").map((tag) => (
+                        <Badge key={tag} variant="secondary" className="cursor-pointer" onClick={() => removeTag(tag)}>
+                          {tag} ×
+                        </Badge>
+                      ))}
+                    </div>
                   </div>
-                </div>
 
-                <div className="flex justify-end space-x-2">
-                  <Button 
-                    type="button" 
-                    variant="outline" 
-                    onClick={() => setIsCreateDialogOpen(false)}
-                  >
-                    Cancel
-                  </Button>
-                  <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending}>
-                    {editingFeed ? "Update" : "Create"} Feed Source
-                  </Button>
-                </div>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                  <div className="flex justify-end space-x-2">
+                    <Button 
+                      type="button" 
+                      variant="outline" 
+                      onClick={() => setIsCreateDialogOpen(false)}
+                    >
+                      Cancel
+                    </Button>
+                    <Button type="submit" disabled={createMutation.isPending || updateMutation.isPending}>
+                      {editingFeed ? "Update" : "Create"} Feed Source
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
+      <Dialog
+        open={opmlContent !== null}
+        onOpenChange={(open) => {
+          if (!open) {
+            setOpmlContent(null);
+            setImportPreview([]);
+          }
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Import Feed Sources</DialogTitle>
+            <DialogDescription>
+              {newImportCount} of {importPreview.length} feeds will be added. Duplicates of existing sources are skipped.
+            </DialogDescription>
+          </DialogHeader>
+          <ScrollArea className="h-80">
+            <div className="space-y-2 pr-4">
+              {importPreview.map((entry, index) => (
+                <div key={`${entry.url}-${index}`} className="flex items-start justify-between gap-4 p-2 rounded-md border">
+                  <div className="min-w-0">
+                    <div className="font-medium text-sm truncate">{entry.name}</div>
+                    <div className="text-xs text-muted-foreground truncate">{entry.url}</div>
+                    <div className="flex flex-wrap gap-1 mt-1">
+                      <Badge variant="secondary" className="text-xs">{entry.category}</Badge>
+                      {entry.tags.map((tag) => (
+                        <Badge key={tag} variant="outline" className="text-xs">{tag}</Badge>
+                      ))}
+                    </div>
+                  </div>
+                  <Badge variant={entry.status === "new" ? "default" : "outline"} className="text-xs shrink-0">
+                    {entry.status === "new" ? "New" : "Duplicate"}
+                  </Badge>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setOpmlContent(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => opmlContent && importMutation.mutate({ opml: opmlContent, dryRun: false })}
+              disabled={importMutation.isPending || newImportCount === 0}
+            >
+              Import {newImportCount} Feeds
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Statistics */}
       <div className="grid gap-4 md:grid-cols-4">
         <Card>
@@ -445,6 +800,9 @@ export default function FeedSourceManager() {
                     <div className="flex items-center gap-2">
                       <CardTitle className="text-lg">{feed.name}</CardTitle>
                       <Badge variant="outline">{feed.category}</Badge>
+                      {feed.sourceType !== "feed" && (
+                        <Badge variant="secondary">{feed.sourceType === "html" ? "HTML" : "Sitemap"}</Badge>
+                      )}
                       {feed.enabled ? (
                         <Badge variant="default" className="bg-green-500">
                           <CheckCircle className="h-3 w-3 mr-1" />
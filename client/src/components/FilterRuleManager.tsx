@@ -0,0 +1,372 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { Filter, Plus, Trash2, ShieldOff } from "lucide-react";
+import type { FeedSource, FilterRule, FilteredArticle } from "@shared/schema";
+
+type RuleType = "keyword" | "regex" | "source" | "min_length";
+
+interface RuleFormState {
+  name: string;
+  type: RuleType;
+  action: "include" | "exclude";
+  field: "title" | "content" | "any";
+  values: string;
+  minLength: number;
+  feedSourceId: string; // "all" or a feed source id
+}
+
+const emptyForm: RuleFormState = {
+  name: "",
+  type: "keyword",
+  action: "exclude",
+  field: "any",
+  values: "",
+  minLength: 200,
+  feedSourceId: "all",
+};
+
+const typeLabels: Record<RuleType, string> = {
+  keyword: "Keywords",
+  regex: "Regex",
+  source: "Source",
+  min_length: "Minimum length",
+};
+
+export default function FilterRuleManager() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [form, setForm] = useState<RuleFormState>(emptyForm);
+
+  const { data: rulesData } = useQuery({
+    queryKey: ["/api/filter-rules"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/filter-rules");
+      return res.json();
+    },
+  });
+
+  const { data: feedsData } = useQuery({
+    queryKey: ["/api/feed-sources"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/feed-sources");
+      return res.json();
+    },
+  });
+
+  const { data: filteredData } = useQuery({
+    queryKey: ["/api/filtered-articles"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/filtered-articles?limit=50");
+      return res.json();
+    },
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: Partial<FilterRule>) => {
+      const res = await apiRequest("POST", "/api/filter-rules", data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/filter-rules"] });
+      setIsDialogOpen(false);
+      setForm(emptyForm);
+      toast({
+        title: "Filter Rule Created",
+        description: "New articles will be checked against this rule",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Creation Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Partial<FilterRule> }) => {
+      const res = await apiRequest("PUT", `/api/filter-rules/${id}`, data);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/filter-rules"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("DELETE", `/api/filter-rules/${id}`);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/filter-rules"] });
+      toast({
+        title: "Filter Rule Deleted",
+        description: "Filter rule has been removed",
+      });
+    },
+  });
+
+  const rules: FilterRule[] = rulesData?.filterRules || [];
+  const feeds: FeedSource[] = feedsData?.feedSources || [];
+  const filteredArticles: FilteredArticle[] = filteredData?.filteredArticles || [];
+
+  const feedName = (feedSourceId: number | null) =>
+    feedSourceId === null ? "All feeds" : feeds.find(feed => feed.id === feedSourceId)?.name || `Feed #${feedSourceId}`;
+
+  const handleSubmit = () => {
+    createMutation.mutate({
+      name: form.name,
+      type: form.type,
+      action: form.action,
+      field: form.field,
+      // Regex patterns may contain commas, so they are one per line
+      values: form.values
+        .split(form.type === "regex" ? /\n/ : /[\n,]/)
+        .map(value => value.trim())
+        .filter(value => value.length > 0),
+      minLength: form.type === "min_length" ? form.minLength : null,
+      feedSourceId: form.feedSourceId === "all" ? null : parseInt(form.feedSourceId),
+    });
+  };
+
+  const describeRule = (rule: FilterRule) => {
+    if (rule.type === "min_length") return `Content shorter than ${rule.minLength} characters`;
+    const verb = rule.action === "include" ? "Require" : "Exclude";
+    const where = rule.type === "source" ? "" : ` in ${rule.field === "any" ? "title or content" : rule.field}`;
+    return `${verb}${where}: ${(rule.values || []).join(", ")}`;
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Filter className="h-5 w-5" />
+              Filter Rules
+            </CardTitle>
+            <CardDescription>
+              Drop noisy articles during ingest, before they reach the library
+            </CardDescription>
+          </div>
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button size="sm" onClick={() => setForm(emptyForm)}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Rule
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-lg">
+              <DialogHeader>
+                <DialogTitle>Add Filter Rule</DialogTitle>
+                <DialogDescription>
+                  Include rules keep only matching articles; exclude rules drop matching articles.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4">
+                <div>
+                  <Label htmlFor="rule-name">Name</Label>
+                  <Input
+                    id="rule-name"
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="No crypto"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div>
+                    <Label>Type</Label>
+                    <Select value={form.type} onValueChange={(value) => setForm({ ...form, type: value as RuleType })}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Object.entries(typeLabels).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {form.type !== "min_length" && (
+                    <div>
+                      <Label>Action</Label>
+                      <Select
+                        value={form.action}
+                        onValueChange={(value) => setForm({ ...form, action: value as RuleFormState["action"] })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="exclude">{form.type === "source" ? "Deny" : "Exclude"}</SelectItem>
+                          <SelectItem value="include">{form.type === "source" ? "Allow only" : "Include only"}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+                </div>
+                {(form.type === "keyword" || form.type === "regex") && (
+                  <div>
+                    <Label>Match Against</Label>
+                    <Select
+                      value={form.field}
+                      onValueChange={(value) => setForm({ ...form, field: value as RuleFormState["field"] })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="any">Title or content</SelectItem>
+                        <SelectItem value="title">Title</SelectItem>
+                        <SelectItem value="content">Content</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+                {form.type === "min_length" ? (
+                  <div>
+                    <Label htmlFor="rule-min-length">Minimum Content Length</Label>
+                    <Input
+                      id="rule-min-length"
+                      type="number"
+                      min={1}
+                      value={form.minLength}
+                      onChange={(e) => setForm({ ...form, minLength: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                ) : (
+                  <div>
+                    <Label htmlFor="rule-values">
+                      {form.type === "regex" ? "Patterns" : form.type === "source" ? "Sources or domains" : "Keywords"}
+                    </Label>
+                    <Textarea
+                      id="rule-values"
+                      rows={3}
+                      value={form.values}
+                      onChange={(e) => setForm({ ...form, values: e.target.value })}
+                      placeholder={form.type === "regex" ? "\\bNFTs?\\b" : form.type === "source" ? "example.com, Some Blog" : "crypto, bitcoin, gadget"}
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {form.type === "regex" ? "One pattern per line" : "One per line or comma-separated"}
+                    </p>
+                  </div>
+                )}
+                <div>
+                  <Label>Applies To</Label>
+                  <Select value={form.feedSourceId} onValueChange={(value) => setForm({ ...form, feedSourceId: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">All feeds</SelectItem>
+                      {feeds.map((feed) => (
+                        <SelectItem key={feed.id} value={feed.id.toString()}>{feed.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                  Cancel
+                </Button>
+                <Button onClick={handleSubmit} disabled={!form.name.trim() || createMutation.isPending}>
+                  Create Rule
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </CardHeader>
+        <CardContent>
+          {rules.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No filter rules yet. Every fetched article is kept.</p>
+          ) : (
+            <div className="space-y-2">
+              {rules.map((rule) => (
+                <div key={rule.id} className="flex items-center justify-between gap-4 p-3 rounded-md border">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="font-medium text-sm">{rule.name}</span>
+                      <Badge variant="secondary" className="text-xs">{typeLabels[rule.type as RuleType] || rule.type}</Badge>
+                      <Badge variant="outline" className="text-xs">{feedName(rule.feedSourceId)}</Badge>
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate mt-1">{describeRule(rule)}</p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={rule.enabled ?? true}
+                      onCheckedChange={(enabled) => updateMutation.mutate({ id: rule.id, data: { enabled } })}
+                    />
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(rule.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <ShieldOff className="h-5 w-5" />
+            Recently Filtered
+          </CardTitle>
+          <CardDescription>
+            Articles dropped by filter rules and why, for spotting rules that are too aggressive
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {filteredArticles.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Nothing has been filtered yet.</p>
+          ) : (
+            <ScrollArea className="h-72">
+              <div className="space-y-2 pr-4">
+                {filteredArticles.map((article) => (
+                  <div key={article.id} className="p-2 rounded-md border text-sm">
+                    <a
+                      href={article.url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="font-medium hover:underline line-clamp-1"
+                    >
+                      {article.title}
+                    </a>
+                    <div className="text-xs text-muted-foreground mt-1">
+                      {article.source} · {new Date(article.filteredAt).toLocaleString()}
+                    </div>
+                    <div className="text-xs mt-1">
+                      <span className="font-medium">{article.ruleName}:</span> {article.reason}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </ScrollArea>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ListChecks, RotateCcw, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { format, formatDistanceToNow } from "date-fns";
+import type { Job } from "@shared/schema";
+
+const JOB_LABELS: Record<string, string> = {
+  generate: "Newsletter generation",
+  publish: "Beehiiv publish",
+  social_generate: "Social post generation",
+  rescore: "Article rescoring",
+};
+
+const STATUS_STYLES: Record<string, string> = {
+  pending: "bg-yellow-100 text-yellow-800",
+  running: "bg-blue-100 text-blue-800",
+  completed: "bg-green-100 text-green-800",
+  dead: "bg-red-100 text-red-800",
+};
+
+export default function JobQueuePanel() {
+  const [statusFilter, setStatusFilter] = useState("all");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const jobsUrl = statusFilter === "all" ? "/api/jobs" : `/api/jobs?status=${statusFilter}`;
+  const { data: jobsData, isLoading, refetch } = useQuery<{ jobs: Job[] }>({
+    queryKey: [jobsUrl],
+    refetchInterval: 10000,
+  });
+
+  const jobs = jobsData?.jobs || [];
+
+  const retryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/jobs/${id}/retry`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [jobsUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      toast({
+        title: "Job Requeued",
+        description: `Job #${data.job.id} will run again shortly.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Retry Failed",
+        description: error instanceof Error ? error.message : "Failed to retry job",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const describeTiming = (job: Job) => {
+    if (job.status === "pending" && job.attempts > 0) {
+      return `Next attempt ${formatDistanceToNow(new Date(job.runAt), { addSuffix: true })}`;
+    }
+    if (job.completedAt) {
+      return `Finished ${format(new Date(job.completedAt), "MMM d, h:mm a")}`;
+    }
+    return `Created ${format(new Date(job.createdAt), "MMM d, h:mm a")}`;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center">
+            <ListChecks className="text-primary mr-3 w-5 h-5" />
+            Background Jobs
+          </div>
+          <div className="flex items-center space-x-2">
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All jobs</SelectItem>
+                <SelectItem value="pending">Pending</SelectItem>
+                <SelectItem value="running">Running</SelectItem>
+                <SelectItem value="completed">Completed</SelectItem>
+                <SelectItem value="dead">Dead letter</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button variant="ghost" size="sm" onClick={() => refetch()}>
+              <RefreshCw className="w-4 h-4" />
+            </Button>
+          </div>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <ScrollArea className="h-96">
+          {isLoading ? (
+            <div className="text-center py-8 text-slate-500">Loading jobs...</div>
+          ) : jobs.length === 0 ? (
+            <div className="text-center py-8 text-slate-500">
+              <ListChecks className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+              <p>No jobs yet.</p>
+              <p className="text-sm">Scheduled generation, publishing and social posts show up here.</p>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {jobs.map((job) => (
+                <div key={job.id} className="border border-slate-200 rounded-lg p-3">
+                  <div className="flex items-start justify-between">
+                    <div className="space-y-1">
+                      <div className="flex items-center space-x-2">
+                        <span className="font-medium text-slate-800">
+                          #{job.id} {JOB_LABELS[job.type] || job.type}
+                        </span>
+                        <Badge className={STATUS_STYLES[job.status] || ""}>
+                          {job.status === "dead" ? "dead letter" : job.status}
+                        </Badge>
+                      </div>
+                      <p className="text-xs text-slate-500">
+                        Attempt {job.attempts} of {job.maxAttempts} · {describeTiming(job)}
+                      </p>
+                      {job.lastError && (
+                        <p className="text-xs text-red-600 break-words">{job.lastError}</p>
+                      )}
+                    </div>
+                    {(job.status === "dead" || job.status === "pending") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => retryMutation.mutate(job.id)}
+                        disabled={retryMutation.isPending}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                        {job.status === "dead" ? "Retry" : "Run now"}
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </ScrollArea>
+      </CardContent>
+    </Card>
+  );
+}
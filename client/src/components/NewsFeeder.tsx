@@ -1,6 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Download, RefreshCw, Rss, Check } from "lucide-react";
+import { Download, RefreshCw, Rss, Check, Layers, Archive, Inbox, ChevronLeft, ChevronRight, ChevronDown, ChevronUp, TrendingUp } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -8,23 +8,49 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/api";
-import type { Article } from "@shared/schema";
+import type { Article, ScoreBreakdown } from "@shared/schema";
+
+interface StoryCluster {
+  id: number;
+  title: string;
+  articleIds: number[];
+}
 
 export default function NewsFeeder() {
   const [newsUrl, setNewsUrl] = useState("https://www.inoreader.com/stream/user/1003985272/tag/AI/view/json");
   const [autoRefresh, setAutoRefresh] = useState(false);
+  const [view, setView] = useState("inbox");
+  const [page, setPage] = useState(1);
+  const [sort, setSort] = useState("date");
+  const [expandedClusters, setExpandedClusters] = useState<Set<number>>(new Set());
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const pageSize = 25;
 
   // Fetch articles
   const { data: articlesData, isLoading: isLoadingArticles } = useQuery({
-    queryKey: ["/api/articles"],
+    queryKey: ["/api/articles", view, page, sort],
+    queryFn: async () => {
+      const params = new URLSearchParams({ page: String(page), pageSize: String(pageSize), sort });
+      if (view !== "all") params.set("status", view);
+      const response = await apiRequest("GET", `/api/articles?${params}`);
+      return response.json();
+    },
     refetchInterval: autoRefresh ? 300000 : false, // 5 minutes if auto-refresh
   });
 
   const articles: Article[] = articlesData?.articles || [];
+  const totalArticles: number = articlesData?.total || 0;
+  const totalPages = Math.max(1, Math.ceil(totalArticles / pageSize));
+  const usedArticleIds = new Set<number>(articlesData?.usedArticleIds || []);
+  const clusters: StoryCluster[] = articlesData?.clusters || [];
+  const clusterByArticleId = new Map<number, StoryCluster>();
+  clusters.forEach(cluster => cluster.articleIds.forEach(id => clusterByArticleId.set(id, cluster)));
   const selectedCount = articles.filter(a => a.selected).length;
 
   // Fetch news mutation
@@ -49,6 +75,31 @@ export default function NewsFeeder() {
     },
   });
 
+  // Fetch from all enabled feed sources
+  const fetchAllMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("GET", "/api/news/fetch-all");
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/feed-sources"] });
+      toast({
+        title: data.failedSources > 0 ? "Fetched with errors" : "Success!",
+        description: `Added ${data.totalAdded} new articles from ${data.sources.length} sources` +
+          (data.failedSources > 0 ? ` (${data.failedSources} failed)` : "."),
+        variant: data.failedSources > 0 && data.failedSources === data.sources.length ? "destructive" : "default",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to fetch feed sources",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Update article selection
   const updateSelectionMutation = useMutation({
     mutationFn: async ({ id, selected }: { id: number; selected: boolean }) => {
@@ -67,6 +118,56 @@ export default function NewsFeeder() {
     },
   });
 
+  // Move an article between inbox, reviewed and archived
+  const updateStatusMutation = useMutation({
+    mutationFn: async ({ id, status }: { id: number; status: string }) => {
+      const response = await apiRequest("PATCH", `/api/articles/${id}/status`, { status });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/articles"] });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Failed to update article status",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Recompute relevance scores for the whole library
+  const rescoreMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/articles/rescore", { useClaude: true });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      toast({
+        title: "Rescoring started",
+        description: `Scores update when job #${data.job.id} finishes. Track it under Jobs.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to rescore articles",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleViewChange = (value: string) => {
+    setView(value);
+    setPage(1);
+  };
+
+  const handleSortChange = (value: string) => {
+    setSort(value);
+    setPage(1);
+  };
+
   const handleFetchNews = () => {
     if (!newsUrl.trim()) {
       toast({
@@ -88,6 +189,24 @@ export default function NewsFeeder() {
     });
   };
 
+  // A story is selected as a unit: every article in it follows the checkbox
+  const handleSelectCluster = (members: Article[], selected: boolean) => {
+    members.forEach(article => {
+      if (article.selected !== selected) {
+        updateSelectionMutation.mutate({ id: article.id, selected });
+      }
+    });
+  };
+
+  const toggleCluster = (id: number) => {
+    setExpandedClusters(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
   const formatTimeAgo = (date: Date) => {
     const now = new Date();
     const diffInHours = Math.floor((now.getTime() - new Date(date).getTime()) / (1000 * 60 * 60));
@@ -101,6 +220,150 @@ export default function NewsFeeder() {
     return `${diffInDays} days ago`;
   };
 
+  const scoreColor = (score: number) => {
+    if (score >= 70) return "bg-green-50 text-green-700 border-green-200";
+    if (score >= 40) return "bg-amber-50 text-amber-700 border-amber-200";
+    return "bg-slate-50 text-slate-600 border-slate-200";
+  };
+
+  const formatComponent = (value: number) => `${Math.round(value * 100)}%`;
+
+  const renderScoreBreakdown = (breakdown: ScoreBreakdown) => (
+    <div className="space-y-1 text-xs">
+      <div className="flex justify-between space-x-4"><span>Source weight</span><span>{formatComponent(breakdown.source)}</span></div>
+      <div className="flex justify-between space-x-4"><span>Topic match</span><span>{formatComponent(breakdown.topic)}</span></div>
+      <div className="flex justify-between space-x-4"><span>Coverage</span><span>{formatComponent(breakdown.coverage)}</span></div>
+      {breakdown.claude !== undefined && (
+        <div className="flex justify-between space-x-4"><span>Claude</span><span>{formatComponent(breakdown.claude)}</span></div>
+      )}
+      {breakdown.matchedKeywords.length > 0 && (
+        <div className="pt-1 border-t">Matched: {breakdown.matchedKeywords.join(", ")}</div>
+      )}
+    </div>
+  );
+
+  const renderArticle = (article: Article) => (
+    <div
+      key={article.id}
+      className="flex items-start space-x-3 p-3 rounded-lg border border-slate-100 hover:bg-slate-50 transition-colors"
+    >
+      <Checkbox
+        checked={article.selected}
+        onCheckedChange={(checked) =>
+          updateSelectionMutation.mutate({
+            id: article.id,
+            selected: !!checked,
+          })
+        }
+        className="mt-1"
+      />
+      {article.imageUrl && (
+        <img
+          src={article.imageUrl}
+          alt=""
+          loading="lazy"
+          className="w-14 h-14 rounded object-cover flex-shrink-0"
+        />
+      )}
+      <div className="flex-1 min-w-0">
+        <h4 className="text-sm font-medium text-slate-800 line-clamp-2">
+          {article.title}
+        </h4>
+        <div className="flex items-center space-x-4 mt-2 text-xs text-slate-500">
+          <span>
+            {article.source}
+            {article.author && ` · ${article.author}`}
+          </span>
+          <span>{formatTimeAgo(article.publishedDate)}</span>
+          {article.relevanceScore !== null && (
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Badge variant="outline" className={`text-xs cursor-default ${scoreColor(article.relevanceScore)}`}>
+                  Score {article.relevanceScore}
+                </Badge>
+              </TooltipTrigger>
+              {article.scoreBreakdown && (
+                <TooltipContent>{renderScoreBreakdown(article.scoreBreakdown)}</TooltipContent>
+              )}
+            </Tooltip>
+          )}
+          {usedArticleIds.has(article.id) && (
+            <Badge variant="outline" className="text-xs">
+              <Check className="w-3 h-3 mr-1" />
+              Published
+            </Badge>
+          )}
+        </div>
+        {article.categories && article.categories.length > 0 && (
+          <div className="flex flex-wrap gap-1 mt-2">
+            {article.categories.slice(0, 4).map((category) => (
+              <Badge key={category} variant="secondary" className="text-xs font-normal">
+                {category}
+              </Badge>
+            ))}
+          </div>
+        )}
+      </div>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-7 w-7 text-slate-400 hover:text-slate-700"
+        title={article.status === "archived" ? "Move to inbox" : "Archive"}
+        onClick={() =>
+          updateStatusMutation.mutate({
+            id: article.id,
+            status: article.status === "archived" ? "inbox" : "archived",
+          })
+        }
+      >
+        {article.status === "archived" ? <Inbox className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+      </Button>
+    </div>
+  );
+
+  const renderCluster = (cluster: StoryCluster) => {
+    const members = cluster.articleIds
+      .map(id => articles.find(article => article.id === id))
+      .filter((article): article is Article => !!article);
+    const allSelected = members.every(article => article.selected);
+    const isExpanded = expandedClusters.has(cluster.id);
+
+    return (
+      <Collapsible
+        key={`cluster-${cluster.id}`}
+        open={isExpanded}
+        onOpenChange={() => toggleCluster(cluster.id)}
+        className="rounded-lg border border-slate-200"
+      >
+        <div className="flex items-start space-x-3 p-3 bg-slate-50">
+          <Checkbox
+            checked={allSelected}
+            onCheckedChange={(checked) => handleSelectCluster(members, !!checked)}
+            className="mt-1"
+          />
+          <div className="flex-1 min-w-0">
+            <h4 className="text-sm font-medium text-slate-800 line-clamp-2">{cluster.title}</h4>
+            <div className="flex flex-wrap items-center gap-1 mt-2 text-xs text-slate-500">
+              <Badge variant="outline" className="text-xs">
+                <Layers className="w-3 h-3 mr-1" />
+                {members.length} sources
+              </Badge>
+              <span className="truncate">{members.map(article => article.source).join(", ")}</span>
+            </div>
+          </div>
+          <CollapsibleTrigger asChild>
+            <Button variant="ghost" size="icon" className="h-7 w-7 text-slate-400 hover:text-slate-700" title={isExpanded ? "Collapse story" : "Expand story"}>
+              {isExpanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+        <CollapsibleContent className="space-y-2 p-2">
+          {members.map(renderArticle)}
+        </CollapsibleContent>
+      </Collapsible>
+    );
+  };
+
   return (
     <div className="space-y-6">
       {/* News Fetch Section */}
@@ -146,6 +409,20 @@ export default function NewsFeeder() {
             </div>
           </div>
 
+          <Button
+            variant="outline"
+            onClick={() => fetchAllMutation.mutate()}
+            disabled={fetchAllMutation.isPending}
+            className="w-full"
+          >
+            {fetchAllMutation.isPending ? (
+              <RefreshCw className="w-4 h-4 animate-spin mr-2" />
+            ) : (
+              <Layers className="w-4 h-4 mr-2" />
+            )}
+            Fetch All Feed Sources
+          </Button>
+
           <div className="flex items-center justify-between">
             <span className="text-sm text-slate-600">
               Last updated: {articles.length > 0 ? formatTimeAgo(new Date(articles[0]?.fetchedAt || Date.now())) : "Never"}
@@ -167,10 +444,42 @@ export default function NewsFeeder() {
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center justify-between">
-            <span>Latest AI News</span>
-            <span className="text-sm font-normal text-slate-600">
-              {articles.length} articles found
-            </span>
+            <span>Article Library</span>
+            <div className="flex items-center space-x-3">
+              <span className="text-sm font-normal text-slate-600">
+                {totalArticles} articles
+              </span>
+              <Select value={sort} onValueChange={handleSortChange}>
+                <SelectTrigger className="w-32 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="date">Newest</SelectItem>
+                  <SelectItem value="score">Most relevant</SelectItem>
+                </SelectContent>
+              </Select>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Rescore articles"
+                disabled={rescoreMutation.isPending}
+                onClick={() => rescoreMutation.mutate()}
+              >
+                <TrendingUp className={`w-4 h-4 ${rescoreMutation.isPending ? "animate-pulse" : ""}`} />
+              </Button>
+              <Select value={view} onValueChange={handleViewChange}>
+                <SelectTrigger className="w-32 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="inbox">Inbox</SelectItem>
+                  <SelectItem value="reviewed">Reviewed</SelectItem>
+                  <SelectItem value="archived">Archived</SelectItem>
+                  <SelectItem value="all">All</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
           </CardTitle>
         </CardHeader>
         <CardContent>
@@ -181,38 +490,19 @@ export default function NewsFeeder() {
           ) : articles.length === 0 ? (
             <div className="text-center py-8 text-slate-500">
               <Rss className="w-12 h-12 mx-auto mb-4 text-slate-300" />
-              <p>No articles found. Click "Fetch" to load news articles.</p>
+              <p>{view === "inbox" ? 'Inbox is empty. Click "Fetch" to load news articles.' : "No articles found."}</p>
             </div>
           ) : (
             <>
               <ScrollArea className="h-96">
                 <div className="space-y-3">
-                  {articles.map((article) => (
-                    <div
-                      key={article.id}
-                      className="flex items-start space-x-3 p-3 rounded-lg border border-slate-100 hover:bg-slate-50 transition-colors"
-                    >
-                      <Checkbox
-                        checked={article.selected}
-                        onCheckedChange={(checked) =>
-                          updateSelectionMutation.mutate({
-                            id: article.id,
-                            selected: !!checked,
-                          })
-                        }
-                        className="mt-1"
-                      />
-                      <div className="flex-1 min-w-0">
-                        <h4 className="text-sm font-medium text-slate-800 line-clamp-2">
-                          {article.title}
-                        </h4>
-                        <div className="flex items-center space-x-4 mt-2 text-xs text-slate-500">
-                          <span>{article.source}</span>
-                          <span>{formatTimeAgo(article.publishedDate)}</span>
-                        </div>
-                      </div>
-                    </div>
-                  ))}
+                  {articles.map((article) => {
+                    const cluster = clusterByArticleId.get(article.id);
+                    if (!cluster) return renderArticle(article);
+                    // Render each story once, where its lead article would appear
+                    if (cluster.articleIds[0] !== article.id) return null;
+                    return renderCluster(cluster);
+                  })}
                 </div>
               </ScrollArea>
 
@@ -225,6 +515,29 @@ export default function NewsFeeder() {
                 >
                   {articles.every(a => a.selected) ? "Deselect All" : "Select All"}
                 </Button>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={page <= 1}
+                    onClick={() => setPage(page - 1)}
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                  </Button>
+                  <span className="text-xs text-slate-500">
+                    Page {page} of {totalPages}
+                  </span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    disabled={page >= totalPages}
+                    onClick={() => setPage(page + 1)}
+                  >
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
                 <span className="text-sm text-slate-600">
                   {selectedCount} articles selected
                 </span>
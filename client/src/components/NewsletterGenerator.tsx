@@ -1,24 +1,46 @@
 import { useState } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { FileText, Edit, Clock, AlignLeft, RotateCcw, Calendar, Eye } from "lucide-react";
+import { FileText, Edit, Clock, AlignLeft, RotateCcw, Calendar, Eye, XCircle, History, Wand2, Mail } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useNewsletter } from "@/hooks/useNewsletter";
+import { useGenerationOptions } from "@/hooks/useGenerationOptions";
 import RichTextEditor from "@/components/RichTextEditor";
-import { format } from "date-fns";
+import VerificationReportPanel from "@/components/VerificationReportPanel";
+import RevisionHistory from "@/components/RevisionHistory";
+import SectionRegenerator from "@/components/SectionRegenerator";
+import { MAX_CUSTOM_PROMPT_LENGTH, type Newsletter } from "@shared/schema";
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Older issues without rendered HTML go into the editor as plain paragraphs so their markdown survives the round trip
+const toEditorHtml = (newsletter: Newsletter) =>
+  newsletter.htmlContent ||
+  newsletter.content
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, "<br>")}</p>`)
+    .join("");
 
 export default function NewsletterGenerator() {
-  const [newsletterDate, setNewsletterDate] = useState(format(new Date(), 'yyyy-MM-dd'));
-  const [selectedTemplate, setSelectedTemplate] = useState("standard");
   const [isEditorOpen, setIsEditorOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSectionsOpen, setIsSectionsOpen] = useState(false);
+  const [isEmailPreviewOpen, setIsEmailPreviewOpen] = useState(false);
   const [editedContent, setEditedContent] = useState("");
   
-  const { newsletter, isGenerating, generateNewsletter, regenerateNewsletter } = useNewsletter();
+  const { newsletter, isGenerating, streamingHtml, generateNewsletter, regenerateNewsletter, cancelGeneration, saveNewsletterEdit, isSaving } = useNewsletter();
+  // Shared with the controls panel, so both Generate buttons use what is picked here
+  const {
+    templates, date, setDate, templateValue, setTemplate, instructions, setInstructions, structuredValue, setStructured, generationParams,
+  } = useGenerationOptions();
 
   // Get next issue number
   const { data: issueData } = useQuery({
@@ -41,21 +63,22 @@ export default function NewsletterGenerator() {
   };
 
   const handleRegenerate = () => {
-    regenerateNewsletter({
-      issueNumber: nextIssueNumber,
-      date: newsletterDate,
-    });
+    regenerateNewsletter(generationParams(nextIssueNumber));
   };
 
   const handleEdit = () => {
-    setEditedContent(newsletter?.content || "");
+    setEditedContent(newsletter ? toEditorHtml(newsletter) : "");
     setIsEditorOpen(true);
   };
 
-  const handleSaveEdit = (content: string) => {
-    setEditedContent(content);
-    // Here you would typically save the edited content to the backend
-    setIsEditorOpen(false);
+  const handleSaveEdit = async () => {
+    if (!newsletter) return;
+    try {
+      await saveNewsletterEdit(newsletter.id, { htmlContent: editedContent });
+      setIsEditorOpen(false);
+    } catch {
+      // The hook reports the failure; keep the editor open so nothing is lost
+    }
   };
 
   return (
@@ -70,9 +93,72 @@ export default function NewsletterGenerator() {
             <span className="text-sm text-slate-600">
               Issue #{newsletter?.issueNumber || nextIssueNumber}
             </span>
+            <Dialog open={isHistoryOpen} onOpenChange={setIsHistoryOpen}>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" disabled={!newsletter}>
+                  <History className="w-4 h-4 mr-1" />
+                  History
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Revision History: {newsletter?.title}</DialogTitle>
+                </DialogHeader>
+                {isHistoryOpen && newsletter && <RevisionHistory newsletter={newsletter} />}
+              </DialogContent>
+            </Dialog>
+            <Dialog open={isEmailPreviewOpen} onOpenChange={setIsEmailPreviewOpen}>
+              <DialogTrigger asChild>
+                <Button variant="ghost" size="sm" disabled={!newsletter?.content || isGenerating}>
+                  <Mail className="w-4 h-4 mr-1" />
+                  Email
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-3xl max-h-[90vh]">
+                <DialogHeader>
+                  <DialogTitle>Email Preview: {newsletter?.title}</DialogTitle>
+                </DialogHeader>
+                {isEmailPreviewOpen && newsletter && (
+                  // Rendered by the server with the layout from Settings, as it will be sent
+                  <iframe
+                    title="Email preview"
+                    src={`/api/newsletters/${newsletter.id}/email`}
+                    sandbox=""
+                    className="w-full h-[70vh] border border-slate-200 rounded-lg bg-white"
+                  />
+                )}
+              </DialogContent>
+            </Dialog>
+            <Dialog open={isSectionsOpen} onOpenChange={setIsSectionsOpen}>
+              <DialogTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={!newsletter?.content || newsletter.status === "published" || isGenerating}
+                  title={newsletter?.status === "published" ? "Published issues can't be edited" : undefined}
+                >
+                  <Wand2 className="w-4 h-4 mr-1" />
+                  Rewrite Section
+                </Button>
+              </DialogTrigger>
+              <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+                <DialogHeader>
+                  <DialogTitle>Regenerate a Section</DialogTitle>
+                </DialogHeader>
+                {isSectionsOpen && newsletter && (
+                  <SectionRegenerator newsletter={newsletter} onDone={() => setIsSectionsOpen(false)} />
+                )}
+              </DialogContent>
+            </Dialog>
             <Dialog open={isEditorOpen} onOpenChange={setIsEditorOpen}>
               <DialogTrigger asChild>
-                <Button variant="ghost" size="sm" disabled={!newsletter?.content} onClick={handleEdit}>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={!newsletter?.content || newsletter.status === "published" || isGenerating}
+                  title={newsletter?.status === "published" ? "Published issues can't be edited" : undefined}
+                  onClick={handleEdit}
+                >
                   <Edit className="w-4 h-4 mr-1" />
                   Edit
                 </Button>
@@ -84,10 +170,18 @@ export default function NewsletterGenerator() {
                 {isEditorOpen && (
                   <RichTextEditor
                     content={editedContent}
-                    onChange={handleSaveEdit}
+                    onChange={setEditedContent}
                     title={newsletter?.title || "Newsletter"}
                   />
                 )}
+                <DialogFooter>
+                  <Button variant="outline" onClick={() => setIsEditorOpen(false)} disabled={isSaving}>
+                    Cancel
+                  </Button>
+                  <Button onClick={handleSaveEdit} disabled={isSaving || !editedContent.trim()}>
+                    {isSaving ? "Saving..." : "Save Changes"}
+                  </Button>
+                </DialogFooter>
               </DialogContent>
             </Dialog>
           </div>
@@ -102,8 +196,8 @@ export default function NewsletterGenerator() {
             <Input
               id="newsletter-date"
               type="date"
-              value={newsletterDate}
-              onChange={(e) => setNewsletterDate(e.target.value)}
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
               className="w-full"
             />
           </div>
@@ -111,23 +205,59 @@ export default function NewsletterGenerator() {
             <Label htmlFor="template" className="text-sm font-medium text-slate-700 mb-2 block">
               Template
             </Label>
-            <Select value={selectedTemplate} onValueChange={setSelectedTemplate}>
+            <Select value={templateValue} onValueChange={setTemplate}>
               <SelectTrigger>
                 <SelectValue placeholder="Select template" />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="standard">Standard Weekly</SelectItem>
-                <SelectItem value="curated">Curated Highlights</SelectItem>
-                <SelectItem value="brief">Brief Summary</SelectItem>
+                {templates.map((template) => (
+                  <SelectItem key={template.id} value={String(template.id)}>
+                    {template.name}
+                  </SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
         </div>
 
+        <div>
+          <Label htmlFor="instructions" className="text-sm font-medium text-slate-700 mb-2 block">
+            Editorial Instructions (optional)
+          </Label>
+          <Textarea
+            id="instructions"
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder="e.g. Lead with the EU AI Act story, skip funding news"
+            maxLength={MAX_CUSTOM_PROMPT_LENGTH}
+            rows={2}
+          />
+        </div>
+
+        <div className="flex items-center space-x-2">
+          <Switch id="structured" checked={structuredValue} onCheckedChange={setStructured} />
+          <Label htmlFor="structured" className="text-sm text-slate-700">
+            Structured sections with source citations
+          </Label>
+        </div>
+
         {/* Newsletter Content Preview */}
         <div className="border border-slate-200 rounded-lg p-4 bg-slate-50">
           <ScrollArea className="h-64">
-            {newsletter?.content ? (
+            {isGenerating ? (
+              <div className="prose prose-sm max-w-none">
+                {streamingHtml ? (
+                  // Sanitized on the server by the same renderer as the finished preview below
+                  <div dangerouslySetInnerHTML={{ __html: streamingHtml }} />
+                ) : (
+                  <span className="text-slate-500">Waiting for the first words...</span>
+                )}
+                <span className="inline-block w-2 h-4 ml-0.5 align-text-bottom bg-primary animate-pulse" />
+              </div>
+            ) : newsletter?.htmlContent ? (
+              // Rendered and sanitized on the server, the same HTML that gets emailed and published
+              <div className="prose prose-sm max-w-none" dangerouslySetInnerHTML={{ __html: newsletter.htmlContent }} />
+            ) : newsletter?.content ? (
               <div className="prose prose-sm max-w-none whitespace-pre-wrap">
                 {newsletter.content}
               </div>
@@ -143,9 +273,17 @@ export default function NewsletterGenerator() {
           </ScrollArea>
         </div>
 
+        {newsletter?.customPrompt && (
+          <p className="text-xs text-slate-500">
+            <span className="font-medium">Instructions used:</span> {newsletter.customPrompt}
+          </p>
+        )}
+
+        {!isGenerating && newsletter && <VerificationReportPanel newsletter={newsletter} />}
+
         <div className="flex items-center justify-between">
           <div className="flex items-center space-x-4 text-sm text-slate-600">
-            {newsletter?.generatedAt && (
+            {!isGenerating && newsletter?.generatedAt && (
               <>
                 <span className="flex items-center">
                   <Clock className="w-4 h-4 mr-1" />
@@ -158,7 +296,17 @@ export default function NewsletterGenerator() {
               </>
             )}
           </div>
-          {newsletter?.content && (
+          {isGenerating ? (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={cancelGeneration}
+              className="text-red-600 hover:text-red-700"
+            >
+              <XCircle className="w-4 h-4 mr-1" />
+              Cancel
+            </Button>
+          ) : newsletter?.content && (
             <Button
               variant="ghost"
               size="sm"
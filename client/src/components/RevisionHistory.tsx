@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { History, RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/api";
+import { format } from "date-fns";
+import type { DiffSegment, Newsletter, NewsletterRevision } from "@shared/schema";
+
+const KIND_STYLES: Record<string, string> = {
+  generated: "bg-purple-100 text-purple-800",
+  edited: "bg-blue-100 text-blue-800",
+  regenerated: "bg-indigo-100 text-indigo-800",
+  approved: "bg-green-100 text-green-800",
+  restored: "bg-yellow-100 text-yellow-800",
+};
+
+const SEGMENT_STYLES: Record<DiffSegment["type"], string> = {
+  equal: "",
+  added: "bg-green-100 text-green-900",
+  removed: "bg-red-100 text-red-900 line-through",
+};
+
+interface RevisionHistoryProps {
+  newsletter: Newsletter;
+}
+
+export default function RevisionHistory({ newsletter }: RevisionHistoryProps) {
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+  const [baseId, setBaseId] = useState<number | null>(null);
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const revisionsUrl = `/api/newsletters/${newsletter.id}/revisions`;
+  const { data: revisionsData, isLoading } = useQuery<{ revisions: NewsletterRevision[] }>({
+    queryKey: [revisionsUrl],
+    staleTime: 0,
+  });
+
+  const revisions = revisionsData?.revisions || [];
+  // Newest first: by default show the latest change against the version before it
+  const selectedIndex = Math.max(0, revisions.findIndex(revision => revision.id === selectedId));
+  const selected = revisions[selectedIndex];
+  const base = revisions.find(revision => revision.id === baseId && revision.id !== selected?.id) || revisions[selectedIndex + 1];
+
+  const diffUrl = selected && base ? `${revisionsUrl}/diff?from=${base.id}&to=${selected.id}` : null;
+  const { data: diffData, isLoading: isDiffLoading } = useQuery<{ segments: DiffSegment[]; added: number; removed: number }>({
+    queryKey: [diffUrl],
+    enabled: !!diffUrl,
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async (revisionId: number) => {
+      const response = await apiRequest("POST", `${revisionsUrl}/${revisionId}/restore`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [revisionsUrl] });
+      queryClient.invalidateQueries({ queryKey: ["/api/newsletters"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      setSelectedId(data.revision.id);
+      setBaseId(null);
+      toast({
+        title: "Revision Restored",
+        description: `The newsletter now matches revision #${data.revision.restoredFromId}.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore Failed",
+        description: error instanceof Error ? error.message : "Failed to restore revision",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-slate-500">Loading history...</div>;
+  }
+
+  if (revisions.length === 0) {
+    return (
+      <div className="text-center py-8 text-slate-500">
+        <History className="w-12 h-12 mx-auto mb-4 text-slate-300" />
+        <p>No revisions recorded for this issue yet.</p>
+      </div>
+    );
+  }
+
+  const isCurrent = selected?.id === revisions[0].id;
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <ScrollArea className="h-[60vh] md:col-span-1 pr-2">
+        <ol className="relative border-l border-slate-200 ml-2 space-y-4">
+          {revisions.map((revision, index) => (
+            <li key={revision.id} className="ml-4">
+              <span className={`absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full border border-white ${revision.id === selected?.id ? "bg-primary" : "bg-slate-300"}`} />
+              <button
+                type="button"
+                onClick={() => {
+                  setSelectedId(revision.id);
+                  setBaseId(null);
+                }}
+                className={`w-full text-left rounded-md p-2 ${revision.id === selected?.id ? "bg-slate-100" : "hover:bg-slate-50"}`}
+              >
+                <div className="flex items-center space-x-2">
+                  <Badge className={KIND_STYLES[revision.kind] || ""}>{revision.kind}</Badge>
+                  {index === 0 && <span className="text-xs text-slate-500">current</span>}
+                </div>
+                <p className="text-sm text-slate-800 mt-1">{revision.author}</p>
+                <p className="text-xs text-slate-500">
+                  {format(new Date(revision.createdAt), "MMM d, h:mm a")} · {revision.wordCount || 0} words
+                </p>
+                {revision.restoredFromId && (
+                  <p className="text-xs text-slate-500">Restored from #{revision.restoredFromId}</p>
+                )}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </ScrollArea>
+
+      <div className="md:col-span-2 space-y-3">
+        <div className="flex items-end justify-between space-x-3">
+          <div className="flex-1">
+            <Label className="text-sm font-medium text-slate-700 mb-2 block">Compare against</Label>
+            <Select
+              value={base ? String(base.id) : ""}
+              onValueChange={(value) => setBaseId(Number(value))}
+              disabled={revisions.length < 2}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="No earlier revision" />
+              </SelectTrigger>
+              <SelectContent>
+                {revisions.filter(revision => revision.id !== selected?.id).map((revision) => (
+                  <SelectItem key={revision.id} value={String(revision.id)}>
+                    #{revision.id} {revision.kind} by {revision.author}, {format(new Date(revision.createdAt), "MMM d, h:mm a")}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => selected && restoreMutation.mutate(selected.id)}
+            disabled={!selected || isCurrent || newsletter.status === "published" || restoreMutation.isPending}
+          >
+            <RotateCcw className="w-4 h-4 mr-1" />
+            Restore this version
+          </Button>
+        </div>
+
+        {diffData && (
+          <p className="text-xs text-slate-500">
+            <span className="text-green-700">+{diffData.added} words</span> · <span className="text-red-700">-{diffData.removed} words</span>
+          </p>
+        )}
+
+        <ScrollArea className="h-[52vh] border border-slate-200 rounded-lg p-4 bg-slate-50">
+          <div className="prose prose-sm max-w-none whitespace-pre-wrap">
+            {!base ? (
+              selected?.content
+            ) : isDiffLoading || !diffData ? (
+              <span className="text-slate-500">Comparing...</span>
+            ) : (
+              diffData.segments.map((segment, index) => (
+                <span key={index} className={SEGMENT_STYLES[segment.type]}>{segment.text}</span>
+              ))
+            )}
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,103 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { RotateCcw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useNewsletter } from "@/hooks/useNewsletter";
+import { MAX_CUSTOM_PROMPT_LENGTH, type IssueSection, type Newsletter } from "@shared/schema";
+
+const ROLE_LABELS: Record<IssueSection["role"], string> = {
+  intro: "Introduction",
+  story: "Story",
+  conclusion: "Conclusion",
+};
+
+const sectionLabel = (section: IssueSection) =>
+  section.heading ? `${ROLE_LABELS[section.role]}: ${section.heading}` : ROLE_LABELS[section.role];
+
+interface SectionRegeneratorProps {
+  newsletter: Newsletter;
+  onDone?: () => void;
+}
+
+export default function SectionRegenerator({ newsletter, onDone }: SectionRegeneratorProps) {
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+  const [instructions, setInstructions] = useState("");
+  const { regenerateSection, isRegeneratingSection } = useNewsletter();
+
+  const { data, isLoading } = useQuery<{ sections: IssueSection[] }>({
+    queryKey: [`/api/newsletters/${newsletter.id}/sections`],
+    staleTime: 0,
+  });
+
+  const sections = data?.sections || [];
+  // Start on the intro, the section most often worth another try
+  const selected = sections.find(section => section.index === selectedIndex) || sections[0];
+
+  const handleRegenerate = async () => {
+    if (!selected) return;
+    try {
+      await regenerateSection(newsletter.id, selected.index, instructions.trim() || undefined);
+      setInstructions("");
+      onDone?.();
+    } catch {
+      // The hook reports the failure; keep the instructions so they can be retried
+    }
+  };
+
+  if (isLoading) {
+    return <div className="text-center py-8 text-slate-500">Loading sections...</div>;
+  }
+
+  if (!selected) {
+    return <div className="text-center py-8 text-slate-500">This issue has no sections to regenerate.</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <Label className="text-sm font-medium text-slate-700 mb-2 block">Section</Label>
+        <Select value={String(selected.index)} onValueChange={(value) => setSelectedIndex(Number(value))}>
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {sections.map((section) => (
+              <SelectItem key={section.index} value={String(section.index)}>
+                {sectionLabel(section)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <ScrollArea className="h-48 border border-slate-200 rounded-lg p-3 bg-slate-50">
+        <div className="prose prose-sm max-w-none whitespace-pre-wrap text-slate-700">{selected.text}</div>
+      </ScrollArea>
+
+      <div>
+        <Label htmlFor="section-instructions" className="text-sm font-medium text-slate-700 mb-2 block">
+          Instructions (optional)
+        </Label>
+        <Textarea
+          id="section-instructions"
+          value={instructions}
+          onChange={(e) => setInstructions(e.target.value)}
+          placeholder="e.g. Make it punchier and mention why this matters for developers"
+          maxLength={MAX_CUSTOM_PROMPT_LENGTH}
+          rows={2}
+        />
+      </div>
+
+      <div className="flex justify-end">
+        <Button onClick={handleRegenerate} disabled={isRegeneratingSection || newsletter.status === "published"}>
+          <RotateCcw className={`w-4 h-4 mr-1 ${isRegeneratingSection ? "animate-spin" : ""}`} />
+          {isRegeneratingSection ? "Regenerating..." : "Regenerate Section"}
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -1,8 +1,9 @@
 import { useState, useEffect } from "react";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { X, Eye, EyeOff, TestTube } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
 import { Label } from "@/components/ui/label";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
@@ -13,6 +14,7 @@ import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { useSettings } from "@/hooks/useSettings";
 import { apiRequest } from "@/lib/api";
+import type { NewsletterTemplate } from "@shared/schema";
 
 interface SettingsModalProps {
   isOpen: boolean;
@@ -23,6 +25,11 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const { settings, updateSettings } = useSettings();
+
+  const { data: templatesData } = useQuery<{ templates: NewsletterTemplate[] }>({
+    queryKey: ["/api/newsletter-templates"],
+  });
+  const templates = templatesData?.templates || [];
   
   const [showClaudeKey, setShowClaudeKey] = useState(false);
   const [showBeehiivKey, setShowBeehiivKey] = useState(false);
@@ -49,6 +56,21 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
     dailyScheduleTime: '09:00',
     autoSelectArticles: false,
     maxDailyArticles: 5,
+    fullTextEnabled: false,
+    fullTextMaxChars: 20000,
+    fullTextAllowedDomains: '',
+    fullTextBlockedDomains: '',
+    relevanceKeywords: '',
+    claudeScoringEnabled: false,
+    defaultTemplateId: '',
+    structuredOutput: false,
+    verificationBlocksPublish: false,
+    verificationMaxFlags: 3,
+    emailLayout: 'branded',
+    emailLogoUrl: '',
+    emailAccentColor: '#2563eb',
+    emailFooterText: '',
+    emailUnsubscribeUrl: '{{unsubscribe_url}}',
   });
 
   // Load settings into form when modal opens
@@ -71,12 +93,38 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
         dailyScheduleTime: settings.dailyScheduleTime || '09:00',
         autoSelectArticles: settings.autoSelectArticles || false,
         maxDailyArticles: settings.maxDailyArticles || 5,
+        fullTextEnabled: settings.fullTextEnabled || false,
+        fullTextMaxChars: settings.fullTextMaxChars || 20000,
+        fullTextAllowedDomains: (settings.fullTextAllowedDomains || []).join(', '),
+        fullTextBlockedDomains: (settings.fullTextBlockedDomains || []).join(', '),
+        relevanceKeywords: (settings.relevanceKeywords || []).join(', '),
+        claudeScoringEnabled: settings.claudeScoringEnabled || false,
+        defaultTemplateId: settings.defaultTemplateId ? String(settings.defaultTemplateId) : '',
+        structuredOutput: settings.structuredOutput || false,
+        verificationBlocksPublish: settings.verificationBlocksPublish || false,
+        verificationMaxFlags: settings.verificationMaxFlags ?? 3,
+        emailLayout: settings.emailLayout || 'branded',
+        emailLogoUrl: settings.emailLogoUrl || '',
+        emailAccentColor: settings.emailAccentColor || '#2563eb',
+        emailFooterText: settings.emailFooterText || '',
+        emailUnsubscribeUrl: settings.emailUnsubscribeUrl || '{{unsubscribe_url}}',
       });
     }
   }, [isOpen, settings]);
 
+  const parseList = (value: string) =>
+    value.split(',').map(item => item.trim()).filter(item => item.length > 0);
+
   const handleSave = () => {
-    updateSettings(formData);
+    updateSettings({
+      ...formData,
+      fullTextAllowedDomains: parseList(formData.fullTextAllowedDomains),
+      fullTextBlockedDomains: parseList(formData.fullTextBlockedDomains),
+      relevanceKeywords: parseList(formData.relevanceKeywords),
+      defaultTemplateId: formData.defaultTemplateId ? parseInt(formData.defaultTemplateId) : null,
+      emailLogoUrl: formData.emailLogoUrl.trim() || null,
+      emailFooterText: formData.emailFooterText.trim() || null,
+    });
     onClose();
   };
 
@@ -353,6 +401,115 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
               />
               <p className="text-xs text-slate-500 mt-1">Default RSS/JSON feed URL for fetching news</p>
             </div>
+
+            <div>
+              <Label htmlFor="default-template" className="text-sm font-medium text-slate-700 mb-2 block">
+                Default Template
+              </Label>
+              <Select
+                value={formData.defaultTemplateId}
+                onValueChange={(value) => setFormData({ ...formData, defaultTemplateId: value })}
+              >
+                <SelectTrigger id="default-template">
+                  <SelectValue placeholder={templates[0]?.name || "Select template"} />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map((template) => (
+                    <SelectItem key={template.id} value={String(template.id)}>
+                      {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-500 mt-1">Used for scheduled issues and whenever no template is picked</p>
+            </div>
+
+            <div>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  checked={formData.structuredOutput}
+                  onCheckedChange={(checked) => setFormData({ ...formData, structuredOutput: checked })}
+                />
+                <Label>Generate structured issues with source citations</Label>
+              </div>
+              <p className="text-xs text-slate-500 mt-1">Every item links back to the articles it was written from; uncited items are dropped</p>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    checked={formData.verificationBlocksPublish}
+                    onCheckedChange={(checked) => setFormData({ ...formData, verificationBlocksPublish: checked })}
+                  />
+                  <Label>Block auto-publish when the fact check fails</Label>
+                </div>
+                <p className="text-xs text-slate-500 mt-1">Approved issues with too many unsupported claims or unknown links wait for a manual publish</p>
+              </div>
+
+              <div>
+                <Label htmlFor="verification-max-flags" className="text-sm font-medium text-slate-700 mb-2 block">
+                  Allowed Fact-Check Flags
+                </Label>
+                <Input
+                  id="verification-max-flags"
+                  type="number"
+                  value={formData.verificationMaxFlags}
+                  onChange={(e) => setFormData({ ...formData, verificationMaxFlags: Math.max(0, parseInt(e.target.value) || 0) })}
+                  min={0}
+                  disabled={!formData.verificationBlocksPublish}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                checked={formData.fullTextEnabled}
+                onCheckedChange={(checked) => setFormData({ ...formData, fullTextEnabled: checked })}
+              />
+              <Label>Extract full article text from source pages</Label>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+              <div>
+                <Label htmlFor="full-text-max-chars" className="text-sm font-medium text-slate-700 mb-2 block">
+                  Max Characters
+                </Label>
+                <Input
+                  id="full-text-max-chars"
+                  type="number"
+                  value={formData.fullTextMaxChars}
+                  onChange={(e) => setFormData({ ...formData, fullTextMaxChars: parseInt(e.target.value) || 20000 })}
+                  min={1000}
+                  step={1000}
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="full-text-allowed-domains" className="text-sm font-medium text-slate-700 mb-2 block">
+                  Allowed Domains
+                </Label>
+                <Input
+                  id="full-text-allowed-domains"
+                  value={formData.fullTextAllowedDomains}
+                  onChange={(e) => setFormData({ ...formData, fullTextAllowedDomains: e.target.value })}
+                  placeholder="All domains"
+                />
+              </div>
+
+              <div>
+                <Label htmlFor="full-text-blocked-domains" className="text-sm font-medium text-slate-700 mb-2 block">
+                  Blocked Domains
+                </Label>
+                <Input
+                  id="full-text-blocked-domains"
+                  value={formData.fullTextBlockedDomains}
+                  onChange={(e) => setFormData({ ...formData, fullTextBlockedDomains: e.target.value })}
+                  placeholder="paywalled.com, example.org"
+                />
+              </div>
+            </div>
+            <p className="text-xs text-slate-500">Comma-separated domain lists. Blocked domains take precedence; an empty allow list permits every other domain.</p>
           </TabsContent>
 
           <TabsContent value="email" className="space-y-6">
@@ -415,6 +572,92 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
               />
               <Label>Require email approval before publishing newsletters</Label>
             </div>
+
+            <div className="border-t border-slate-200 pt-6 space-y-6">
+              <div>
+                <h3 className="text-sm font-semibold text-slate-900">Issue Email Template</h3>
+                <p className="text-xs text-slate-500 mt-1">Used for every issue sent out, to Beehiiv and in approval emails</p>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <div>
+                  <Label htmlFor="email-layout" className="text-sm font-medium text-slate-700 mb-2 block">
+                    Layout
+                  </Label>
+                  <Select
+                    value={formData.emailLayout}
+                    onValueChange={(value) => setFormData({ ...formData, emailLayout: value })}
+                  >
+                    <SelectTrigger id="email-layout">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="branded">Branded: colored header band</SelectItem>
+                      <SelectItem value="minimal">Minimal: white header with an accent rule</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <Label htmlFor="email-accent-color" className="text-sm font-medium text-slate-700 mb-2 block">
+                    Accent Color
+                  </Label>
+                  <div className="flex items-center space-x-2">
+                    <Input
+                      id="email-accent-color"
+                      type="color"
+                      value={formData.emailAccentColor}
+                      onChange={(e) => setFormData({ ...formData, emailAccentColor: e.target.value })}
+                      className="w-14 p-1"
+                    />
+                    <Input
+                      value={formData.emailAccentColor}
+                      onChange={(e) => setFormData({ ...formData, emailAccentColor: e.target.value })}
+                      placeholder="#2563eb"
+                    />
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="email-logo-url" className="text-sm font-medium text-slate-700 mb-2 block">
+                    Logo URL
+                  </Label>
+                  <Input
+                    id="email-logo-url"
+                    value={formData.emailLogoUrl}
+                    onChange={(e) => setFormData({ ...formData, emailLogoUrl: e.target.value })}
+                    placeholder="https://example.com/logo.png"
+                  />
+                  <p className="text-xs text-slate-500 mt-1">Shown in the header instead of the newsletter title</p>
+                </div>
+
+                <div>
+                  <Label htmlFor="email-unsubscribe-url" className="text-sm font-medium text-slate-700 mb-2 block">
+                    Unsubscribe Link
+                  </Label>
+                  <Input
+                    id="email-unsubscribe-url"
+                    value={formData.emailUnsubscribeUrl}
+                    onChange={(e) => setFormData({ ...formData, emailUnsubscribeUrl: e.target.value })}
+                    placeholder="{{unsubscribe_url}}"
+                  />
+                  <p className="text-xs text-slate-500 mt-1">A URL or your sending platform's merge tag</p>
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="email-footer-text" className="text-sm font-medium text-slate-700 mb-2 block">
+                  Footer Text
+                </Label>
+                <Textarea
+                  id="email-footer-text"
+                  value={formData.emailFooterText}
+                  onChange={(e) => setFormData({ ...formData, emailFooterText: e.target.value })}
+                  placeholder={`You're receiving this because you subscribed to ${formData.newsletterTitle || 'AI Weekly'}.`}
+                  rows={2}
+                />
+              </div>
+            </div>
           </TabsContent>
 
           <TabsContent value="scheduling" className="space-y-6">
@@ -465,6 +708,29 @@ export default function SettingsModal({ isOpen, onClose }: SettingsModalProps) {
                 <Label>Automatically select articles for daily newsletters</Label>
               </div>
             </div>
+
+            <div className="space-y-4 border-t border-slate-200 pt-6">
+              <div>
+                <Label htmlFor="relevance-keywords" className="text-sm font-medium text-slate-700 mb-2 block">
+                  Relevance Keywords
+                </Label>
+                <Input
+                  id="relevance-keywords"
+                  value={formData.relevanceKeywords}
+                  onChange={(e) => setFormData({ ...formData, relevanceKeywords: e.target.value })}
+                  placeholder="LLM, agents, open source, regulation"
+                />
+                <p className="text-xs text-slate-500 mt-1">Comma-separated topics that raise an article's relevance score</p>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  checked={formData.claudeScoringEnabled}
+                  onCheckedChange={(checked) => setFormData({ ...formData, claudeScoringEnabled: checked })}
+                />
+                <Label>Ask Claude to rate relevance when ranking articles for daily newsletters</Label>
+              </div>
+            </div>
           </TabsContent>
         </Tabs>
 
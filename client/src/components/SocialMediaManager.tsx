@@ -49,6 +49,15 @@ export default function SocialMediaManager() {
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/social-media-posts"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+      // Without posts the first attempt failed and the job queue will retry it
+      if (!data.posts) {
+        toast({
+          title: "Generation Queued",
+          description: `${data.message}. Track it under Jobs.`,
+        });
+        return;
+      }
       toast({
         title: "Social Media Posts Generated",
         description: `Created ${data.posts.length} posts scheduled at random times`,
@@ -0,0 +1,100 @@
+import { useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ShieldCheck, ShieldAlert, ChevronDown, ChevronUp, RefreshCw } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/hooks/use-toast";
+import { useSettings } from "@/hooks/useSettings";
+import { apiRequest } from "@/lib/api";
+import type { Newsletter } from "@shared/schema";
+
+interface VerificationReportPanelProps {
+  newsletter: Newsletter;
+}
+
+export default function VerificationReportPanel({ newsletter }: VerificationReportPanelProps) {
+  const [expanded, setExpanded] = useState(false);
+  const { toast } = useToast();
+  const { settings } = useSettings();
+  const queryClient = useQueryClient();
+
+  const report = newsletter.verificationReport;
+  const maxFlags = settings?.verificationMaxFlags ?? 0;
+  const blocksPublish = !!settings?.verificationBlocksPublish && !!report && report.flagCount > maxFlags;
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/newsletters/${newsletter.id}/verify`);
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/newsletters"] });
+      toast({
+        title: "Fact Check Complete",
+        description: data.verificationReport.flagCount === 0
+          ? "Everything checked was found in the source articles."
+          : `${data.verificationReport.flagCount} item(s) need review.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Fact Check Failed",
+        description: error instanceof Error ? error.message : "Failed to verify newsletter",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className={`border rounded-lg p-3 text-sm ${report && report.flagCount > 0 ? "border-amber-300 bg-amber-50" : "border-slate-200"}`}>
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          {!report ? (
+            <>
+              <ShieldAlert className="w-4 h-4 text-slate-400" />
+              <span className="text-slate-600">Not fact-checked yet</span>
+            </>
+          ) : report.flagCount === 0 ? (
+            <>
+              <ShieldCheck className="w-4 h-4 text-green-600" />
+              <span className="text-slate-700">Fact check passed: {report.claimCount} claims traced to sources</span>
+            </>
+          ) : (
+            <>
+              <ShieldAlert className="w-4 h-4 text-amber-600" />
+              <span className="text-slate-700">Fact check: {report.flagCount} item(s) to review</span>
+              {blocksPublish && <Badge className="bg-red-100 text-red-800">Auto-publish blocked</Badge>}
+            </>
+          )}
+        </div>
+        <div className="flex items-center space-x-1">
+          <Button variant="ghost" size="sm" onClick={() => verifyMutation.mutate()} disabled={verifyMutation.isPending}>
+            <RefreshCw className={`w-4 h-4 ${verifyMutation.isPending ? "animate-spin" : ""}`} />
+          </Button>
+          {report && report.flagCount > 0 && (
+            <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+              {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {expanded && report && (
+        <ul className="mt-3 space-y-2">
+          {report.flaggedClaims.map((claim, index) => (
+            <li key={`claim-${index}`} className="text-slate-700">
+              <p>{claim.text}</p>
+              <p className="text-xs text-amber-700">Not in sources: {claim.unsupported.join(", ")}</p>
+            </li>
+          ))}
+          {report.unknownUrls.map((url) => (
+            <li key={url} className="text-slate-700">
+              <p className="break-all">{url}</p>
+              <p className="text-xs text-amber-700">Link isn't one of this issue's articles</p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
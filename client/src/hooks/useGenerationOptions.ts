@@ -0,0 +1,63 @@
+import { useSyncExternalStore } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { useSettings } from "@/hooks/useSettings";
+import { format } from "date-fns";
+import type { NewsletterTemplate } from "@shared/schema";
+import type { GenerateNewsletterParams } from "@/hooks/useNewsletter";
+
+interface GenerationOptions {
+  date: string;
+  templateId: string; // empty until a template is picked, meaning the default from Settings
+  instructions: string;
+  structured: boolean | null; // null until switched, meaning the default from Settings
+}
+
+// Kept outside React so the options picked in the preview card also apply to Generate in the controls panel
+let options: GenerationOptions = { date: format(new Date(), "yyyy-MM-dd"), templateId: "", instructions: "", structured: null };
+const optionListeners = new Set<() => void>();
+
+function setOptions(update: Partial<GenerationOptions>) {
+  options = { ...options, ...update };
+  optionListeners.forEach(listener => listener());
+}
+
+function subscribeToOptions(listener: () => void) {
+  optionListeners.add(listener);
+  return () => {
+    optionListeners.delete(listener);
+  };
+}
+
+export function useGenerationOptions() {
+  const current = useSyncExternalStore(subscribeToOptions, () => options);
+  const { settings } = useSettings();
+
+  const { data: templatesData } = useQuery<{ templates: NewsletterTemplate[] }>({
+    queryKey: ["/api/newsletter-templates"],
+  });
+
+  const templates: NewsletterTemplate[] = templatesData?.templates || [];
+  const defaultTemplate = templates.find(template => template.id === settings?.defaultTemplateId) || templates[0];
+  const templateValue = current.templateId || (defaultTemplate ? String(defaultTemplate.id) : "");
+  const structuredValue = current.structured ?? settings?.structuredOutput ?? false;
+
+  return {
+    templates,
+    date: current.date,
+    setDate: (date: string) => setOptions({ date }),
+    templateValue,
+    setTemplate: (templateId: string) => setOptions({ templateId }),
+    instructions: current.instructions,
+    setInstructions: (instructions: string) => setOptions({ instructions }),
+    structuredValue,
+    setStructured: (structured: boolean) => setOptions({ structured }),
+    // What every generate action sends
+    generationParams: (issueNumber: number): GenerateNewsletterParams => ({
+      issueNumber,
+      date: current.date,
+      templateId: templateValue ? Number(templateValue) : undefined,
+      customPrompt: current.instructions.trim() || undefined,
+      structured: structuredValue,
+    }),
+  };
+}
@@ -1,12 +1,37 @@
+import { useSyncExternalStore } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/api";
-import type { Newsletter } from "@shared/schema";
+import { apiRequest, streamRequest } from "@/lib/api";
+import type { Newsletter, NewsletterEdit } from "@shared/schema";
 
-interface GenerateNewsletterParams {
+export interface GenerateNewsletterParams {
   issueNumber: number;
   date: string;
   customPrompt?: string;
+  templateId?: number;
+  structured?: boolean;
+}
+
+interface GenerationState {
+  active: boolean;
+  html: string; // the issue so far, rendered and sanitized on the server like the finished one
+}
+
+// Kept outside React so every component using the hook sees the same in-flight generation
+let generation: GenerationState = { active: false, html: "" };
+let generationController: AbortController | null = null;
+const generationListeners = new Set<() => void>();
+
+function setGeneration(next: GenerationState) {
+  generation = next;
+  generationListeners.forEach(listener => listener());
+}
+
+function subscribeToGeneration(listener: () => void) {
+  generationListeners.add(listener);
+  return () => {
+    generationListeners.delete(listener);
+  };
 }
 
 export function useNewsletter() {
@@ -21,41 +46,135 @@ export function useNewsletter() {
   const newsletters: Newsletter[] = newslettersData?.newsletters || [];
   const newsletter: Newsletter | undefined = newsletters[0]; // Latest newsletter
 
-  const generateMutation = useMutation({
-    mutationFn: async (params: GenerateNewsletterParams) => {
-      const response = await apiRequest("POST", "/api/newsletter/generate", params);
+  const currentGeneration = useSyncExternalStore(subscribeToGeneration, () => generation);
+
+  const generateNewsletter = async (params: GenerateNewsletterParams) => {
+    if (generationController) return;
+
+    const controller = new AbortController();
+    generationController = controller;
+    setGeneration({ active: true, html: "" });
+
+    try {
+      let generated: Newsletter | undefined;
+      let queued: string | undefined; // set when the first attempt failed and the job queue will try again
+      await streamRequest("/api/newsletter/generate", params, (event, data) => {
+        if (event === "delta" || event === "snapshot") {
+          setGeneration({ active: true, html: data.html });
+        } else if (event === "done") {
+          generated = data.newsletter;
+        } else if (event === "queued") {
+          queued = data.error ? `${data.message}: ${data.error}` : data.message;
+        } else if (event === "error") {
+          throw new Error(data.error || data.message);
+        }
+      }, controller.signal);
+
+      if (queued) {
+        toast({
+          title: "Generation Queued",
+          description: queued,
+        });
+        return;
+      }
+      if (!generated) {
+        throw new Error("The connection closed before the newsletter was finished");
+      }
+      toast({
+        title: "Newsletter Generated!",
+        description: `Successfully generated newsletter with ${generated.wordCount} words.`,
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast({
+          title: "Generation Cancelled",
+          description: "The newsletter was not saved.",
+        });
+      } else {
+        toast({
+          title: "Generation Failed",
+          description: error instanceof Error ? error.message : "Failed to generate newsletter",
+          variant: "destructive",
+        });
+      }
+    } finally {
+      generationController = null;
+      setGeneration({ active: false, html: "" });
+      // A failed generation may still have saved a partial draft
+      queryClient.invalidateQueries({ queryKey: ["/api/newsletters"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/jobs"] });
+    }
+  };
+
+  const regenerateNewsletter = (params: GenerateNewsletterParams) => {
+    generateNewsletter(params);
+  };
+
+  const cancelGeneration = () => {
+    generationController?.abort();
+  };
+
+  const saveEditMutation = useMutation({
+    mutationFn: async ({ id, edit }: { id: number; edit: NewsletterEdit }) => {
+      const response = await apiRequest("PATCH", `/api/newsletters/${id}`, edit);
       return response.json();
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: ["/api/newsletters"] });
       queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
       toast({
-        title: "Newsletter Generated!",
-        description: `Successfully generated newsletter with ${data.newsletter.wordCount} words.`,
+        title: "Changes Saved",
+        description: `Newsletter updated to ${data.newsletter.wordCount} words.`,
       });
     },
     onError: (error) => {
       toast({
-        title: "Generation Failed",
-        description: error instanceof Error ? error.message : "Failed to generate newsletter",
+        title: "Save Failed",
+        description: error instanceof Error ? error.message : "Failed to save newsletter",
         variant: "destructive",
       });
     },
   });
 
-  const generateNewsletter = (params: GenerateNewsletterParams) => {
-    generateMutation.mutate(params);
-  };
-
-  const regenerateNewsletter = (params: GenerateNewsletterParams) => {
-    generateMutation.mutate(params);
-  };
+  const regenerateSectionMutation = useMutation({
+    mutationFn: async ({ id, index, instructions }: { id: number; index: number; instructions?: string }) => {
+      const response = await apiRequest("POST", `/api/newsletters/${id}/sections/${index}/regenerate`, { instructions });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/newsletters"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/newsletters/${data.newsletter.id}/sections`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/activity-logs"] });
+      toast({
+        title: "Section Regenerated",
+        description: data.section?.heading
+          ? `"${data.section.heading}" was rewritten and saved as a new revision.`
+          : `The ${data.section?.role || "section"} was rewritten and saved as a new revision.`,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Regeneration Failed",
+        description: error instanceof Error ? error.message : "Failed to regenerate section",
+        variant: "destructive",
+      });
+    },
+  });
 
   return {
     newsletter,
     newsletters,
     generateNewsletter,
     regenerateNewsletter,
-    isGenerating: generateMutation.isPending,
+    isGenerating: currentGeneration.active,
+    streamingHtml: currentGeneration.html,
+    cancelGeneration,
+    saveNewsletterEdit: (id: number, edit: NewsletterEdit) => saveEditMutation.mutateAsync({ id, edit }),
+    isSaving: saveEditMutation.isPending,
+    // Rewrites one section in place; the rest of the issue is left as it is
+    regenerateSection: (id: number, index: number, instructions?: string) =>
+      regenerateSectionMutation.mutateAsync({ id, index, instructions }),
+    isRegeneratingSection: regenerateSectionMutation.isPending,
   };
 }
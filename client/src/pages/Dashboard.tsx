@@ -10,7 +10,9 @@ import SettingsModal from "@/components/SettingsModal";
 import ScheduleManager from "@/components/ScheduleManager";
 import SocialMediaManager from "@/components/SocialMediaManager";
 import FeedSourceManager from "@/components/FeedSourceManager";
+import FilterRuleManager from "@/components/FilterRuleManager";
 import DataManager from "@/components/DataManager";
+import JobQueuePanel from "@/components/JobQueuePanel";
 
 export default function Dashboard() {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -74,13 +76,14 @@ export default function Dashboard() {
       {/* Main Dashboard */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-7">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="generator">Generator</TabsTrigger>
             <TabsTrigger value="schedule">Schedule</TabsTrigger>
             <TabsTrigger value="social">Social Media</TabsTrigger>
             <TabsTrigger value="articles">Articles</TabsTrigger>
             <TabsTrigger value="feeds">Feed Sources</TabsTrigger>
+            <TabsTrigger value="jobs">Jobs</TabsTrigger>
             <TabsTrigger value="data">Data Manager</TabsTrigger>
           </TabsList>
 
@@ -122,6 +125,11 @@ export default function Dashboard() {
 
           <TabsContent value="feeds" className="space-y-6">
             <FeedSourceManager />
+            <FilterRuleManager />
+          </TabsContent>
+
+          <TabsContent value="jobs" className="space-y-6">
+            <JobQueuePanel />
           </TabsContent>
 
           <TabsContent value="data" className="space-y-6">
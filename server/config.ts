@@ -38,6 +38,12 @@ export interface AppConfig {
     defaultSource: string;
     autoRefresh: boolean;
     refreshInterval: number;
+    maxFeedFailures: number;
+  };
+  jobs: {
+    pollInterval: number;
+    maxAttempts: number;
+    retryBaseDelay: number; // first retry waits this long, doubling after each failure
   };
   scheduling: {
     enabled: boolean;
@@ -96,7 +102,13 @@ class ConfigManager {
         title: process.env.NEWSLETTER_TITLE || 'AI Weekly Newsletter',
         defaultSource: process.env.DEFAULT_NEWS_SOURCE || 'https://www.inoreader.com/stream/user/1003985272/tag/AI/view/json',
         autoRefresh: process.env.AUTO_REFRESH_NEWS !== 'false',
-        refreshInterval: parseInt(process.env.REFRESH_INTERVAL || '300000')
+        refreshInterval: parseInt(process.env.REFRESH_INTERVAL || '300000'),
+        maxFeedFailures: parseInt(process.env.MAX_FEED_FAILURES || '5')
+      },
+      jobs: {
+        pollInterval: parseInt(process.env.JOB_POLL_INTERVAL || '10000'),
+        maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '5'),
+        retryBaseDelay: parseInt(process.env.JOB_RETRY_BASE_DELAY || '30000')
       },
       scheduling: {
         enabled: process.env.ENABLE_SCHEDULING !== 'false',
@@ -170,6 +182,10 @@ class ConfigManager {
     return this.config.newsletter;
   }
 
+  get jobs() {
+    return this.config.jobs;
+  }
+
   get scheduling() {
     return this.config.scheduling;
   }
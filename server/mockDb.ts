@@ -1,30 +1,45 @@
 import type { 
-  User, Article, Newsletter, Settings, ActivityLog, Schedule, 
-  SocialMediaPost, FeedSource, DataBackup,
+  User, Article, Newsletter, NewsletterArticle, Settings, ActivityLog, Schedule, 
+  SocialMediaPost, FeedSource, FilterRule, FilteredArticle, DataBackup, NewsletterTemplate, Job, NewsletterRevision,
   InsertUser, InsertArticle, InsertNewsletter, InsertSettings, 
   InsertActivityLog, InsertSchedule, InsertSocialMediaPost, 
-  InsertFeedSource, InsertDataBackup 
+  InsertFeedSource, InsertFilterRule, InsertFilteredArticle, InsertDataBackup, InsertNewsletterTemplate,
+  InsertJob, InsertNewsletterRevision
 } from '@shared/schema';
+import { RECENCY_WEIGHT, RECENCY_HALF_LIFE_HOURS } from '@shared/schema';
+import type { ArticleQuery, ArticlePage } from './storage';
 
 export class MockDatabase {
   private users: Map<number, User> = new Map();
   private articles: Map<number, Article> = new Map();
   private newsletters: Map<number, Newsletter> = new Map();
+  private newsletterArticles: Map<number, NewsletterArticle> = new Map();
+  private newsletterRevisions: Map<number, NewsletterRevision> = new Map();
   private settings: Settings | undefined = undefined;
   private activityLogs: Map<number, ActivityLog> = new Map();
   private schedules: Map<number, Schedule> = new Map();
   private socialMediaPosts: Map<number, SocialMediaPost> = new Map();
   private feedSources: Map<number, FeedSource> = new Map();
+  private filterRules: Map<number, FilterRule> = new Map();
+  private filteredArticles: Map<number, FilteredArticle> = new Map();
+  private newsletterTemplates: Map<number, NewsletterTemplate> = new Map();
   private dataBackups: Map<number, DataBackup> = new Map();
+  private jobs: Map<number, Job> = new Map();
   
   private currentId = 1;
   private articleId = 1;
   private newsletterId = 1;
+  private newsletterArticleId = 1;
+  private newsletterRevisionId = 1;
   private logId = 1;
   private scheduleId = 1;
   private socialMediaPostId = 1;
   private feedSourceId = 1;
+  private filterRuleId = 1;
+  private filteredArticleId = 1;
+  private newsletterTemplateId = 1;
   private backupId = 1;
+  private jobId = 1;
 
   constructor() {
     console.log('📦 Using Mock Database for testing');
@@ -53,6 +68,21 @@ export class MockDatabase {
       approvalEmail: null,
       enableSocialMedia: true,
       autoPostSocial: false,
+      fullTextEnabled: false,
+      fullTextMaxChars: 20000,
+      fullTextAllowedDomains: [],
+      fullTextBlockedDomains: [],
+      relevanceKeywords: [],
+      claudeScoringEnabled: false,
+      defaultTemplateId: null,
+      structuredOutput: false,
+      verificationBlocksPublish: false,
+      verificationMaxFlags: 3,
+      emailLayout: 'branded',
+      emailLogoUrl: null,
+      emailAccentColor: '#2563eb',
+      emailFooterText: null,
+      emailUnsubscribeUrl: '{{unsubscribe_url}}',
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -88,6 +118,11 @@ export class MockDatabase {
         articleCount: 0,
         errorCount: 0,
         lastError: null,
+        sourceType: 'feed',
+        scrapeConfig: null,
+        weight: 50,
+        etag: null,
+        lastModified: null,
         createdAt: new Date(),
         updatedAt: new Date()
       });
@@ -126,6 +161,16 @@ export class MockDatabase {
       this.articles.set(id, {
         id,
         ...article,
+        fullContent: null,
+        author: null,
+        categories: [],
+        imageUrl: null,
+        relevanceScore: null,
+        scoreBreakdown: null,
+        status: 'inbox',
+        canonicalUrl: article.url,
+        contributingSources: [article.source],
+        feedSourceId: null,
         fetchedAt: new Date()
       });
     });
@@ -168,22 +213,50 @@ export class MockDatabase {
     );
   }
 
+  async getArticle(id: number): Promise<Article | undefined> {
+    return this.articles.get(id);
+  }
+
+  async getArticleByCanonicalUrl(canonicalUrl: string): Promise<Article | undefined> {
+    return Array.from(this.articles.values()).find(article => article.canonicalUrl === canonicalUrl);
+  }
+
   async createArticle(insertArticle: InsertArticle): Promise<Article> {
     const id = this.articleId++;
     const article: Article = { 
       id,
       title: insertArticle.title,
       content: insertArticle.content || null,
+      fullContent: insertArticle.fullContent || null,
       source: insertArticle.source,
+      author: insertArticle.author || null,
+      categories: insertArticle.categories || [],
+      imageUrl: insertArticle.imageUrl || null,
+      relevanceScore: null,
+      scoreBreakdown: null,
       url: insertArticle.url,
+      canonicalUrl: insertArticle.canonicalUrl || null,
+      contributingSources: insertArticle.contributingSources || [insertArticle.source],
       publishedDate: insertArticle.publishedDate || new Date(),
       selected: insertArticle.selected || false,
+      status: insertArticle.status || 'inbox',
+      feedSourceId: insertArticle.feedSourceId || null,
       fetchedAt: new Date()
     };
     this.articles.set(id, article);
     return article;
   }
 
+  async updateArticle(id: number, updates: Partial<Article>): Promise<Article | undefined> {
+    const article = this.articles.get(id);
+    if (article) {
+      const updated = { ...article, ...updates };
+      this.articles.set(id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
   async updateArticleSelection(id: number, selected: boolean): Promise<Article | undefined> {
     const article = this.articles.get(id);
     if (article) {
@@ -196,9 +269,76 @@ export class MockDatabase {
 
   async clearArticles(): Promise<void> {
     this.articles.clear();
+    this.newsletterArticles.clear();
     this.articleId = 1;
   }
 
+  async queryArticles(query: ArticleQuery): Promise<ArticlePage> {
+    const matching = (await this.getArticles()).filter(article => {
+      const published = new Date(article.publishedDate);
+      if (query.status && article.status !== query.status) return false;
+      if (query.from && published < query.from) return false;
+      if (query.to && published > query.to) return false;
+      if (query.selected !== undefined && !!article.selected !== query.selected) return false;
+      return true;
+    });
+
+    // getArticles is already newest first, and the sort is stable
+    if (query.sort === 'score') {
+      const now = Date.now();
+      matching.sort((a, b) => this.rankedScore(b, now) - this.rankedScore(a, now));
+    }
+
+    const offset = query.offset || 0;
+    const end = query.limit !== undefined ? offset + query.limit : undefined;
+    return { articles: matching.slice(offset, end), total: matching.length };
+  }
+
+  // Stored scores leave out recency; it is blended in here as in DatabaseStorage.queryArticles
+  private rankedScore(article: Article, now: number): number {
+    if (article.relevanceScore === null) return -1;
+    const ageHours = Math.max(0, (now - new Date(article.publishedDate).getTime()) / (60 * 60 * 1000));
+    return article.relevanceScore * (1 - RECENCY_WEIGHT) + 100 * RECENCY_WEIGHT * Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+  }
+
+  async getSelectedArticles(): Promise<Article[]> {
+    return Array.from(this.articles.values())
+      .filter(article => article.selected && article.status !== 'archived');
+  }
+
+  // Newsletter article methods
+  async linkNewsletterArticles(newsletterId: number, articleIds: number[]): Promise<void> {
+    for (const articleId of articleIds) {
+      const id = this.newsletterArticleId++;
+      this.newsletterArticles.set(id, { id, newsletterId, articleId, createdAt: new Date() });
+    }
+  }
+
+  async getNewsletterArticles(newsletterId: number): Promise<Article[]> {
+    return Array.from(this.newsletterArticles.values())
+      .filter(link => link.newsletterId === newsletterId)
+      .map(link => this.articles.get(link.articleId))
+      .filter((article): article is Article => !!article);
+  }
+
+  async getArticleNewsletters(articleId: number): Promise<Newsletter[]> {
+    return Array.from(this.newsletterArticles.values())
+      .filter(link => link.articleId === articleId)
+      .map(link => this.newsletters.get(link.newsletterId))
+      .filter((newsletter): newsletter is Newsletter => !!newsletter)
+      .sort((a, b) => b.issueNumber - a.issueNumber);
+  }
+
+  async getUsedArticleIds(): Promise<number[]> {
+    const ids = new Set<number>();
+    this.newsletterArticles.forEach(link => {
+      if (this.newsletters.get(link.newsletterId)?.status === 'published') {
+        ids.add(link.articleId);
+      }
+    });
+    return Array.from(ids);
+  }
+
   // Newsletter methods
   async getNewsletters(): Promise<Newsletter[]> {
     return Array.from(this.newsletters.values()).sort((a, b) => 
@@ -236,6 +376,10 @@ export class MockDatabase {
       approvedAt: insertNewsletter.approvedAt || null,
       publishedAt: insertNewsletter.publishedAt || null,
       beehiivPostId: insertNewsletter.beehiivPostId || null,
+      templateId: insertNewsletter.templateId ?? null,
+      customPrompt: insertNewsletter.customPrompt || null,
+      structuredContent: insertNewsletter.structuredContent || null,
+      verificationReport: insertNewsletter.verificationReport || null,
       createdAt: new Date(),
       updatedAt: new Date()
     };
@@ -259,6 +403,31 @@ export class MockDatabase {
     return Math.max(...newsletters.map(n => n.issueNumber)) + 1;
   }
 
+  // Newsletter revision methods
+  async getNewsletterRevisions(newsletterId: number): Promise<NewsletterRevision[]> {
+    return Array.from(this.newsletterRevisions.values())
+      .filter(revision => revision.newsletterId === newsletterId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+
+  async createNewsletterRevision(insertRevision: InsertNewsletterRevision): Promise<NewsletterRevision> {
+    const id = this.newsletterRevisionId++;
+    const revision: NewsletterRevision = {
+      id,
+      newsletterId: insertRevision.newsletterId,
+      content: insertRevision.content,
+      htmlContent: insertRevision.htmlContent || null,
+      structuredContent: insertRevision.structuredContent ?? null,
+      wordCount: insertRevision.wordCount ?? null,
+      author: insertRevision.author,
+      kind: insertRevision.kind || 'edited',
+      restoredFromId: insertRevision.restoredFromId ?? null,
+      createdAt: new Date(),
+    };
+    this.newsletterRevisions.set(id, revision);
+    return revision;
+  }
+
   // Settings methods
   async getSettings(): Promise<Settings | undefined> {
     return this.settings;
@@ -402,6 +571,8 @@ export class MockDatabase {
       id,
       name: insertFeedSource.name,
       url: insertFeedSource.url,
+      sourceType: insertFeedSource.sourceType || 'feed',
+      scrapeConfig: insertFeedSource.scrapeConfig || null,
       category: insertFeedSource.category,
       description: insertFeedSource.description || null,
       enabled: insertFeedSource.enabled !== false,
@@ -409,7 +580,10 @@ export class MockDatabase {
       articleCount: insertFeedSource.articleCount || 0,
       errorCount: insertFeedSource.errorCount || 0,
       lastError: insertFeedSource.lastError || null,
+      etag: null,
+      lastModified: null,
       refreshInterval: insertFeedSource.refreshInterval || 60,
+      weight: insertFeedSource.weight ?? 50,
       tags: insertFeedSource.tags || [],
       createdAt: new Date(),
       updatedAt: new Date()
@@ -429,6 +603,10 @@ export class MockDatabase {
   }
 
   async deleteFeedSource(id: number): Promise<boolean> {
+    // Mirror the cascade on filter_rules.feed_source_id
+    Array.from(this.filterRules.values())
+      .filter(rule => rule.feedSourceId === id)
+      .forEach(rule => this.filterRules.delete(rule.id));
     return this.feedSources.delete(id);
   }
 
@@ -436,6 +614,175 @@ export class MockDatabase {
     return Array.from(this.feedSources.values()).filter(fs => fs.enabled);
   }
 
+  // Filter rule methods
+  async getFilterRules(): Promise<FilterRule[]> {
+    return Array.from(this.filterRules.values());
+  }
+
+  async createFilterRule(insertRule: InsertFilterRule): Promise<FilterRule> {
+    const id = this.filterRuleId++;
+    const rule: FilterRule = {
+      id,
+      name: insertRule.name,
+      type: insertRule.type,
+      action: insertRule.action || 'exclude',
+      field: insertRule.field || 'any',
+      values: insertRule.values || [],
+      minLength: insertRule.minLength ?? null,
+      feedSourceId: insertRule.feedSourceId ?? null,
+      enabled: insertRule.enabled !== false,
+      createdAt: new Date()
+    };
+    this.filterRules.set(id, rule);
+    return rule;
+  }
+
+  async updateFilterRule(id: number, updates: Partial<FilterRule>): Promise<FilterRule | undefined> {
+    const rule = this.filterRules.get(id);
+    if (rule) {
+      const updated = { ...rule, ...updates };
+      this.filterRules.set(id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
+  async deleteFilterRule(id: number): Promise<boolean> {
+    return this.filterRules.delete(id);
+  }
+
+  async createFilteredArticle(insertFiltered: InsertFilteredArticle): Promise<FilteredArticle | undefined> {
+    const ruleId = insertFiltered.ruleId ?? null;
+    // Mirrors the unique index on (url, rule_id), where a null rule never conflicts
+    const logged = Array.from(this.filteredArticles.values())
+      .some(filtered => filtered.url === insertFiltered.url && ruleId !== null && filtered.ruleId === ruleId);
+    if (logged) return undefined;
+
+    const id = this.filteredArticleId++;
+    const filtered: FilteredArticle = {
+      id,
+      title: insertFiltered.title,
+      url: insertFiltered.url,
+      source: insertFiltered.source,
+      feedSourceId: insertFiltered.feedSourceId ?? null,
+      ruleId,
+      ruleName: insertFiltered.ruleName,
+      reason: insertFiltered.reason,
+      filteredAt: new Date()
+    };
+    this.filteredArticles.set(id, filtered);
+    return filtered;
+  }
+
+  async getFilteredArticles(limit = 100): Promise<FilteredArticle[]> {
+    return Array.from(this.filteredArticles.values())
+      .sort((a, b) => b.filteredAt.getTime() - a.filteredAt.getTime())
+      .slice(0, limit);
+  }
+
+  // Newsletter template methods
+  async getNewsletterTemplates(): Promise<NewsletterTemplate[]> {
+    return Array.from(this.newsletterTemplates.values());
+  }
+
+  async getNewsletterTemplate(id: number): Promise<NewsletterTemplate | undefined> {
+    return this.newsletterTemplates.get(id);
+  }
+
+  async createNewsletterTemplate(insertTemplate: InsertNewsletterTemplate): Promise<NewsletterTemplate> {
+    const id = this.newsletterTemplateId++;
+    const template: NewsletterTemplate = {
+      id,
+      name: insertTemplate.name,
+      description: insertTemplate.description || null,
+      promptBody: insertTemplate.promptBody,
+      sections: insertTemplate.sections || [],
+      targetLength: insertTemplate.targetLength || '600-1000 words',
+      tone: insertTemplate.tone || 'professional but engaging',
+      outputFormat: insertTemplate.outputFormat || 'markdown',
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.newsletterTemplates.set(id, template);
+    return template;
+  }
+
+  async seedNewsletterTemplates(templates: InsertNewsletterTemplate[]): Promise<NewsletterTemplate[]> {
+    const taken = new Set(Array.from(this.newsletterTemplates.values()).map(template => template.name));
+    const seeded: NewsletterTemplate[] = [];
+    for (const template of templates.filter(template => !taken.has(template.name))) {
+      seeded.push(await this.createNewsletterTemplate(template));
+    }
+    return seeded;
+  }
+
+  async updateNewsletterTemplate(id: number, updates: Partial<NewsletterTemplate>): Promise<NewsletterTemplate | undefined> {
+    const template = this.newsletterTemplates.get(id);
+    if (template) {
+      const updated = { ...template, ...updates, updatedAt: new Date() };
+      this.newsletterTemplates.set(id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
+  async deleteNewsletterTemplate(id: number): Promise<boolean> {
+    // Newsletters keep their content but lose the link, like ON DELETE SET NULL
+    Array.from(this.newsletters.values())
+      .filter(newsletter => newsletter.templateId === id)
+      .forEach(newsletter => this.newsletters.set(newsletter.id, { ...newsletter, templateId: null }));
+    return this.newsletterTemplates.delete(id);
+  }
+
+  // Job methods
+  async getJobs(options: { status?: string; limit?: number } = {}): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => !options.status || job.status === options.status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, options.limit || 100);
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    return this.jobs.get(id);
+  }
+
+  async createJob(insertJob: InsertJob & Partial<Pick<Job, 'attempts' | 'startedAt'>>): Promise<Job> {
+    const id = this.jobId++;
+    const job: Job = {
+      id,
+      type: insertJob.type,
+      status: insertJob.status || 'pending',
+      payload: insertJob.payload || {},
+      result: null,
+      attempts: insertJob.attempts || 0,
+      maxAttempts: insertJob.maxAttempts || 5,
+      lastError: null,
+      runAt: insertJob.runAt || new Date(),
+      startedAt: insertJob.startedAt || null,
+      completedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date()
+    };
+    this.jobs.set(id, job);
+    return job;
+  }
+
+  async updateJob(id: number, updates: Partial<Job>): Promise<Job | undefined> {
+    const job = this.jobs.get(id);
+    if (job) {
+      const updated = { ...job, ...updates, updatedAt: new Date() };
+      this.jobs.set(id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
+  async getDueJobs(now = new Date()): Promise<Job[]> {
+    return Array.from(this.jobs.values())
+      .filter(job => job.status === 'pending' && job.runAt.getTime() <= now.getTime())
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime());
+  }
+
   // Data backup methods
   async createDataBackup(insertBackup: InsertDataBackup): Promise<DataBackup> {
     const id = this.backupId++;
@@ -464,29 +811,43 @@ export class MockDatabase {
   async purgeAllData(): Promise<void> {
     this.articles.clear();
     this.newsletters.clear();
+    this.newsletterArticles.clear();
+    this.newsletterRevisions.clear();
     this.activityLogs.clear();
     this.schedules.clear();
     this.socialMediaPosts.clear();
+    this.filteredArticles.clear();
     this.dataBackups.clear();
+    this.jobs.clear();
     
     // Reset IDs
     this.articleId = 1;
     this.newsletterId = 1;
+    this.newsletterArticleId = 1;
+    this.newsletterRevisionId = 1;
     this.logId = 1;
     this.scheduleId = 1;
     this.socialMediaPostId = 1;
+    this.filteredArticleId = 1;
     this.backupId = 1;
+    this.jobId = 1;
   }
 
   async exportAllData(): Promise<any> {
     return {
       articles: Array.from(this.articles.values()),
       newsletters: Array.from(this.newsletters.values()),
+      newsletterArticles: Array.from(this.newsletterArticles.values()),
+      newsletterRevisions: Array.from(this.newsletterRevisions.values()),
       settings: this.settings,
       activityLogs: Array.from(this.activityLogs.values()),
       schedules: Array.from(this.schedules.values()),
       socialMediaPosts: Array.from(this.socialMediaPosts.values()),
       feedSources: Array.from(this.feedSources.values()),
+      filterRules: Array.from(this.filterRules.values()),
+      filteredArticles: Array.from(this.filteredArticles.values()),
+      newsletterTemplates: Array.from(this.newsletterTemplates.values()),
+      jobs: Array.from(this.jobs.values()),
       dataBackups: Array.from(this.dataBackups.values()),
       exportedAt: new Date().toISOString()
     };
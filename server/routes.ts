@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import type { Express, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { newsService } from "./services/newsService";
@@ -6,8 +6,54 @@ import { ClaudeService } from "./services/claudeService";
 import { BeehiivService } from "./services/beehiivService";
 import { EmailService } from "./services/emailService";
 import { schedulerService } from "./services/schedulerService";
-import { insertArticleSchema, insertNewsletterSchema, insertSettingsSchema, insertActivityLogSchema, insertScheduleSchema, insertSocialMediaPostSchema, insertFeedSourceSchema, insertDataBackupSchema, type SocialMediaPost, type FeedSource, type DataBackup } from "@shared/schema";
-import { SocialMediaService } from "./services/socialMediaService";
+import { feedAggregatorService } from "./services/feedAggregatorService";
+import { feedRefreshService } from "./services/feedRefreshService";
+import { deduplicationService } from "./services/deduplicationService";
+import { extractionService } from "./services/extractionService";
+import { opmlService } from "./services/opmlService";
+import { findInvalidPattern } from "./services/filterService";
+import { scoringService } from "./services/scoringService";
+import { clusteringService } from "./services/clusteringService";
+import { templateService } from "./services/templateService";
+import { jobQueueService } from "./services/jobQueueService";
+import { generationService } from "./services/generationService";
+import { sectionService, type IssueSource } from "./services/sectionService";
+import { markdownService } from "./services/markdownService";
+import { emailTemplateService } from "./services/emailTemplateService";
+import { verificationService } from "./services/verificationService";
+import { revisionService, GENERATED_AUTHOR } from "./services/revisionService";
+import { insertArticleSchema, insertNewsletterSchema, insertSettingsSchema, insertActivityLogSchema, insertScheduleSchema, insertSocialMediaPostSchema, insertFeedSourceSchema, insertFilterRuleSchema, insertDataBackupSchema, insertNewsletterTemplateSchema, insertJobSchema, newsletterEditSchema, sectionRegenerationSchema, scrapeConfigSchema, articleDateRangeSchema, MAX_CUSTOM_PROMPT_LENGTH, type FeedSource, type ScrapeConfig, type NewsletterTemplate, type FilterRule, type DataBackup, type Newsletter } from "@shared/schema";
+
+// Writes one Server-Sent Event; data is always JSON so newlines in the text can't break framing
+function sendEvent(res: Response, event: string, data: unknown) {
+  res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+}
+
+// An issue's content together with what's needed to re-render it after a section changes
+async function loadIssueSource(newsletter: Newsletter) {
+  const [articles, template] = await Promise.all([
+    storage.getNewsletterArticles(newsletter.id),
+    templateService.resolve(newsletter.templateId),
+  ]);
+  const issue: IssueSource = {
+    content: newsletter.content,
+    structuredContent: newsletter.structuredContent,
+    format: template?.outputFormat || "markdown",
+    articles,
+  };
+  return { issue, articles, template };
+}
+
+// Scraped sources need enough configuration to find posts on the page
+function scrapeConfigError(sourceType?: string, scrapeConfig?: ScrapeConfig | null): string | undefined {
+  if (sourceType === "html" && !scrapeConfig?.itemSelector?.trim()) {
+    return "HTML sources need an item selector";
+  }
+  if (scrapeConfig?.urlPattern && findInvalidPattern([scrapeConfig.urlPattern])) {
+    return `Invalid URL pattern: ${scrapeConfig.urlPattern}`;
+  }
+  return undefined;
+}
 
 export async function registerRoutes(app: Express): Promise<Server> {
   
@@ -55,8 +101,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         articles = await newsService.fetchNewsFromUrl(url);
       }
       
-      // Clear existing articles and add new ones
-      await storage.clearArticles();
+      // Merge into the persistent article library
+      const session = await deduplicationService.createSession();
       
       const savedArticles = [];
       for (const article of articles) {
@@ -65,18 +111,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
             title: article.title || 'Untitled',
             content: article.content || null,
             source: article.source || 'Unknown Source',
+            author: article.author || null,
+            categories: article.categories || [],
+            imageUrl: article.imageUrl || null,
             url: article.url || '',
             publishedDate: article.publishedDate,
             selected: false
           });
-          const saved = await storage.createArticle(validatedArticle);
-          savedArticles.push(saved);
+          const { article: saved, merged } = await session.ingest(validatedArticle);
+          if (!merged) savedArticles.push(saved);
         } catch (error) {
           console.warn(`Failed to create article: ${article.title}`, error);
           // Continue with other articles even if one fails
         }
       }
 
+      await extractionService.enrichArticles(savedArticles);
+      await scoringService.scoreArticles(savedArticles);
+
       await storage.createActivityLog({
         message: "News articles fetched successfully",
         details: `Retrieved ${savedArticles.length} articles`,
@@ -98,11 +150,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Get articles
-  app.get("/api/articles", async (req, res) => {
+  // Aggregate fetch across all enabled feed sources
+  app.get("/api/news/fetch-all", async (req, res) => {
     try {
+      await storage.createActivityLog({
+        message: "Fetching news from all feed sources",
+        details: "Aggregating articles from every enabled feed source",
+        type: "info"
+      });
+
+      const result = await feedAggregatorService.fetchAllSources();
+
+      await storage.createActivityLog({
+        message: "Feed sources fetched",
+        details: `Added ${result.totalAdded} new articles from ${result.sources.length} sources (${result.totalFiltered} filtered, ${result.failedSources} failed)`,
+        type: result.failedSources > 0 ? "warning" : "success"
+      });
+
       const articles = await storage.getArticles();
-      res.json({ articles });
+      res.json({ articles, ...result });
+    } catch (error) {
+      await storage.createActivityLog({
+        message: "Failed to fetch feed sources",
+        details: error instanceof Error ? error.message : "Unknown error",
+        type: "error"
+      });
+
+      res.status(500).json({ 
+        message: "Failed to fetch feed sources", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Get articles, optionally filtered by status/date range and paged
+  app.get("/api/articles", async (req, res) => {
+    try {
+      const { status, from, to, page, pageSize, sort } = req.query as Record<string, string | undefined>;
+      const range = articleDateRangeSchema.safeParse({ from: from || undefined, to: to || undefined });
+      if (!range.success) {
+        return res.status(400).json({ message: range.error.issues[0]?.message || "Invalid date range", issues: range.error.issues });
+      }
+      const limit = pageSize ? parseInt(pageSize) : undefined;
+      const offset = limit && page ? (Math.max(parseInt(page), 1) - 1) * limit : undefined;
+
+      const { articles, total } = await storage.queryArticles({
+        status,
+        from: range.data.from,
+        to: range.data.to,
+        sort: sort === "score" ? "score" : "date",
+        limit,
+        offset,
+      });
+      const usedArticleIds = await storage.getUsedArticleIds();
+      // Only groups of two or more are worth showing as a story
+      const clusters = clusteringService.cluster(articles)
+        .filter(cluster => cluster.articles.length > 1)
+        .map(cluster => ({ id: cluster.id, title: cluster.title, articleIds: cluster.articles.map(article => article.id) }));
+
+      res.json({ articles, total, usedArticleIds, clusters });
     } catch (error) {
       res.status(500).json({ 
         message: "Failed to fetch articles", 
@@ -111,6 +217,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Recompute relevance scores for every article still in play; with Claude scoring this can take a
+  // while on a large library, so it runs as a background job
+  app.post("/api/articles/rescore", async (req, res) => {
+    try {
+      const job = await jobQueueService.enqueue("rescore", { useClaude: !!req.body?.useClaude });
+
+      res.status(202).json({ job, message: "Rescoring queued" });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to rescore articles", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
   // Update article selection
   app.patch("/api/articles/:id/select", async (req, res) => {
     try {
@@ -121,11 +242,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Selected must be a boolean" });
       }
 
-      const article = await storage.updateArticleSelection(id, selected);
+      let article = await storage.updateArticleSelection(id, selected);
       if (!article) {
         return res.status(404).json({ message: "Article not found" });
       }
 
+      // Touching the selection takes an article out of the inbox
+      if (article.status === "inbox") {
+        article = await storage.updateArticle(id, { status: "reviewed" }) || article;
+      }
+
       res.json({ article });
     } catch (error) {
       res.status(500).json({ 
@@ -135,98 +261,243 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Update article review status (inbox, reviewed, archived)
+  app.patch("/api/articles/:id/status", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const { status } = req.body;
+
+      if (!["inbox", "reviewed", "archived"].includes(status)) {
+        return res.status(400).json({ message: "Status must be one of inbox, reviewed, archived" });
+      }
+
+      // Archived articles can't stay selected for the next issue
+      const updates = status === "archived" ? { status, selected: false } : { status };
+      const article = await storage.updateArticle(id, updates);
+      if (!article) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+
+      res.json({ article });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to update article status", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Extract the full text of a single article on demand
+  app.post("/api/articles/:id/extract", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const article = await storage.getArticle(id);
+      if (!article) {
+        return res.status(404).json({ message: "Article not found" });
+      }
+
+      const options = extractionService.getOptions(await storage.getSettings(), true)!;
+      if (!extractionService.isDomainAllowed(article.url, options)) {
+        return res.status(400).json({ message: "Full-text extraction is not allowed for this domain" });
+      }
+
+      const fullContent = await extractionService.extract(article.url, options);
+      if (!fullContent) {
+        return res.status(422).json({ message: "No readable article body found" });
+      }
+
+      const updated = await storage.updateArticle(id, { fullContent });
+      res.json({ article: updated });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to extract article text", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Newsletters that have used an article
+  app.get("/api/articles/:id/newsletters", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const newsletters = await storage.getArticleNewsletters(id);
+      res.json({ newsletters });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to fetch article newsletters", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
   // Newsletter generation
   app.post("/api/newsletter/generate", async (req, res) => {
     try {
-      const { issueNumber, date, customPrompt } = req.body;
+      const { issueNumber, date, customPrompt, templateId, structured, allowReusedArticles = false } = req.body;
       
       const settings = await storage.getSettings();
       if (!settings?.claudeApiKey) {
         return res.status(400).json({ message: "Claude API key not configured" });
       }
 
-      const articles = await storage.getArticles();
-      const selectedArticles = articles.filter(article => article.selected);
+      const template = await templateService.resolve(templateId !== undefined && templateId !== null ? Number(templateId) : undefined);
+      if (!template) {
+        return res.status(404).json({ message: "Newsletter template not found" });
+      }
+
+      if (customPrompt !== undefined && customPrompt !== null && typeof customPrompt !== "string") {
+        return res.status(400).json({ message: "customPrompt must be a string" });
+      }
+      const instructions = (customPrompt || "").trim();
+      if (instructions.length > MAX_CUSTOM_PROMPT_LENGTH) {
+        return res.status(400).json({ message: `Instructions must be at most ${MAX_CUSTOM_PROMPT_LENGTH} characters` });
+      }
+
+      const selectedArticles = await storage.getSelectedArticles();
 
       if (selectedArticles.length === 0) {
         return res.status(400).json({ message: "No articles selected for newsletter generation" });
       }
 
+      // Guard against covering a story that already went out in a published issue
+      const usedArticleIds = new Set(await storage.getUsedArticleIds());
+      const reusedArticles = selectedArticles.filter(article => usedArticleIds.has(article.id));
+      if (reusedArticles.length > 0 && !allowReusedArticles) {
+        return res.status(409).json({
+          message: `${reusedArticles.length} selected article(s) were already covered in a published issue`,
+          reusedArticles: reusedArticles.map(article => ({ id: article.id, title: article.title })),
+        });
+      }
+
+      const stories = clusteringService.toStories(selectedArticles);
+
       await storage.createActivityLog({
         message: "Generating newsletter",
-        details: `Using ${selectedArticles.length} selected articles`,
+        details: `Using ${selectedArticles.length} selected articles grouped into ${stories.length} stories with the "${template.name}" template` +
+          (instructions ? " and custom instructions" : ""),
         type: "info"
       });
 
-      const claudeService = new ClaudeService(settings.claudeApiKey);
-      
-      const content = await claudeService.generateNewsletter({
-        articles: selectedArticles.map(article => ({
-          title: article.title,
-          content: article.content || undefined,
-          source: article.source,
-          publishedDate: article.publishedDate,
-        })),
-        issueNumber: issueNumber || await storage.getNextIssueNumber(),
-        date: new Date(date || Date.now()),
-        newsletterTitle: settings.newsletterTitle || "AI Weekly",
-        temperature: parseFloat(settings.claudeTemperature || "0.7"),
-        maxTokens: settings.claudeMaxTokens || 4000,
-        model: settings.claudeModel || "claude-sonnet-4-20250514"
-      });
-
-      const wordCount = content.split(/\s+/).length;
       const actualIssueNumber = issueNumber || await storage.getNextIssueNumber();
+      const newsletterDate = new Date(date || Date.now());
+      const selectedIds = selectedArticles.map(article => article.id);
+
+      // Clients that accept an event stream see the text as it's written and cancel by disconnecting
+      const streaming = req.accepts(["application/json", "text/event-stream"]) === "text/event-stream";
+      const abortController = new AbortController();
+      if (streaming) {
+        res.writeHead(200, {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          "Connection": "keep-alive",
+          "X-Accel-Buffering": "no"
+        });
+        res.on("close", () => {
+          if (!res.writableEnded) abortController.abort();
+        });
+      }
 
-      const newsletter = await storage.createNewsletter({
+      // The first attempt runs now and streams to this request; rate limits and overloads are retried by the job queue
+      let partialContent = "";
+      const job = await jobQueueService.enqueueAndRun("generate", {
+        articleIds: selectedIds,
+        templateId: template.id,
+        customPrompt: instructions || undefined,
+        structured: structured ?? undefined,
         issueNumber: actualIssueNumber,
-        title: `${settings.newsletterTitle || "AI Weekly"} #${actualIssueNumber}`,
-        content,
-        htmlContent: null,
-        date: new Date(date || Date.now()),
-        status: settings.approvalRequired ? "generated" : "approved",
+        date: newsletterDate.toISOString(),
         frequency: "manual",
-        scheduleTime: null,
-        approvalRequired: settings.approvalRequired || false,
-        approvalEmail: settings.approvalEmail || null,
-        approvedBy: null,
-        wordCount,
-        beehiivId: null,
-        beehiivUrl: null
+      }, {}, {
+        // Each event also carries the text so far rendered and sanitized like the finished issue, for the live preview
+        onText: (delta) => {
+          partialContent += delta;
+          if (streaming) sendEvent(res, "delta", { text: delta, html: markdownService.render(partialContent, template.outputFormat) });
+        },
+        // Structured issues are re-rendered as the tool input grows, so the client replaces rather than appends
+        onSnapshot: (content) => {
+          partialContent = content;
+          if (streaming) sendEvent(res, "snapshot", { content, html: markdownService.render(content, template.outputFormat) });
+        },
+        signal: abortController.signal
       });
 
-      // Send approval email if required
-      if (settings.approvalRequired && settings.sendgridApiKey && settings.approvalEmail) {
-        try {
-          const emailService = new EmailService(settings.sendgridApiKey);
-          await emailService.sendApprovalEmail(
-            settings.approvalEmail,
-            newsletter.title,
-            content,
-            newsletter.id
-          );
-          
-          await storage.createActivityLog({
-            message: "Approval email sent",
-            details: `Sent to ${settings.approvalEmail}`,
-            type: "info"
-          });
-        } catch (emailError) {
-          await storage.createActivityLog({
-            message: "Failed to send approval email",
-            details: emailError instanceof Error ? emailError.message : "Unknown error",
-            type: "warning"
-          });
+      if (job.status === "completed") {
+        const newsletter = await storage.getNewsletter(job.result?.newsletterId);
+        if (res.headersSent) {
+          sendEvent(res, "done", { newsletter, job });
+          res.end();
+        } else {
+          res.json({ newsletter, job });
         }
+        return;
       }
 
-      await storage.createActivityLog({
-        message: "Newsletter generated successfully",
-        details: `Generated ${wordCount} words from ${selectedArticles.length} articles using ${settings.claudeModel}`,
-        type: "success"
-      });
+      if (job.status === "pending") {
+        const body = {
+          message: `Generation failed and will be retried (attempt ${job.attempts} of ${job.maxAttempts})`,
+          error: job.lastError,
+          job
+        };
+        if (res.headersSent) {
+          sendEvent(res, "queued", body);
+          res.end();
+        } else {
+          res.status(202).json(body);
+        }
+        return;
+      }
 
-      res.json({ newsletter });
+      if (abortController.signal.aborted) {
+        await storage.createActivityLog({
+          message: "Newsletter generation cancelled",
+          details: `Stopped after ${partialContent.split(/\s+/).filter(Boolean).length} words`,
+          type: "warning"
+        });
+        return;
+      }
+
+      // Keep what was written before the failure so it can be finished by hand
+      if (partialContent.trim()) {
+        const draft = await storage.createNewsletter({
+          issueNumber: actualIssueNumber,
+          title: `${settings.newsletterTitle || "AI Weekly"} #${actualIssueNumber}`,
+          content: partialContent,
+          htmlContent: markdownService.render(partialContent, template.outputFormat),
+          structuredContent: null,
+          verificationReport: null,
+          date: newsletterDate,
+          status: "draft",
+          frequency: "manual",
+          scheduleTime: null,
+          approvalRequired: settings.approvalRequired || false,
+          approvalEmail: settings.approvalEmail || null,
+          approvedBy: null,
+          wordCount: partialContent.split(/\s+/).length,
+          templateId: template.id,
+          customPrompt: instructions || null,
+          beehiivId: null,
+          beehiivUrl: null
+        });
+        await storage.linkNewsletterArticles(draft.id, selectedIds);
+        await revisionService.record(draft, GENERATED_AUTHOR, "generated");
+        await storage.createActivityLog({
+          message: "Partial newsletter saved as draft",
+          details: `Issue #${actualIssueNumber} stopped after ${draft.wordCount} words`,
+          type: "warning"
+        });
+      }
+
+      const body = {
+        message: "Failed to generate newsletter",
+        error: job.lastError || "Unknown error",
+        job
+      };
+      if (res.headersSent) {
+        sendEvent(res, "error", body);
+        res.end();
+      } else {
+        res.status(500).json(body);
+      }
     } catch (error) {
       await storage.createActivityLog({
         message: "Newsletter generation failed",
@@ -234,10 +505,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         type: "error"
       });
 
-      res.status(500).json({ 
-        message: "Failed to generate newsletter", 
-        error: error instanceof Error ? error.message : "Unknown error" 
-      });
+      const body = {
+        message: "Failed to generate newsletter",
+        error: error instanceof Error ? error.message : "Unknown error"
+      };
+      // Once the stream has started the status is already 200, so the failure goes out as an event
+      if (res.headersSent) {
+        sendEvent(res, "error", body);
+        res.end();
+      } else {
+        res.status(500).json(body);
+      }
     }
   });
 
@@ -256,39 +534,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Newsletter not found" });
       }
 
-      await storage.createActivityLog({
-        message: draft ? "Creating Beehiiv draft" : "Publishing newsletter to Beehiiv",
-        details: `Newsletter: ${newsletter.title}`,
-        type: "info"
-      });
-
-      const beehiivService = new BeehiivService(settings.beehiivApiKey);
-      
-      const result = draft 
-        ? await beehiivService.createDraft(settings.beehiivPublicationId, newsletter.title, newsletter.content)
-        : await beehiivService.publishNewsletter(settings.beehiivPublicationId, newsletter.title, newsletter.content);
+      // Beehiiv outages are retried by the job queue; the first attempt runs now so the usual case answers directly
+      const job = await jobQueueService.enqueueAndRun("publish", { newsletterId: newsletter.id, draft });
 
-      const updatedNewsletter = await storage.updateNewsletter(newsletterId, {
-        status: draft ? "draft" : "published",
-        beehiivId: result.id,
-        beehiivUrl: result.web_url,
-        publishedAt: draft ? null : new Date()
-      });
+      if (job.status === "completed") {
+        const updatedNewsletter = await storage.getNewsletter(newsletter.id);
+        return res.json({
+          newsletter: updatedNewsletter,
+          beehiivPost: { id: job.result?.beehiivId, web_url: job.result?.beehiivUrl },
+          job
+        });
+      }
 
-      await storage.createActivityLog({
-        message: draft ? "Draft created successfully" : "Newsletter published successfully",
-        details: `Beehiiv ID: ${result.id}${result.web_url ? `, URL: ${result.web_url}` : ''}`,
-        type: "success"
-      });
+      if (job.status === "pending") {
+        return res.status(202).json({
+          message: `Publishing failed and will be retried (attempt ${job.attempts} of ${job.maxAttempts})`,
+          error: job.lastError,
+          job
+        });
+      }
 
-      res.json({ newsletter: updatedNewsletter, beehiivPost: result });
-    } catch (error) {
-      await storage.createActivityLog({
+      res.status(500).json({
         message: "Failed to publish newsletter",
-        details: error instanceof Error ? error.message : "Unknown error",
-        type: "error"
+        error: job.lastError || "Unknown error",
+        job
       });
-
+    } catch (error) {
       res.status(500).json({ 
         message: "Failed to publish newsletter", 
         error: error instanceof Error ? error.message : "Unknown error" 
@@ -322,7 +593,287 @@ export async function registerRoutes(app: Express): Promise<Server> {
       res.json({ newsletter });
     } catch (error) {
       res.status(500).json({ 
-        message: "Failed to fetch newsletter", 
+        message: "Failed to fetch newsletter", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Articles used by a newsletter
+  app.get("/api/newsletters/:id/articles", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const articles = await storage.getNewsletterArticles(id);
+      res.json({ articles });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to fetch newsletter articles", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Save a manual edit; published issues are final
+  app.patch("/api/newsletters/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = newsletterEditSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid edit", error: parsed.error.issues[0]?.message || parsed.error.message });
+      }
+
+      const newsletter = await storage.getNewsletter(id);
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+      if (newsletter.status === "published") {
+        return res.status(409).json({ message: "Published newsletters can't be edited" });
+      }
+
+      const { newsletter: updated, revision } = await revisionService.applyEdit(newsletter, parsed.data);
+
+      await storage.createActivityLog({
+        message: "Newsletter edited",
+        details: `${revision.author} saved ${updated.wordCount} words to "${updated.title}"`,
+        type: "info"
+      });
+
+      res.json({ newsletter: updated, revision });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to update newsletter", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Revision history, newest first
+  app.get("/api/newsletters/:id/revisions", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const newsletter = await storage.getNewsletter(id);
+
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+
+      const revisions = await storage.getNewsletterRevisions(id);
+      res.json({ revisions });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to fetch revisions", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Word-level diff between two revisions: ?from=<revisionId>&to=<revisionId>
+  app.get("/api/newsletters/:id/revisions/diff", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const fromId = parseInt(req.query.from as string);
+      const toId = parseInt(req.query.to as string);
+      if (isNaN(fromId) || isNaN(toId)) {
+        return res.status(400).json({ message: "Both from and to revision ids are required" });
+      }
+
+      const revisions = await storage.getNewsletterRevisions(id);
+      const from = revisions.find(revision => revision.id === fromId);
+      const to = revisions.find(revision => revision.id === toId);
+      if (!from || !to) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const segments = revisionService.diff(from.content, to.content);
+      const countWords = (type: string) => segments
+        .filter(segment => segment.type === type)
+        .reduce((total, segment) => total + segment.text.split(/\s+/).filter(Boolean).length, 0);
+
+      res.json({ from, to, segments, added: countWords("added"), removed: countWords("removed") });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to diff revisions", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Bring an old revision back as the current content
+  app.post("/api/newsletters/:id/revisions/:revisionId/restore", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const revisionId = parseInt(req.params.revisionId);
+
+      const newsletter = await storage.getNewsletter(id);
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+      if (newsletter.status === "published") {
+        return res.status(409).json({ message: "Published newsletters can't be edited" });
+      }
+
+      const revisions = await storage.getNewsletterRevisions(id);
+      const source = revisions.find(revision => revision.id === revisionId);
+      if (!source) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const author = typeof req.body?.author === "string" && req.body.author.trim() ? req.body.author.trim() : undefined;
+      const { newsletter: updated, revision } = await revisionService.restore(newsletter, source, author);
+
+      await storage.createActivityLog({
+        message: "Newsletter revision restored",
+        details: `"${updated.title}" restored to revision #${source.id} from ${new Date(source.createdAt).toLocaleString()}`,
+        type: "info"
+      });
+
+      res.json({ newsletter: updated, revision });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to restore revision", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // The issue as subscribers will receive it: ?format=text for the plain-text alternative
+  app.get("/api/newsletters/:id/email", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const newsletter = await storage.getNewsletter(id);
+
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+
+      const settings = await storage.getSettings();
+      if (!settings) {
+        return res.status(400).json({ message: "Settings not configured" });
+      }
+
+      const email = emailTemplateService.render(newsletter, settings);
+      if (req.query.format === "text") {
+        return res.type("text/plain").send(email.text);
+      }
+      res.type("html").send(email.html);
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to render email", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // The parts of an issue that can be regenerated on their own
+  app.get("/api/newsletters/:id/sections", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const newsletter = await storage.getNewsletter(id);
+
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+
+      const { issue } = await loadIssueSource(newsletter);
+      res.json({ sections: sectionService.sections(issue) });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to fetch sections", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Rewrite one section with the rest of the issue as fixed context, saved as a new revision
+  app.post("/api/newsletters/:id/sections/:index/regenerate", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const index = parseInt(req.params.index);
+      const parsed = sectionRegenerationSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid request", error: parsed.error.issues[0]?.message || parsed.error.message });
+      }
+
+      const newsletter = await storage.getNewsletter(id);
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+      if (newsletter.status === "published") {
+        return res.status(409).json({ message: "Published newsletters can't be edited" });
+      }
+
+      const settings = await storage.getSettings();
+      if (!settings?.claudeApiKey) {
+        return res.status(400).json({ message: "Claude API key not configured" });
+      }
+
+      const { issue, articles, template } = await loadIssueSource(newsletter);
+      if (!template) {
+        return res.status(404).json({ message: "Newsletter template not found" });
+      }
+      if (isNaN(index) || !sectionService.sections(issue)[index]) {
+        return res.status(404).json({ message: "Section not found" });
+      }
+
+      const regenerated = await generationService.regenerateSection({
+        issue,
+        index,
+        articles,
+        template,
+        settings,
+        instructions: parsed.data.instructions || undefined,
+      });
+      const { newsletter: updated, revision } = await revisionService.applySectionRewrite(newsletter, regenerated);
+
+      const { section } = regenerated;
+      await storage.createActivityLog({
+        message: "Newsletter section regenerated",
+        details: `Rewrote the ${section.heading ? `"${section.heading}" ${section.role}` : section.role} of "${updated.title}"` +
+          (parsed.data.instructions ? " with custom instructions" : ""),
+        type: "info"
+      });
+
+      const sections = sectionService.sections({ ...issue, content: updated.content, structuredContent: updated.structuredContent });
+      res.json({ newsletter: updated, revision, section: sections[index] ?? section });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to regenerate section", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  // Re-run the fact check, e.g. after the content was edited
+  app.post("/api/newsletters/:id/verify", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const newsletter = await storage.getNewsletter(id);
+
+      if (!newsletter) {
+        return res.status(404).json({ message: "Newsletter not found" });
+      }
+
+      const [articles, settings, template] = await Promise.all([
+        storage.getNewsletterArticles(id),
+        storage.getSettings(),
+        newsletter.templateId ? storage.getNewsletterTemplate(newsletter.templateId) : Promise.resolve(undefined),
+      ]);
+      if (!settings) {
+        return res.status(400).json({ message: "Settings not configured" });
+      }
+
+      const verificationReport = generationService.verify(newsletter.content, articles, {
+        settings,
+        template,
+        issueNumber: newsletter.issueNumber,
+        date: newsletter.date,
+      });
+      const updated = await storage.updateNewsletter(id, { verificationReport });
+
+      res.json({ newsletter: updated, verificationReport });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to verify newsletter", 
         error: error instanceof Error ? error.message : "Unknown error" 
       });
     }
@@ -500,76 +1051,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ error: "Claude API key not configured" });
       }
 
-      const socialMediaService = new SocialMediaService(settings.claudeApiKey);
-      
-      // Generate social media content
-      const socialContent = await socialMediaService.generateSocialMediaContent(
-        newsletter.content,
-        newsletter.title,
-        newsletter.issueNumber
-      );
-
-      // Generate random posting times
-      const postingTimes = socialMediaService.generateRandomPostingTimes(3);
-
-      const createdPosts: SocialMediaPost[] = [];
-
-      // Create Twitter post
-      const twitterPost = await storage.createSocialMediaPost({
-        platform: "twitter",
-        content: socialContent.twitter.content,
-        hashtags: socialContent.twitter.hashtags,
-        scheduledFor: postingTimes[0],
-        newsletterId: newsletter.id,
-        engagementHook: socialContent.twitter.hook,
-        callToAction: socialContent.twitter.cta,
-        status: "scheduled"
-      });
-      createdPosts.push(twitterPost);
-
-      // Create Instagram post
-      const instagramPost = await storage.createSocialMediaPost({
-        platform: "instagram",
-        content: socialContent.instagram.content,
-        hashtags: socialContent.instagram.hashtags,
-        scheduledFor: postingTimes[1],
-        newsletterId: newsletter.id,
-        engagementHook: socialContent.instagram.hook,
-        callToAction: socialContent.instagram.cta,
-        status: "scheduled"
-      });
-      createdPosts.push(instagramPost);
-
-      // Create YouTube Shorts post
-      const youtubePost = await storage.createSocialMediaPost({
-        platform: "youtube",
-        content: `${socialContent.youtube.title}\n\n${socialContent.youtube.description}`,
-        hashtags: socialContent.youtube.hashtags,
-        scheduledFor: postingTimes[2],
-        newsletterId: newsletter.id,
-        engagementHook: socialContent.youtube.hook,
-        callToAction: socialContent.youtube.cta,
-        status: "scheduled"
-      });
-      createdPosts.push(youtubePost);
+      const job = await jobQueueService.enqueueAndRun("social_generate", { newsletterId: newsletter.id });
 
-      await storage.createActivityLog({
-        type: "info",
-        message: `Generated social media posts for newsletter #${newsletter.issueNumber}`,
-        details: `Created ${createdPosts.length} posts across Twitter, Instagram, and YouTube`
-      });
+      if (job.status === "completed") {
+        const postIds: number[] = job.result?.postIds || [];
+        const posts = (await storage.getSocialMediaPostsByNewsletter(newsletter.id))
+          .filter(post => postIds.includes(post.id));
+        return res.json({ 
+          posts,
+          job,
+          message: "Social media posts generated and scheduled successfully"
+        });
+      }
 
-      res.json({ 
-        posts: createdPosts,
-        message: "Social media posts generated and scheduled successfully"
-      });
+      if (job.status === "pending") {
+        return res.status(202).json({
+          job,
+          message: `Generation failed and will be retried (attempt ${job.attempts} of ${job.maxAttempts})`,
+          error: job.lastError
+        });
+      }
+
+      res.status(500).json({ error: job.lastError || "Failed to generate social media posts", job });
     } catch (error: any) {
       console.error("Error generating social media posts:", error);
-      await storage.createActivityLog({
-        type: "error",
-        message: "Failed to generate social media posts",
-        details: error.message
-      });
       res.status(500).json({ error: error.message });
     }
   });
@@ -702,6 +1207,495 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Feed source management endpoints
+  app.get("/api/feed-sources", async (req, res) => {
+    try {
+      const feedSources = await storage.getFeedSources();
+      res.json({ feedSources });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to fetch feed sources",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/feed-sources/test", async (req, res) => {
+    try {
+      const { url, sourceType = "feed" } = req.body;
+      if (!url || typeof url !== 'string') {
+        return res.status(400).json({ message: "URL is required" });
+      }
+      if (!["feed", "html", "sitemap"].includes(sourceType)) {
+        return res.status(400).json({ message: `Unknown source type: ${sourceType}` });
+      }
+
+      const config = scrapeConfigSchema.nullable().optional().safeParse(req.body.scrapeConfig);
+      if (!config.success) {
+        return res.status(400).json({ message: "Invalid scrape configuration", error: config.error.message });
+      }
+      const configError = scrapeConfigError(sourceType, config.data);
+      if (configError) {
+        return res.status(400).json({ message: configError });
+      }
+
+      // Parse the feed without persisting anything; scraped sources double as a selector preview
+      const { format, articles } = await newsService.fetchFeed(url, {
+        sourceType,
+        scrapeConfig: config.data,
+      });
+
+      res.json({
+        format,
+        articleCount: articles.length,
+        articles: articles.slice(0, 10),
+      });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to test feed source",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/feed-sources", async (req, res) => {
+    try {
+      const parsed = insertFeedSourceSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid feed source", issues: parsed.error.issues });
+      }
+      const validatedFeedSource = parsed.data;
+      const configError = scrapeConfigError(validatedFeedSource.sourceType, validatedFeedSource.scrapeConfig);
+      if (configError) {
+        return res.status(400).json({ message: configError });
+      }
+      const feedSource = await storage.createFeedSource(validatedFeedSource);
+
+      await storage.createActivityLog({
+        message: "Feed source created",
+        details: `New feed source "${feedSource.name}" added (${feedSource.url})`,
+        type: "success"
+      });
+
+      res.json({ feedSource });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to create feed source",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Bulk import from an OPML document; dryRun returns the plan without creating anything
+  app.post("/api/feed-sources/import", async (req, res) => {
+    try {
+      const { opml, dryRun = false } = req.body;
+      if (!opml || typeof opml !== 'string') {
+        return res.status(400).json({ message: "OPML content is required" });
+      }
+
+      let parsed;
+      try {
+        parsed = await opmlService.parse(opml);
+      } catch (error) {
+        return res.status(400).json({
+          message: "Invalid OPML file",
+          error: error instanceof Error ? error.message : "Unknown error"
+        });
+      }
+
+      const feeds = opmlService.planImport(parsed, await storage.getFeedSources());
+      const newFeeds = feeds.filter(feed => feed.status === 'new');
+
+      if (dryRun) {
+        return res.json({ dryRun: true, feeds, created: 0, skipped: feeds.length - newFeeds.length });
+      }
+
+      for (const feed of newFeeds) {
+        await storage.createFeedSource(insertFeedSourceSchema.parse(opmlService.toFeedSource(feed)));
+      }
+
+      await storage.createActivityLog({
+        message: "Feed sources imported from OPML",
+        details: `Created ${newFeeds.length} feed sources, skipped ${feeds.length - newFeeds.length} duplicates`,
+        type: "success"
+      });
+
+      res.json({ dryRun: false, feeds, created: newFeeds.length, skipped: feeds.length - newFeeds.length });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to import feed sources",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/feed-sources/export", async (req, res) => {
+    try {
+      const feedSources = await storage.getFeedSources();
+      const settings = await storage.getSettings();
+      const opml = opmlService.build(feedSources, settings?.newsletterTitle || undefined);
+
+      res.setHeader("Content-Type", "text/x-opml; charset=utf-8");
+      res.setHeader("Content-Disposition", 'attachment; filename="feed-sources.opml"');
+      res.send(opml);
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to export feed sources",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.put("/api/feed-sources/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = insertFeedSourceSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid feed source", issues: parsed.error.issues });
+      }
+      const updates: Partial<FeedSource> = parsed.data;
+      const configError = scrapeConfigError(updates.sourceType, updates.scrapeConfig);
+      if (configError) {
+        return res.status(400).json({ message: configError });
+      }
+
+      const existing = (await storage.getFeedSources()).find(feedSource => feedSource.id === id);
+
+      // Re-enabling a feed clears its failure streak so the refresher doesn't back off or disable it again
+      if (existing && !existing.enabled && updates.enabled) {
+        updates.errorCount = 0;
+      }
+
+      // Cache validators belong to the old URL
+      if (existing && updates.url && existing.url !== updates.url) {
+        updates.etag = null;
+        updates.lastModified = null;
+      }
+
+      const feedSource = await storage.updateFeedSource(id, updates);
+      if (!feedSource) {
+        return res.status(404).json({ message: "Feed source not found" });
+      }
+
+      res.json({ feedSource });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to update feed source",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.delete("/api/feed-sources/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteFeedSource(id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Feed source not found" });
+      }
+
+      await storage.createActivityLog({
+        message: "Feed source deleted",
+        details: `Feed source with ID ${id} has been deleted`,
+        type: "info"
+      });
+
+      res.json({ message: "Feed source deleted successfully" });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to delete feed source",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Filter rule endpoints
+  app.get("/api/filter-rules", async (req, res) => {
+    try {
+      const filterRules = await storage.getFilterRules();
+      res.json({ filterRules });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to fetch filter rules",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/filter-rules", async (req, res) => {
+    try {
+      const parsed = insertFilterRuleSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid filter rule", issues: parsed.error.issues });
+      }
+      const validatedRule = parsed.data;
+      const invalidPattern = validatedRule.type === "regex" ? findInvalidPattern(validatedRule.values || []) : undefined;
+      if (invalidPattern !== undefined) {
+        return res.status(400).json({ message: `Invalid regular expression: ${invalidPattern}` });
+      }
+
+      const filterRule = await storage.createFilterRule(validatedRule);
+
+      await storage.createActivityLog({
+        message: "Filter rule created",
+        details: `New ${filterRule.action} ${filterRule.type} rule "${filterRule.name}"`,
+        type: "success"
+      });
+
+      res.json({ filterRule });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to create filter rule",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.put("/api/filter-rules/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = insertFilterRuleSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid filter rule", issues: parsed.error.issues });
+      }
+      const updates: Partial<FilterRule> = parsed.data;
+      const existing = (await storage.getFilterRules()).find(rule => rule.id === id);
+      if (!existing) {
+        return res.status(404).json({ message: "Filter rule not found" });
+      }
+
+      // A partial update can turn existing values into regexes, or give a regex rule new values
+      const type = updates.type ?? existing.type;
+      const invalidPattern = type === "regex" ? findInvalidPattern(updates.values ?? existing.values ?? []) : undefined;
+      if (invalidPattern !== undefined) {
+        return res.status(400).json({ message: `Invalid regular expression: ${invalidPattern}` });
+      }
+      const filterRule = await storage.updateFilterRule(id, updates);
+
+      if (!filterRule) {
+        return res.status(404).json({ message: "Filter rule not found" });
+      }
+
+      res.json({ filterRule });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to update filter rule",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.delete("/api/filter-rules/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteFilterRule(id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Filter rule not found" });
+      }
+
+      res.json({ message: "Filter rule deleted successfully" });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to delete filter rule",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Newsletter templates
+  app.get("/api/newsletter-templates", async (req, res) => {
+    try {
+      const templates = await templateService.list();
+      res.json({ templates });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to fetch newsletter templates",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.get("/api/newsletter-templates/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const template = await storage.getNewsletterTemplate(id);
+
+      if (!template) {
+        return res.status(404).json({ message: "Newsletter template not found" });
+      }
+
+      res.json({ template });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to fetch newsletter template",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.post("/api/newsletter-templates", async (req, res) => {
+    try {
+      const parsed = insertNewsletterTemplateSchema.safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid template", error: parsed.error.message });
+      }
+
+      const nameTaken = (await storage.getNewsletterTemplates()).some(existing => existing.name === parsed.data.name);
+      if (nameTaken) {
+        return res.status(409).json({ message: `A template named "${parsed.data.name}" already exists` });
+      }
+
+      const template = await storage.createNewsletterTemplate(parsed.data);
+
+      await storage.createActivityLog({
+        message: "Newsletter template created",
+        details: `New template "${template.name}"`,
+        type: "success"
+      });
+
+      res.json({ template });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to create newsletter template",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.put("/api/newsletter-templates/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const parsed = insertNewsletterTemplateSchema.partial().safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: parsed.error.issues[0]?.message || "Invalid template", error: parsed.error.message });
+      }
+
+      const updates: Partial<NewsletterTemplate> = parsed.data;
+      const nameTaken = updates.name !== undefined &&
+        (await storage.getNewsletterTemplates()).some(existing => existing.name === updates.name && existing.id !== id);
+      if (nameTaken) {
+        return res.status(409).json({ message: `A template named "${updates.name}" already exists` });
+      }
+
+      const template = await storage.updateNewsletterTemplate(id, updates);
+
+      if (!template) {
+        return res.status(404).json({ message: "Newsletter template not found" });
+      }
+
+      res.json({ template });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to update newsletter template",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  app.delete("/api/newsletter-templates/:id", async (req, res) => {
+    try {
+      const id = parseInt(req.params.id);
+      const deleted = await storage.deleteNewsletterTemplate(id);
+
+      if (!deleted) {
+        return res.status(404).json({ message: "Newsletter template not found" });
+      }
+
+      res.json({ message: "Newsletter template deleted successfully" });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to delete newsletter template",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Audit log of articles dropped by filter rules
+  app.get("/api/filtered-articles", async (req, res) => {
+    try {
+      const limit = Math.min(parseInt(req.query.limit as string) || 100, 500);
+      const filteredArticles = await storage.getFilteredArticles(limit);
+      res.json({ filteredArticles });
+    } catch (error) {
+      res.status(500).json({
+        message: "Failed to fetch filtered articles",
+        error: error instanceof Error ? error.message : "Unknown error"
+      });
+    }
+  });
+
+  // Background jobs
+  app.get("/api/jobs", async (req, res) => {
+    try {
+      const status = typeof req.query.status === "string" ? req.query.status : undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string) : undefined;
+      const jobs = await storage.getJobs({ status, limit });
+      res.json({ jobs });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to fetch jobs", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  app.get("/api/jobs/:id", async (req, res) => {
+    try {
+      const job = await storage.getJob(parseInt(req.params.id));
+      if (!job) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      res.json({ job });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to fetch job", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  app.post("/api/jobs", async (req, res) => {
+    try {
+      const parsed = insertJobSchema.pick({ type: true, payload: true, maxAttempts: true }).safeParse(req.body);
+      if (!parsed.success) {
+        return res.status(400).json({ message: "Invalid job", error: parsed.error.message });
+      }
+
+      const job = await jobQueueService.enqueue(parsed.data.type, parsed.data.payload, {
+        maxAttempts: parsed.data.maxAttempts,
+      });
+      res.status(201).json({ job });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to create job", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
+  app.post("/api/jobs/:id/retry", async (req, res) => {
+    try {
+      const existing = await storage.getJob(parseInt(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: "Job not found" });
+      }
+      if (existing.status !== "dead" && existing.status !== "pending") {
+        return res.status(409).json({ message: `A ${existing.status} job cannot be retried` });
+      }
+
+      const job = await jobQueueService.retry(existing.id);
+      res.json({ job });
+    } catch (error) {
+      res.status(500).json({ 
+        message: "Failed to retry job", 
+        error: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
   // Newsletter approval endpoints
   app.get("/api/newsletter/approve/:id", async (req, res) => {
     try {
@@ -716,35 +1710,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Newsletter not found" });
       }
 
+      // The approved text is what goes out, so it's pinned in the history
+      await revisionService.record(newsletter, "Email Approval", "approved");
+
       await storage.createActivityLog({
         message: "Newsletter approved via email",
         details: `Newsletter "${newsletter.title}" has been approved`,
         type: "success"
       });
 
-      // Auto-publish if configured
+      // Auto-publish if configured; a failed attempt stays queued for retry
       const settings = await storage.getSettings();
-      if (settings?.beehiivApiKey && settings?.beehiivPublicationId) {
-        const beehiivService = new BeehiivService(settings.beehiivApiKey);
-        const result = await beehiivService.publishNewsletter(
-          settings.beehiivPublicationId, 
-          newsletter.title, 
-          newsletter.content
-        );
-
-        await storage.updateNewsletter(id, {
-          status: "published",
-          beehiivId: result.id,
-          beehiivUrl: result.web_url,
-          publishedAt: new Date()
+      let outcome = "approved";
+      const report = newsletter.verificationReport;
+      if (settings?.verificationBlocksPublish && verificationService.exceedsLimit(report, settings.verificationMaxFlags)) {
+        outcome = `approved, but not published: the fact check flagged ${report!.flagCount} issue(s), more than the ${settings.verificationMaxFlags ?? 0} allowed`;
+        await storage.createActivityLog({
+          message: "Auto-publish blocked by fact check",
+          details: `Newsletter "${newsletter.title}" has ${report!.flagCount} flag(s); publish it manually once reviewed`,
+          type: "warning"
         });
+      } else if (settings?.beehiivApiKey && settings?.beehiivPublicationId) {
+        const job = await jobQueueService.enqueueAndRun("publish", { newsletterId: id });
+        outcome = job.status === "completed"
+          ? "approved and published"
+          : job.status === "pending"
+            ? "approved; publishing failed and will be retried"
+            : "approved, but publishing failed";
       }
 
       res.send(`
         <html>
           <body style="font-family: Arial, sans-serif; max-width: 600px; margin: 50px auto; text-align: center;">
             <h2 style="color: #10b981;">Newsletter Approved Successfully!</h2>
-            <p>The newsletter "${newsletter.title}" has been approved and published.</p>
+            <p>The newsletter "${newsletter.title}" has been ${outcome}.</p>
             <p style="color: #666; margin-top: 30px;">You can close this window now.</p>
           </body>
         </html>
@@ -800,9 +1799,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Templates have to exist before the scheduler can generate anything
+  await templateService.seedBuiltIns().catch(error => console.error('Failed to seed newsletter templates:', error));
+  await revisionService.sanitizeStoredHtml().catch(error => console.error('Failed to sanitize stored newsletter HTML:', error));
+
   // Start the scheduler service
   schedulerService.start().catch(console.error);
 
+  // Start background refresh of enabled feed sources
+  feedRefreshService.start().catch(console.error);
+
+  // Work through queued generation, publishing and social jobs
+  jobQueueService.start().catch(console.error);
+
   const httpServer = createServer(app);
   return httpServer;
 }
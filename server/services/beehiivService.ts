@@ -66,13 +66,10 @@ export class BeehiivService {
   async publishNewsletter(
     publicationId: string,
     subject: string,
-    content: string,
+    htmlContent: string, // the issue in its email layout, from emailTemplateService
     tags?: string[]
   ): Promise<BeehiivPost> {
     try {
-      // Convert markdown content to HTML for Beehiiv
-      const htmlContent = this.convertMarkdownToHtml(content);
-
       const payload = {
         subject,
         content: htmlContent,
@@ -94,7 +91,7 @@ export class BeehiivService {
     } catch (error) {
       if (axios.isAxiosError(error)) {
         const errorMessage = error.response?.data?.message || error.message;
-        throw new Error(`Failed to publish newsletter: ${errorMessage}`);
+        throw new Error(`Failed to publish newsletter: ${errorMessage}`, { cause: error });
       }
       throw error;
     }
@@ -103,12 +100,10 @@ export class BeehiivService {
   async createDraft(
     publicationId: string,
     subject: string,
-    content: string,
+    htmlContent: string,
     tags?: string[]
   ): Promise<BeehiivPost> {
     try {
-      const htmlContent = this.convertMarkdownToHtml(content);
-
       const payload = {
         subject,
         content: htmlContent,
@@ -129,28 +124,9 @@ export class BeehiivService {
     } catch (error) {
       if (axios.isAxiosError(error)) {
         const errorMessage = error.response?.data?.message || error.message;
-        throw new Error(`Failed to create draft: ${errorMessage}`);
+        throw new Error(`Failed to create draft: ${errorMessage}`, { cause: error });
       }
       throw error;
     }
   }
-
-  private convertMarkdownToHtml(markdown: string): string {
-    // Basic markdown to HTML conversion
-    // In a production app, you might want to use a proper markdown parser
-    return markdown
-      .replace(/^# (.*$)/gim, '<h1>$1</h1>')
-      .replace(/^## (.*$)/gim, '<h2>$1</h2>')
-      .replace(/^### (.*$)/gim, '<h3>$1</h3>')
-      .replace(/\*\*(.*)\*\*/gim, '<strong>$1</strong>')
-      .replace(/\*(.*)\*/gim, '<em>$1</em>')
-      .replace(/\[([^\]]*)\]\(([^\)]*)\)/gim, '<a href="$2">$1</a>')
-      .replace(/\n\n/gim, '</p><p>')
-      .replace(/\n/gim, '<br>')
-      .replace(/^(.*)$/gim, '<p>$1</p>')
-      .replace(/<p><\/p>/gim, '')
-      .replace(/<p>(<h[1-6]>.*<\/h[1-6]>)<\/p>/gim, '$1')
-      .replace(/^- (.*$)/gim, '<li>$1</li>')
-      .replace(/(<li>.*<\/li>)/gims, '<ul>$1</ul>');
-  }
 }
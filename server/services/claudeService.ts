@@ -1,5 +1,6 @@
 import Anthropic from '@anthropic-ai/sdk';
 import { config } from '../config';
+import { structuredNewsletterSchema, TEMPLATE_PLACEHOLDER, type IssueSection, type StructuredNewsletter } from '@shared/schema';
 
 /*
 <important_code_snippet_instructions>
@@ -13,21 +14,118 @@ When copying code from this code snippet, ensure you also include this informati
 const DEFAULT_MODEL_STR = "claude-sonnet-4-20250514";
 // </important_do_not_delete>
 
+export interface StorySource {
+  articleId?: number; // lets structured output cite the article
+  title: string;
+  content?: string;
+  source: string;
+  author?: string;
+  publishedDate: Date;
+}
+
+// A single news story, possibly reported by several outlets
+export interface NewsletterStory {
+  headline: string;
+  sources: StorySource[];
+}
+
+// The prompt-shaping fields of a newsletter template
+export interface NewsletterPromptTemplate {
+  promptBody: string;
+  sections: string[] | null;
+  targetLength: string;
+  tone: string;
+  outputFormat: string;
+}
+
 export interface NewsletterGenerationOptions {
-  articles: Array<{
-    title: string;
-    content?: string;
-    source: string;
-    publishedDate: Date;
-  }>;
+  stories: NewsletterStory[];
+  template: NewsletterPromptTemplate;
+  instructions?: string; // per-issue editorial direction from the editor
   issueNumber: number;
   date: Date;
   newsletterTitle: string;
   temperature?: number;
   maxTokens?: number;
   model?: string;
+  onText?: (delta: string) => void; // called with each chunk of text as it streams in
+  signal?: AbortSignal;
+}
+
+export interface StructuredGenerationOptions extends Omit<NewsletterGenerationOptions, 'onText'> {
+  onSnapshot?: (partial: unknown) => void; // called with the partially parsed tool input as it streams in
+}
+
+// Stands in for the section being rewritten when the rest of the issue is shown to Claude
+export const SECTION_PLACEHOLDER = '[[SECTION TO REWRITE]]';
+
+export interface SectionRegenerationOptions {
+  issue: string; // the whole issue, with the section replaced by SECTION_PLACEHOLDER
+  section: IssueSection;
+  stories: NewsletterStory[];
+  template: Pick<NewsletterPromptTemplate, 'tone' | 'outputFormat'>;
+  instructions?: string;
+  newsletterTitle: string;
+  temperature?: number;
+  maxTokens?: number;
+  model?: string;
+}
+
+export interface RelevanceScoringOptions {
+  articles: Array<{
+    title: string;
+    content?: string;
+  }>;
+  topics: string[];
+  model?: string;
 }
 
+const OUTPUT_FORMATS: Record<string, string> = {
+  markdown: 'markdown format',
+  html: 'HTML (body content only, without <html>, <head> or <body> tags)',
+  plain: 'plain text with no markup',
+};
+
+const NEWSLETTER_TOOL: Anthropic.Tool = {
+  name: 'write_newsletter',
+  description: 'Deliver the finished newsletter as structured sections of cited items',
+  input_schema: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Newsletter title including the issue number' },
+      intro: { type: 'string', description: 'Opening paragraph(s); inline markdown only' },
+      sections: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            heading: { type: 'string' },
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  headline: { type: 'string' },
+                  summary: { type: 'string', description: 'One or more paragraphs; inline markdown only' },
+                  articleIds: {
+                    type: 'array',
+                    items: { type: 'integer' },
+                    description: 'Article IDs of every source story this item draws on',
+                  },
+                },
+                required: ['headline', 'summary', 'articleIds'],
+              },
+            },
+          },
+          required: ['heading', 'items'],
+        },
+      },
+      outro: { type: 'string', description: 'Closing paragraph; inline markdown only' },
+    },
+    required: ['title', 'intro', 'sections', 'outro'],
+  },
+};
+
 export class ClaudeService {
   private anthropic: Anthropic;
 
@@ -39,61 +137,152 @@ export class ClaudeService {
 
   async generateNewsletter(options: NewsletterGenerationOptions): Promise<string> {
     const {
-      articles,
-      issueNumber,
-      date,
+      template,
+      temperature = 0.7,
+      maxTokens = 4000,
+      model = DEFAULT_MODEL_STR,
+      onText,
+      signal
+    } = options;
+
+    const prompt = this.buildNewsletterPrompt(options, OUTPUT_FORMATS[template.outputFormat] || template.outputFormat, false);
+
+    try {
+      // Streamed so long issues don't hit request timeouts and callers can show progress
+      const stream = this.anthropic.messages.stream({
+        model,
+        max_tokens: maxTokens,
+        temperature: parseFloat(temperature.toString()),
+        messages: [
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+      }, { signal });
+
+      if (onText) {
+        stream.on('text', onText);
+      }
+
+      const response = await stream.finalMessage();
+      if (response.content[0]?.type === 'text') {
+        return response.content[0].text;
+      }
+
+      throw new Error('Unexpected response format from Claude API');
+    } catch (error) {
+      if (error instanceof Error) {
+        // Keep the SDK error as the cause so callers can tell rate limits and overloads from other failures
+        throw new Error(`Claude API error: ${error.message}`, { cause: error });
+      }
+      throw new Error('Unknown error occurred while generating newsletter');
+    }
+  }
+
+  // Same prompt, but the answer comes back through a tool call so every item can cite its articles
+  async generateStructuredNewsletter(options: StructuredGenerationOptions): Promise<StructuredNewsletter> {
+    const {
+      temperature = 0.7,
+      maxTokens = 4000,
+      model = DEFAULT_MODEL_STR,
+      onSnapshot,
+      signal
+    } = options;
+
+    const prompt = `${this.buildNewsletterPrompt(options, 'inline markdown inside the fields of the write_newsletter tool', true)}
+
+OUTPUT STRUCTURE:
+- Deliver the newsletter by calling the write_newsletter tool, not as plain text
+- Use the requested sections as section headings; each item covers one story
+- List the Article ID of every source an item draws on in its articleIds, using only IDs given above
+- Summaries may use bold, italics and links, but no headings or lists`;
+
+    try {
+      const stream = this.anthropic.messages.stream({
+        model,
+        max_tokens: maxTokens,
+        temperature: parseFloat(temperature.toString()),
+        tools: [NEWSLETTER_TOOL],
+        tool_choice: { type: 'tool', name: NEWSLETTER_TOOL.name },
+        messages: [
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+      }, { signal });
+
+      if (onSnapshot) {
+        stream.on('inputJson', (_delta, snapshot) => onSnapshot(snapshot));
+      }
+
+      const response = await stream.finalMessage();
+      const toolUse = response.content.find(block => block.type === 'tool_use');
+      if (!toolUse || toolUse.type !== 'tool_use') {
+        throw new Error('Claude did not return a structured newsletter');
+      }
+
+      const parsed = structuredNewsletterSchema.safeParse(toolUse.input);
+      if (!parsed.success) {
+        throw new Error(`Structured newsletter is malformed: ${parsed.error.issues[0]?.message || 'invalid shape'}`);
+      }
+      return parsed.data;
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Claude API error: ${error.message}`, { cause: error });
+      }
+      throw new Error('Unknown error occurred while generating newsletter');
+    }
+  }
+
+  // Rewrites one section of an issue; everything else in the issue is fixed context
+  async regenerateSection(options: SectionRegenerationOptions): Promise<string> {
+    const {
+      issue,
+      section,
+      stories,
+      template,
+      instructions,
       newsletterTitle,
       temperature = 0.7,
       maxTokens = 4000,
       model = DEFAULT_MODEL_STR
     } = options;
 
-    const dateString = date.toLocaleDateString('en-US', {
-      weekday: 'long',
-      year: 'numeric',
-      month: 'long',
-      day: 'numeric'
-    });
+    const roles: Record<IssueSection['role'], string> = {
+      intro: 'the introduction',
+      story: 'a story',
+      conclusion: 'the conclusion',
+    };
+    const format = OUTPUT_FORMATS[template.outputFormat] || template.outputFormat;
 
-    const articlesText = articles.map((article, index) => 
-      `Article ${index + 1}:
-Title: ${article.title}
-Source: ${article.source}
-Published: ${article.publishedDate.toLocaleDateString()}
-Content: ${article.content || 'No content available'}
+    let prompt = `You are revising one section of an issue of the ${newsletterTitle} newsletter. The rest of the issue is final and will not change.
 
----`
-    ).join('\n\n');
+THE ISSUE (the section to rewrite is marked ${SECTION_PLACEHOLDER}):
+${issue}
 
-    const prompt = `You are an expert AI newsletter writer. Create a professional, engaging newsletter from the provided AI news articles.
+THE SECTION TO REWRITE, ${roles[section.role]}${section.heading ? ` under the heading "${section.heading}"` : ''}:
+${section.text}
 
-NEWSLETTER DETAILS:
-- Title: ${newsletterTitle}
-- Issue Number: #${issueNumber}
-- Date: ${dateString}
+SOURCE ARTICLES:
+${this.formatStories(stories, false)}
 
-FORMAT REQUIREMENTS:
-- Write in markdown format
-- Start with an attractive header including the newsletter title, issue number, and date
-- Include a brief introduction/executive summary
-- Organize content into logical sections (e.g., "🚀 This Week's Highlights", "📈 Industry Developments", "💡 Key Insights")
-- Use appropriate emojis and formatting for readability
-- End with a brief conclusion or forward-looking statement
-- Keep the tone professional but engaging
-- Target length: 600-1000 words
+Write a replacement for that section only:
+- Fit it into the issue where the marker is, without repeating what other sections already say
+- Keep roughly the same length and the ${template.tone} tone of the rest of the issue
+- Only state facts found in the source articles, and keep links to them
+- Format: ${format}
+- Leave out the heading; it stays as it is
 
-SOURCE ARTICLES:
-${articlesText}
+Respond with only the replacement text, without any preamble or commentary.`;
 
-WRITING GUIDELINES:
-- Synthesize information from multiple articles where relevant
-- Highlight the most important developments
-- Provide context and analysis, not just summaries
-- Use clear, concise language
-- Include actionable insights where possible
-- Maintain objectivity while being engaging
+    if (instructions) {
+      prompt += `
 
-Generate the complete newsletter now:`;
+EDITORIAL INSTRUCTIONS FOR THIS SECTION (these take priority over the guidelines above):
+${instructions}`;
+    }
 
     try {
       const response = await this.anthropic.messages.create({
@@ -108,16 +297,71 @@ Generate the complete newsletter now:`;
         ],
       });
 
-      if (response.content[0].type === 'text') {
-        return response.content[0].text;
+      if (response.content[0]?.type !== 'text') {
+        throw new Error('Unexpected response format from Claude API');
       }
 
-      throw new Error('Unexpected response format from Claude API');
+      // Replies sometimes come wrapped in a code fence despite the instructions
+      const text = response.content[0].text.trim().replace(/^```[\w-]*\n([\s\S]*?)\n```$/, '$1').trim();
+      if (!text) {
+        throw new Error('Claude returned an empty section');
+      }
+      return text;
     } catch (error) {
       if (error instanceof Error) {
-        throw new Error(`Claude API error: ${error.message}`);
+        throw new Error(`Claude API error: ${error.message}`, { cause: error });
       }
-      throw new Error('Unknown error occurred while generating newsletter');
+      throw new Error('Unknown error occurred while regenerating section');
+    }
+  }
+
+  // Rates each article 0-10 for newsletter relevance; returns one score per article, in order
+  async scoreRelevance(options: RelevanceScoringOptions): Promise<number[]> {
+    const { articles, topics, model = DEFAULT_MODEL_STR } = options;
+    if (articles.length === 0) return [];
+
+    const articlesText = articles.map((article, index) =>
+      `${index + 1}. ${article.title}\n${(article.content || '').slice(0, 500)}`
+    ).join('\n\n');
+
+    const prompt = `You are screening news articles for an AI newsletter.${topics.length > 0 ? ` Readers care most about: ${topics.join(', ')}.` : ''}
+
+Rate how important and relevant each article below is for the newsletter on a scale of 0 (irrelevant) to 10 (must include).
+
+ARTICLES:
+${articlesText}
+
+Respond with only a JSON array of ${articles.length} integers, one per article in the same order, for example [7, 2, 9].`;
+
+    try {
+      const response = await this.anthropic.messages.create({
+        model,
+        max_tokens: 20 + articles.length * 4,
+        temperature: 0,
+        messages: [
+          {
+            role: 'user',
+            content: prompt
+          }
+        ],
+      });
+
+      if (response.content[0].type !== 'text') {
+        throw new Error('Unexpected response format from Claude API');
+      }
+
+      const match = response.content[0].text.match(/\[[\d\s,.]*\]/);
+      const scores: unknown = match ? JSON.parse(match[0]) : null;
+      if (!Array.isArray(scores) || scores.length !== articles.length) {
+        throw new Error('Claude returned an unexpected number of scores');
+      }
+
+      return scores.map(score => Math.max(0, Math.min(10, Number(score) || 0)));
+    } catch (error) {
+      if (error instanceof Error) {
+        throw new Error(`Claude API error: ${error.message}`, { cause: error });
+      }
+      throw new Error('Unknown error occurred while scoring articles');
     }
   }
 
@@ -139,4 +383,76 @@ Generate the complete newsletter now:`;
       return false;
     }
   }
+
+  private buildNewsletterPrompt(options: NewsletterGenerationOptions, format: string, withArticleIds: boolean): string {
+    const {
+      stories,
+      template,
+      instructions,
+      issueNumber,
+      date,
+      newsletterTitle
+    } = options;
+
+    const dateString = date.toLocaleDateString('en-US', {
+      weekday: 'long',
+      year: 'numeric',
+      month: 'long',
+      day: 'numeric'
+    });
+
+    const values: Record<string, string> = {
+      title: newsletterTitle,
+      issueNumber: String(issueNumber),
+      date: dateString,
+      articles: this.formatStories(stories, withArticleIds),
+      sections: template.sections?.length
+        ? template.sections.map(section => `"${section}"`).join(', ')
+        : 'logical sections of your choosing',
+      targetLength: template.targetLength,
+      tone: template.tone,
+      format,
+      instructions: instructions || '',
+    };
+    // Unknown placeholders are left as written so typos are visible in the output
+    let prompt = template.promptBody.replace(TEMPLATE_PLACEHOLDER, (match, key) => values[key] ?? match);
+
+    // Templates without an {{instructions}} slot get them appended, ranked above the template's own guidance
+    const placeholders = Array.from(template.promptBody.matchAll(TEMPLATE_PLACEHOLDER), match => match[1]);
+    if (instructions && !placeholders.includes('instructions')) {
+      prompt += `
+
+EDITORIAL INSTRUCTIONS FOR THIS ISSUE (these take priority over the guidelines above):
+${instructions}`;
+    }
+
+    return prompt;
+  }
+
+  private formatStories(stories: NewsletterStory[], withArticleIds: boolean): string {
+    const formatSource = (source: StorySource) =>
+      `${withArticleIds && source.articleId !== undefined ? `Article ID: ${source.articleId}\n` : ''}Title: ${source.title}
+Source: ${source.source}${source.author ? `\nAuthor: ${source.author}` : ''}
+Published: ${source.publishedDate.toLocaleDateString()}
+Content: ${source.content || 'No content available'}`;
+
+    return stories.map((story, index) => {
+      if (story.sources.length === 1) {
+        return `Story ${index + 1}:
+${formatSource(story.sources[0])}
+
+---`;
+      }
+
+      const coverage = story.sources.map((source, sourceIndex) =>
+        `Report ${sourceIndex + 1} of ${story.sources.length}:
+${formatSource(source)}`
+      ).join('\n\n');
+
+      return `Story ${index + 1}: ${story.headline} (reported by ${story.sources.length} sources)
+${coverage}
+
+---`;
+    }).join('\n\n');
+  }
 }
@@ -0,0 +1,127 @@
+import type { Article } from '@shared/schema';
+import type { NewsletterStory } from './claudeService';
+
+export interface StoryCluster {
+  id: number; // id of the lead article
+  title: string;
+  articles: Article[];
+}
+
+type TermVector = Map<string, number>;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'for', 'from', 'has', 'have', 'how', 'in',
+  'into', 'is', 'it', 'its', 'new', 'of', 'on', 'or', 'our', 'says', 'that', 'the', 'their', 'this', 'to',
+  'was', 'we', 'what', 'when', 'which', 'who', 'will', 'with', 'you', 'your',
+]);
+
+// Only the opening of the body is compared; long articles drift off topic
+const MAX_CONTENT_TOKENS = 200;
+// Titles carry most of the signal, so their terms count this many times
+const TITLE_WEIGHT = 2;
+
+function tokenize(text: string): string[] {
+  return text
+    .replace(/<[^>]*>/g, ' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 1 && !STOP_WORDS.has(token));
+}
+
+function cosine(a: TermVector, b: TermVector): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  a.forEach((weight, term) => {
+    normA += weight * weight;
+    const other = b.get(term);
+    if (other !== undefined) dot += weight * other;
+  });
+  b.forEach(weight => {
+    normB += weight * weight;
+  });
+  return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+function addInto(target: TermVector, vector: TermVector) {
+  vector.forEach((weight, term) => target.set(term, (target.get(term) || 0) + weight));
+}
+
+export class ClusteringService {
+  constructor(private similarityThreshold = 0.3) {}
+
+  // Greedy centroid clustering over TF-IDF vectors; input order decides each cluster's lead article
+  cluster(articles: Article[]): StoryCluster[] {
+    const vectors = this.vectorize(articles);
+    const groups: Array<{ articles: Article[]; centroid: TermVector }> = [];
+
+    articles.forEach((article, index) => {
+      const vector = vectors[index];
+      let best: { group: typeof groups[number]; similarity: number } | null = null;
+
+      for (const group of groups) {
+        const similarity = cosine(vector, group.centroid);
+        if (similarity >= this.similarityThreshold && (!best || similarity > best.similarity)) {
+          best = { group, similarity };
+        }
+      }
+
+      if (best) {
+        best.group.articles.push(article);
+        addInto(best.group.centroid, vector);
+      } else {
+        groups.push({ articles: [article], centroid: new Map(vector) });
+      }
+    });
+
+    return groups.map(group => ({
+      id: group.articles[0].id,
+      title: group.articles[0].title,
+      articles: group.articles,
+    }));
+  }
+
+  // One prompt story per cluster, with each member article as a separate source
+  toStories(articles: Article[]): NewsletterStory[] {
+    return this.cluster(articles).map(cluster => ({
+      headline: cluster.title,
+      sources: cluster.articles.map(article => ({
+        articleId: article.id,
+        title: article.title,
+        content: article.fullContent || article.content || undefined,
+        source: article.source,
+        author: article.author || undefined,
+        publishedDate: article.publishedDate,
+      })),
+    }));
+  }
+
+  private vectorize(articles: Article[]): TermVector[] {
+    const termCounts = articles.map(article => {
+      const counts: TermVector = new Map();
+      const add = (token: string, weight: number) => counts.set(token, (counts.get(token) || 0) + weight);
+      tokenize(article.title).forEach(token => add(token, TITLE_WEIGHT));
+      tokenize(article.content || '').slice(0, MAX_CONTENT_TOKENS).forEach(token => add(token, 1));
+      return counts;
+    });
+
+    const documentFrequency = new Map<string, number>();
+    termCounts.forEach(counts => {
+      counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    });
+
+    // Smoothed IDF so terms shared by every article in a small batch still count a little
+    const total = articles.length;
+    return termCounts.map(counts => {
+      const vector: TermVector = new Map();
+      counts.forEach((count, term) => {
+        const idf = Math.log((1 + total) / (1 + (documentFrequency.get(term) || 0))) + 1;
+        vector.set(term, count * idf);
+      });
+      return vector;
+    });
+  }
+}
+
+export const clusteringService = new ClusteringService();
@@ -0,0 +1,134 @@
+import { storage } from '../storage';
+import type { Article, InsertArticle } from '@shared/schema';
+
+export interface IngestResult {
+  article: Article;
+  merged: boolean;
+}
+
+// Query parameters that only carry tracking information
+const TRACKING_PARAMS = /^(utm_.*|fbclid|gclid|mc_cid|mc_eid|ref|ref_src)$/i;
+
+export function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url.trim());
+    parsed.hash = '';
+    parsed.hostname = parsed.hostname.toLowerCase().replace(/^www\./, '');
+
+    for (const key of Array.from(parsed.searchParams.keys())) {
+      if (TRACKING_PARAMS.test(key)) {
+        parsed.searchParams.delete(key);
+      }
+    }
+    parsed.searchParams.sort();
+    parsed.pathname = parsed.pathname.replace(/\/+$/, '') || '/';
+
+    return parsed.toString().replace(/\/$/, '');
+  } catch {
+    return url.trim();
+  }
+}
+
+function titleTokens(title: string): string[] {
+  return title
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, ' ')
+    .split(/\s+/)
+    .filter(token => token.length > 0);
+}
+
+// Dice coefficient over word tokens: 1 for identical titles, 0 for no overlap
+export function titleSimilarity(a: string, b: string): number {
+  const tokensA = new Set(titleTokens(a));
+  const tokensB = new Set(titleTokens(b));
+  if (tokensA.size === 0 || tokensB.size === 0) return 0;
+
+  let shared = 0;
+  tokensA.forEach(token => {
+    if (tokensB.has(token)) shared++;
+  });
+
+  return (2 * shared) / (tokensA.size + tokensB.size);
+}
+
+export class DeduplicationSession {
+  private articles: Article[]; // recent articles, the only ones compared by title
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(recentArticles: Article[], private similarityThreshold: number) {
+    this.articles = recentArticles;
+  }
+
+  // Ingests run one at a time so concurrent feeds can't both insert the same story
+  ingest(article: InsertArticle): Promise<IngestResult> {
+    const result = this.queue.then(() => this.ingestArticle(article));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async ingestArticle(article: InsertArticle): Promise<IngestResult> {
+    const canonicalUrl = normalizeUrl(article.url);
+    const duplicate = await storage.getArticleByCanonicalUrl(canonicalUrl) || this.findSimilarTitle(article.title);
+
+    if (duplicate) {
+      const merged = await this.merge(duplicate, article);
+      return { article: merged, merged: true };
+    }
+
+    const created = await storage.createArticle({
+      ...article,
+      canonicalUrl,
+      contributingSources: [article.source],
+    });
+    this.articles.push(created);
+    return { article: created, merged: false };
+  }
+
+  private findSimilarTitle(title: string): Article | undefined {
+    // Very short titles collide too easily, so only exact matches count
+    const minTokens = 4;
+    const isShort = titleTokens(title).length < minTokens;
+
+    return this.articles.find(existing => {
+      const similarity = titleSimilarity(existing.title, title);
+      return isShort ? similarity === 1 : similarity >= this.similarityThreshold;
+    });
+  }
+
+  private async merge(existing: Article, incoming: InsertArticle): Promise<Article> {
+    const sources = existing.contributingSources?.length ? existing.contributingSources : [existing.source];
+    const contributingSources = sources.includes(incoming.source) ? sources : [...sources, incoming.source];
+
+    const existingContent = existing.content || '';
+    const incomingContent = incoming.content || '';
+    const incomingDate = new Date(incoming.publishedDate);
+
+    const updates: Partial<Article> = {
+      contributingSources,
+      content: incomingContent.length > existingContent.length ? incomingContent : existing.content,
+      publishedDate: incomingDate < new Date(existing.publishedDate) ? incomingDate : existing.publishedDate,
+      author: existing.author || incoming.author || null,
+      imageUrl: existing.imageUrl || incoming.imageUrl || null,
+      categories: Array.from(new Set([...(existing.categories || []), ...(incoming.categories || [])])),
+    };
+
+    const updated = await storage.updateArticle(existing.id, updates) || { ...existing, ...updates };
+    const index = this.articles.findIndex(article => article.id === existing.id);
+    if (index >= 0) this.articles[index] = updated;
+    return updated;
+  }
+}
+
+export class DeduplicationService {
+  // URLs are matched across the whole library through the canonical URL index; titles only
+  // against articles published in the last titleWindowDays, since a story isn't re-reported months later
+  constructor(private similarityThreshold = 0.8, private titleWindowDays = 14) {}
+
+  async createSession(): Promise<DeduplicationSession> {
+    const from = new Date(Date.now() - this.titleWindowDays * 24 * 60 * 60 * 1000);
+    const { articles: recentArticles } = await storage.queryArticles({ from });
+    return new DeduplicationSession(recentArticles, this.similarityThreshold);
+  }
+}
+
+export const deduplicationService = new DeduplicationService();
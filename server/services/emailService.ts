@@ -9,6 +9,12 @@ export interface EmailOptions {
 }
 
 import { config } from '../config';
+import { emailTemplateService } from './emailTemplateService';
+import type { Newsletter, Settings, VerificationReport } from '@shared/schema';
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
 
 export class EmailService {
   private mailService: MailService;
@@ -27,45 +33,36 @@ export class EmailService {
 
   async sendApprovalEmail(
     to: string,
-    newsletterTitle: string,
-    content: string,
-    newsletterId: number,
+    newsletter: Newsletter,
+    settings: Settings,
     baseUrl: string = 'http://localhost:5000'
   ): Promise<boolean> {
     try {
-      const approvalUrl = `${baseUrl}/api/newsletter/approve/${newsletterId}`;
-      const rejectUrl = `${baseUrl}/api/newsletter/reject/${newsletterId}`;
-      
-      const htmlContent = `
-        <div style="font-family: Arial, sans-serif; max-width: 600px; margin: 0 auto;">
-          <h2 style="color: #333;">Newsletter Approval Required</h2>
-          <p>A new newsletter has been generated and is awaiting your approval:</p>
-          
-          <div style="background: #f5f5f5; padding: 20px; margin: 20px 0; border-radius: 8px;">
-            <h3 style="margin-top: 0;">${newsletterTitle}</h3>
-            <div style="max-height: 300px; overflow-y: auto; background: white; padding: 15px; border-radius: 4px;">
-              ${content.replace(/\n/g, '<br>')}
-            </div>
-          </div>
-          
-          <div style="text-align: center; margin: 30px 0;">
-            <a href="${approvalUrl}" style="background: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 0 10px; display: inline-block;">Approve & Publish</a>
-            <a href="${rejectUrl}" style="background: #ef4444; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 0 10px; display: inline-block;">Reject</a>
-          </div>
-          
-          <p style="color: #666; font-size: 14px;">
-            This email was sent from your AI Newsletter Automation Hub. 
-            If you didn't expect this email, please contact your system administrator.
-          </p>
-        </div>
-      `;
+      const approvalUrl = `${baseUrl}/api/newsletter/approve/${newsletter.id}`;
+      const rejectUrl = `${baseUrl}/api/newsletter/reject/${newsletter.id}`;
+
+      // The approver sees the issue exactly as subscribers will, with the request above it
+      const bannerHtml = `
+              <div style="background: #f5f5f5; padding: 20px; border-radius: 8px; font-family: Arial, sans-serif;">
+                <h2 style="margin-top: 0; color: #333;">Newsletter Approval Required</h2>
+                <p style="color: #333;">"${escapeHtml(newsletter.title)}" has been generated and is awaiting your approval.</p>
+                ${this.renderVerification(newsletter.verificationReport)}
+                <div style="text-align: center; margin: 20px 0 0;">
+                  <a href="${approvalUrl}" style="background: #10b981; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 0 10px; display: inline-block;">Approve & Publish</a>
+                  <a href="${rejectUrl}" style="background: #ef4444; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; margin: 0 10px; display: inline-block;">Reject</a>
+                </div>
+              </div>`;
+      const email = emailTemplateService.render(newsletter, settings, {
+        bannerHtml,
+        bannerText: `A new newsletter "${newsletter.title}" is awaiting approval.\nApprove: ${approvalUrl}\nReject: ${rejectUrl}`,
+      });
 
       await this.mailService.send({
         to,
         from: 'noreply@newsletter-automation.com', // This should be configured
-        subject: `Newsletter Approval Required: ${newsletterTitle}`,
-        text: `A new newsletter "${newsletterTitle}" is awaiting approval. Visit ${approvalUrl} to approve or ${rejectUrl} to reject.`,
-        html: htmlContent,
+        subject: `Newsletter Approval Required: ${newsletter.title}`,
+        text: email.text,
+        html: email.html,
       });
 
       return true;
@@ -75,6 +72,25 @@ export class EmailService {
     }
   }
 
+  // Lets the approver see what the fact check couldn't trace back to a source before approving
+  private renderVerification(report?: VerificationReport | null): string {
+    if (!report) return '';
+    if (report.flagCount === 0) {
+      return `<p style="color: #10b981;">Fact check: all ${report.claimCount} claims with figures or names were found in the source articles.</p>`;
+    }
+
+    const claims = report.flaggedClaims.map(claim =>
+      `<li>${escapeHtml(claim.text)}<br><span style="color: #b45309;">Not in sources: ${escapeHtml(claim.unsupported.join(', '))}</span></li>`
+    );
+    const urls = report.unknownUrls.map(url => `<li>Link not among the issue's articles: ${escapeHtml(url)}</li>`);
+
+    return `
+          <div style="background: #fffbeb; border: 1px solid #f59e0b; padding: 15px 20px; margin: 20px 0; border-radius: 8px;">
+            <h3 style="margin-top: 0; color: #b45309;">Fact check: ${report.flagCount} item(s) to review</h3>
+            <ul style="padding-left: 20px;">${[...claims, ...urls].join('')}</ul>
+          </div>`;
+  }
+
   async testConnection(): Promise<boolean> {
     try {
       // Send a test email to verify the connection
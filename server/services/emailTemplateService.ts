@@ -0,0 +1,172 @@
+import { markdownService } from './markdownService';
+import type { Newsletter, Settings } from '@shared/schema';
+
+export type EmailIssue = Pick<Newsletter, 'title' | 'issueNumber' | 'date' | 'content' | 'htmlContent'>;
+export type EmailLayoutSettings = Pick<
+  Settings,
+  'newsletterTitle' | 'emailLayout' | 'emailLogoUrl' | 'emailAccentColor' | 'emailFooterText' | 'emailUnsubscribeUrl'
+>;
+
+export interface EmailRenderOptions {
+  bannerHtml?: string; // shown above the issue, e.g. an approval request; must already be safe, inline-styled HTML
+  bannerText?: string;
+}
+
+export interface RenderedEmail {
+  html: string;
+  text: string; // plain-text alternative for clients that don't show HTML
+}
+
+const DEFAULT_ACCENT = '#2563eb';
+const DEFAULT_UNSUBSCRIBE_URL = '{{unsubscribe_url}}';
+const FONT_STACK = "-apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif";
+
+// Email clients ignore most <style> rules, so every tag the renderer emits carries its own styles.
+// {accent} is replaced with the configured color.
+const CONTENT_STYLES: Record<string, string> = {
+  h1: 'margin: 0 0 16px; font-size: 26px; line-height: 1.3; color: #0f172a;',
+  h2: 'margin: 32px 0 12px; padding-bottom: 6px; border-bottom: 2px solid {accent}; font-size: 20px; line-height: 1.35; color: #0f172a;',
+  h3: 'margin: 24px 0 8px; font-size: 17px; line-height: 1.4; color: #0f172a;',
+  h4: 'margin: 20px 0 8px; font-size: 15px; line-height: 1.4; color: #0f172a;',
+  h5: 'margin: 20px 0 8px; font-size: 15px; line-height: 1.4; color: #0f172a;',
+  h6: 'margin: 20px 0 8px; font-size: 15px; line-height: 1.4; color: #0f172a;',
+  p: 'margin: 0 0 16px; font-size: 16px; line-height: 1.6; color: #334155;',
+  a: 'color: {accent}; text-decoration: underline;',
+  ul: 'margin: 0 0 16px; padding-left: 24px; color: #334155;',
+  ol: 'margin: 0 0 16px; padding-left: 24px; color: #334155;',
+  li: 'margin: 0 0 8px; font-size: 16px; line-height: 1.6;',
+  blockquote: 'margin: 0 0 16px; padding: 8px 16px; border-left: 4px solid {accent}; color: #475569;',
+  pre: 'margin: 0 0 16px; padding: 12px; background-color: #f1f5f9; border-radius: 4px; overflow-x: auto;',
+  code: "font-family: Menlo, Consolas, 'Courier New', monospace; font-size: 14px;",
+  img: 'display: block; max-width: 100%; height: auto; border: 0;',
+  hr: 'margin: 24px 0; border: 0; border-top: 1px solid #e2e8f0;',
+  table: 'border-collapse: collapse; margin: 0 0 16px;',
+  th: 'padding: 6px 10px; border: 1px solid #e2e8f0; text-align: left;',
+  td: 'padding: 6px 10px; border: 1px solid #e2e8f0;',
+};
+
+// Clients that support media queries (Apple Mail, iOS, Outlook.com via data-ogsc) get a dark palette
+const DARK_MODE_CSS = `
+    :root { color-scheme: light dark; supported-color-schemes: light dark; }
+    @media (prefers-color-scheme: dark) {
+      .email-bg { background-color: #0f172a !important; }
+      .email-card { background-color: #1e293b !important; }
+      .email-card h1, .email-card h2, .email-card h3, .email-card h4, .email-card h5, .email-card h6 { color: #f1f5f9 !important; }
+      .email-card p, .email-card li, .email-card blockquote, .email-card ul, .email-card ol { color: #cbd5e1 !important; }
+      .email-card pre { background-color: #0f172a !important; }
+      .email-header-minimal { background-color: #1e293b !important; }
+      .email-header-minimal .email-title { color: #f1f5f9 !important; }
+      .email-footer p { color: #94a3b8 !important; }
+    }
+    [data-ogsc] .email-bg { background-color: #0f172a !important; }
+    [data-ogsc] .email-card { background-color: #1e293b !important; }
+    [data-ogsc] .email-card p, [data-ogsc] .email-card li { color: #cbd5e1 !important; }`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+export class EmailTemplateService {
+  // Wraps an issue in the configured email layout; used for everything that leaves the app
+  render(issue: EmailIssue, settings: EmailLayoutSettings, options: EmailRenderOptions = {}): RenderedEmail {
+    const title = settings.newsletterTitle || 'AI Weekly';
+    const accent = /^#[0-9a-f]{3}(?:[0-9a-f]{3})?$/i.test(settings.emailAccentColor || '') ? settings.emailAccentColor! : DEFAULT_ACCENT;
+    const layout = settings.emailLayout === 'minimal' ? 'minimal' : 'branded';
+    const dateString = new Date(issue.date).toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' });
+    const issueLine = `Issue #${issue.issueNumber} · ${dateString}`;
+    const footerText = settings.emailFooterText?.trim() || `You're receiving this because you subscribed to ${title}.`;
+    const unsubscribeUrl = settings.emailUnsubscribeUrl?.trim() || DEFAULT_UNSUBSCRIBE_URL;
+
+    const contentHtml = issue.htmlContent || markdownService.render(issue.content);
+    const contentText = markdownService.toText(contentHtml);
+
+    const html = `<!DOCTYPE html>
+<html lang="en" xmlns="http://www.w3.org/1999/xhtml">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1">
+  <meta name="x-apple-disable-message-reformatting">
+  <meta name="color-scheme" content="light dark">
+  <meta name="supported-color-schemes" content="light dark">
+  <title>${escapeHtml(issue.title)}</title>
+  <style>${DARK_MODE_CSS}
+  </style>
+</head>
+<body style="margin: 0; padding: 0; background-color: #f1f5f9;">
+  <div style="display: none; max-height: 0; overflow: hidden; opacity: 0;">${escapeHtml(this.preheader(contentText))}</div>
+  <table role="presentation" class="email-bg" width="100%" cellpadding="0" cellspacing="0" border="0" style="background-color: #f1f5f9;">
+    <tr>
+      <td align="center" style="padding: 24px 12px;">
+        <table role="presentation" class="email-card" width="600" cellpadding="0" cellspacing="0" border="0" style="width: 100%; max-width: 600px; background-color: #ffffff; border-radius: 8px; font-family: ${FONT_STACK};">
+${options.bannerHtml ? `          <tr>
+            <td style="padding: 24px 32px 0;">${options.bannerHtml}</td>
+          </tr>
+` : ''}          <tr>
+            ${this.header(layout, title, issueLine, accent, settings.emailLogoUrl)}
+          </tr>
+          <tr>
+            <td style="padding: 32px;">
+${this.inlineStyles(contentHtml, accent)}
+            </td>
+          </tr>
+          <tr>
+            <td class="email-footer" style="padding: 24px 32px; border-top: 1px solid #e2e8f0;">
+              <p style="margin: 0 0 8px; font-size: 13px; line-height: 1.5; color: #64748b;">${escapeHtml(footerText).replace(/\n/g, '<br>')}</p>
+              <p style="margin: 0; font-size: 13px; line-height: 1.5; color: #64748b;"><a href="${escapeHtml(unsubscribeUrl)}" style="color: #64748b; text-decoration: underline;">Unsubscribe</a></p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>`;
+
+    const text = [
+      options.bannerText?.trim(),
+      `${title}\n${issueLine}`,
+      contentText,
+      `---\n${footerText}\nUnsubscribe: ${unsubscribeUrl}`,
+    ].filter(Boolean).join('\n\n');
+
+    return { html, text };
+  }
+
+  private header(layout: 'branded' | 'minimal', title: string, issueLine: string, accent: string, logoUrl?: string | null): string {
+    const branded = layout === 'branded';
+    const titleColor = branded ? '#ffffff' : '#0f172a';
+    const lineColor = branded ? 'rgba(255, 255, 255, 0.85)' : '#64748b';
+    const logo = logoUrl && /^https?:\/\//i.test(logoUrl.trim())
+      ? `<img src="${escapeHtml(logoUrl.trim())}" alt="${escapeHtml(title)}" width="160" style="display: block; max-width: 160px; height: auto; border: 0; margin-bottom: 8px;">`
+      : `<p class="email-title" style="margin: 0 0 4px; font-size: 24px; font-weight: 700; color: ${titleColor};">${escapeHtml(title)}</p>`;
+
+    const style = branded
+      ? `padding: 28px 32px; background-color: ${accent}; border-radius: 8px 8px 0 0;`
+      : `padding: 28px 32px 20px; background-color: #ffffff; border-bottom: 3px solid ${accent};`;
+
+    return `<td class="${branded ? 'email-header' : 'email-header-minimal'}" style="${style}">
+              ${logo}
+              <p style="margin: 0; font-size: 14px; color: ${lineColor};">${escapeHtml(issueLine)}</p>
+            </td>`;
+  }
+
+  // Renderer output has no style attributes of its own, so each known tag just gains one
+  private inlineStyles(html: string, accent: string): string {
+    return html.replace(/<(h[1-6]|p|a|ul|ol|li|blockquote|pre|code|img|hr|table|th|td)(\s[^>]*?)?\s*(\/?)>/g, (match, tag: string, attrs = '', selfClosing: string) => {
+      const style = CONTENT_STYLES[tag];
+      return style ? `<${tag}${attrs.trimEnd()} style="${style.replace(/\{accent\}/g, accent)}"${selfClosing ? ' /' : ''}>` : match;
+    });
+  }
+
+  // The snippet inboxes show next to the subject line
+  private preheader(text: string): string {
+    const body = text.split('\n').slice(1).join(' ').replace(/\s+/g, ' ').trim();
+    return body.length > 140 ? `${body.slice(0, 137)}...` : body;
+  }
+}
+
+export const emailTemplateService = new EmailTemplateService();
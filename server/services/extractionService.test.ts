@@ -0,0 +1,144 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { ExtractionService, extractReadableText, type ExtractionOptions } from './extractionService';
+
+vi.mock('axios', () => ({ default: { get: vi.fn() } }));
+vi.mock('../storage', () => ({ storage: {} }));
+
+const fixture = (name: string) =>
+  readFileSync(path.join(import.meta.dirname, '__fixtures__', 'extraction', name), 'utf8');
+
+const options = (overrides: Partial<ExtractionOptions> = {}): ExtractionOptions => ({
+  maxChars: 20000,
+  allowedDomains: [],
+  blockedDomains: [],
+  ...overrides,
+});
+
+describe('extractReadableText', () => {
+  it('keeps the article body and drops page chrome', () => {
+    const text = extractReadableText(fixture('news-article.html'), 20000)!;
+
+    expect(text).toContain('Three of the largest chip designers announced dedicated inference accelerators');
+    expect(text).toContain('Why it matters');
+    expect(text).toContain('traffic & demand spikes');
+    expect(text).toContain('“Inference is where the money is going to be made for the next decade,” one executive said.');
+
+    for (const boilerplate of [
+      'Artificial intelligence and machine learning coverage', // nav
+      'Not article text', // script
+      'Editor note', // comment
+      'Related: Why memory bandwidth', // aside
+      'Sign up for our newsletter', // form
+      'Copyright 2025', // footer
+      'Home / Hardware', // outside the hinted body
+      'By Dana Whitfield', // outside the hinted body
+    ]) {
+      expect(text).not.toContain(boilerplate);
+    }
+  });
+
+  it('prefers the hinted body container and reads it block by block', () => {
+    const blocks = extractReadableText(fixture('news-article.html'), 20000)!.split('\n\n');
+
+    expect(blocks[0]).toMatch(/^Three of the largest chip designers/);
+    // <br> becomes a space rather than gluing words together
+    expect(blocks[1]).toBe('The new parts trade raw floating point throughput for memory bandwidth, which analysts say is the real bottleneck when a model answers millions of requests a day.');
+    // A paragraph inside a list item appears once
+    expect(blocks.filter(block => block.includes('Lower latency for chat products'))).toHaveLength(1);
+    // Paragraphs under the minimum length are noise, headings are kept regardless
+    expect(blocks).not.toContain('Too short.');
+    expect(blocks).not.toContain('Short aside.');
+  });
+
+  it('falls back to <main> when no body hint is present', () => {
+    const text = extractReadableText(fixture('blog-post.html'), 20000)!;
+
+    expect(text.split('\n\n')[0]).toBe('Notes on evaluating retrieval pipelines');
+    expect(text).toContain('recall@5 0.61 -> 0.74');
+    expect(text).toContain('The takeaway: measure the whole pipeline');
+    expect(text).not.toContain('We use cookies');
+    expect(text).not.toContain('About the author');
+  });
+
+  it('returns null when the page has too little text to be the article', () => {
+    expect(extractReadableText(fixture('teaser.html'), 20000)).toBeNull();
+    expect(extractReadableText('', 20000)).toBeNull();
+  });
+
+  it('caps the size at a paragraph boundary', () => {
+    const full = extractReadableText(fixture('news-article.html'), 20000)!;
+    const blocks = full.split('\n\n');
+    const twoBlocks = `${blocks[0]}\n\n${blocks[1]}`;
+
+    expect(extractReadableText(fixture('news-article.html'), twoBlocks.length + 10)).toBe(twoBlocks);
+  });
+
+  it('cuts a single oversized paragraph at the cap', () => {
+    const paragraph = 'word '.repeat(200).trim();
+    const text = extractReadableText(`<article><p>${paragraph}</p></article>`, 300)!;
+
+    expect(text).toHaveLength(300);
+    expect(paragraph.startsWith(text)).toBe(true);
+  });
+});
+
+describe('ExtractionService', () => {
+  const service = new ExtractionService();
+  const get = vi.mocked(axios.get);
+
+  beforeEach(() => {
+    get.mockReset();
+  });
+
+  it('allows every domain when no allow list is set', () => {
+    expect(service.isDomainAllowed('https://news.example.com/a', options())).toBe(true);
+  });
+
+  it('matches allowed domains including their subdomains', () => {
+    const allowList = options({ allowedDomains: ['example.com', '*.techdaily.io'] });
+
+    expect(service.isDomainAllowed('https://example.com/a', allowList)).toBe(true);
+    expect(service.isDomainAllowed('https://blog.example.com/a', allowList)).toBe(true);
+    expect(service.isDomainAllowed('https://www.techdaily.io/a', allowList)).toBe(true);
+    expect(service.isDomainAllowed('https://notexample.com/a', allowList)).toBe(false);
+    expect(service.isDomainAllowed('https://other.org/a', allowList)).toBe(false);
+  });
+
+  it('lets the block list win over the allow list', () => {
+    const lists = options({ allowedDomains: ['example.com'], blockedDomains: ['paywall.example.com'] });
+
+    expect(service.isDomainAllowed('https://example.com/a', lists)).toBe(true);
+    expect(service.isDomainAllowed('https://paywall.example.com/a', lists)).toBe(false);
+    expect(service.isDomainAllowed('https://eu.paywall.example.com/a', lists)).toBe(false);
+  });
+
+  it('rejects URLs it cannot parse', () => {
+    expect(service.isDomainAllowed('not a url', options())).toBe(false);
+  });
+
+  it('never fetches pages on blocked domains', async () => {
+    const result = await service.extract('https://paywall.example.com/a', options({ blockedDomains: ['example.com'] }));
+
+    expect(result).toBeNull();
+    expect(get).not.toHaveBeenCalled();
+  });
+
+  it('extracts fetched HTML pages with the configured cap', async () => {
+    get.mockResolvedValue({ data: fixture('blog-post.html'), headers: { 'content-type': 'text/html; charset=utf-8' } });
+
+    const result = await service.extract('https://blog.example.com/retrieval', options({ maxChars: 400 }));
+
+    expect(get).toHaveBeenCalledWith('https://blog.example.com/retrieval', expect.objectContaining({ responseType: 'text' }));
+    expect(result).toBe(extractReadableText(fixture('blog-post.html'), 400));
+    expect(result!.length).toBeLessThanOrEqual(400);
+  });
+
+  it('ignores responses that are not HTML', async () => {
+    get.mockResolvedValue({ data: '%PDF-1.7', headers: { 'content-type': 'application/pdf' } });
+
+    expect(await service.extract('https://example.com/report.pdf', options())).toBeNull();
+  });
+});
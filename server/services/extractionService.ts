@@ -0,0 +1,141 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import { storage } from '../storage';
+import type { Article, Settings } from '@shared/schema';
+
+export interface ExtractionOptions {
+  maxChars: number;
+  allowedDomains: string[];
+  blockedDomains: string[];
+}
+
+// Elements that never hold the article body
+const BOILERPLATE_TAGS = ['script', 'style', 'noscript', 'svg', 'iframe', 'form', 'nav', 'header', 'footer', 'aside', 'button'];
+
+// Class/id hints used by common CMS themes for the article body
+const BODY_HINTS = [
+  '[itemprop="articleBody"]',
+  '.article-body', '.article-content', '.post-content', '.entry-content', '.story-body',
+].join(', ');
+
+const BLOCK_TAGS = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, pre';
+
+const MIN_PARAGRAPH_LENGTH = 40;
+const MIN_EXTRACTED_LENGTH = 200;
+
+function matchesDomain(hostname: string, domain: string): boolean {
+  const normalized = domain.trim().toLowerCase().replace(/^\*?\./, '');
+  return normalized.length > 0 && (hostname === normalized || hostname.endsWith(`.${normalized}`));
+}
+
+export function extractReadableText(html: string, maxChars: number): string | null {
+  const $ = cheerio.load(html);
+  $(BOILERPLATE_TAGS.join(', ')).remove();
+  $('br').replaceWith(' ');
+
+  // Narrow down to the most specific container that looks like the article body
+  // cheerio wraps fragments in a <body>, so the last fallback always matches
+  let container = $(BODY_HINTS).first();
+  for (const tag of ['article', 'main', 'body']) {
+    if (container.length) break;
+    container = $(tag).first();
+  }
+
+  // Only the outermost blocks, so a <p> inside an <li> or <blockquote> isn't counted twice
+  const blocks: string[] = [];
+  container.find(BLOCK_TAGS).each((_, element) => {
+    const block = $(element);
+    if (block.parents(BLOCK_TAGS).length) return;
+
+    const text = block.text().replace(/\s+/g, ' ').trim();
+    const isHeading = /^h[1-6]$/i.test(element.tagName);
+    if (text && (isHeading || text.length >= MIN_PARAGRAPH_LENGTH)) {
+      blocks.push(text);
+    }
+  });
+
+  // Cap the size at a paragraph boundary where possible
+  let body = '';
+  for (const block of blocks) {
+    const next = body ? `${body}\n\n${block}` : block;
+    if (next.length > maxChars) {
+      if (!body) body = block.slice(0, maxChars);
+      break;
+    }
+    body = next;
+  }
+
+  return body.length >= MIN_EXTRACTED_LENGTH ? body : null;
+}
+
+export class ExtractionService {
+  private concurrency = 3;
+
+  // `force` applies the configured limits even when automatic extraction is switched off
+  getOptions(settings: Settings | undefined, force = false): ExtractionOptions | null {
+    if (!settings?.fullTextEnabled && !force) return null;
+    return {
+      maxChars: settings?.fullTextMaxChars || 20000,
+      allowedDomains: settings?.fullTextAllowedDomains || [],
+      blockedDomains: settings?.fullTextBlockedDomains || [],
+    };
+  }
+
+  isDomainAllowed(url: string, options: ExtractionOptions): boolean {
+    let hostname: string;
+    try {
+      hostname = new URL(url).hostname.toLowerCase();
+    } catch {
+      return false;
+    }
+
+    if (options.blockedDomains.some(domain => matchesDomain(hostname, domain))) return false;
+    if (options.allowedDomains.length === 0) return true;
+    return options.allowedDomains.some(domain => matchesDomain(hostname, domain));
+  }
+
+  async extract(url: string, options: ExtractionOptions): Promise<string | null> {
+    if (!this.isDomainAllowed(url, options)) return null;
+
+    const response = await axios.get(url, {
+      timeout: 10000,
+      responseType: 'text',
+      maxContentLength: 5 * 1024 * 1024,
+      headers: {
+        'User-Agent': 'AI Newsletter Bot/1.0',
+        'Accept': 'text/html, application/xhtml+xml'
+      },
+    });
+
+    const contentType = response.headers['content-type'] || '';
+    if (!contentType.includes('html')) return null;
+
+    return extractReadableText(String(response.data), options.maxChars);
+  }
+
+  async enrichArticle(article: Article, options: ExtractionOptions): Promise<Article> {
+    try {
+      const fullContent = await this.extract(article.url, options);
+      if (!fullContent) return article;
+      return await storage.updateArticle(article.id, { fullContent }) || article;
+    } catch (error) {
+      console.warn(`Full-text extraction failed for ${article.url}:`, error instanceof Error ? error.message : error);
+      return article;
+    }
+  }
+
+  // No-op unless full-text extraction is enabled in settings
+  async enrichArticles(articles: Article[]): Promise<void> {
+    const options = this.getOptions(await storage.getSettings());
+    if (!options) return;
+
+    const pending = articles.filter(article => !article.fullContent);
+    for (let i = 0; i < pending.length; i += this.concurrency) {
+      await Promise.all(
+        pending.slice(i, i + this.concurrency).map(article => this.enrichArticle(article, options))
+      );
+    }
+  }
+}
+
+export const extractionService = new ExtractionService();
@@ -0,0 +1,140 @@
+import { storage } from '../storage';
+import { newsService, type NewsArticle, type FeedSourceType } from './newsService';
+import { deduplicationService, type DeduplicationSession } from './deduplicationService';
+import { extractionService } from './extractionService';
+import { scoringService } from './scoringService';
+import { insertArticleSchema, type Article, type FeedSource } from '@shared/schema';
+
+export interface FeedSourceFetchResult {
+  feedSourceId: number;
+  name: string;
+  fetched: number;
+  added: number;
+  filtered: number;
+  error?: string;
+}
+
+export interface AggregateFetchResult {
+  sources: FeedSourceFetchResult[];
+  totalFetched: number;
+  totalAdded: number;
+  totalFiltered: number;
+  failedSources: number;
+}
+
+export class FeedAggregatorService {
+  private sourceTimeout = 15000;
+
+  async fetchAllSources(): Promise<AggregateFetchResult> {
+    const feedSources = await storage.getEnabledFeedSources();
+
+    // One session for the whole run so stories syndicated by several feeds are merged
+    const session = await deduplicationService.createSession();
+
+    const settled = await Promise.allSettled(
+      feedSources.map(feedSource => this.fetchSource(feedSource, session))
+    );
+
+    const sources = settled.map((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        return outcome.value;
+      }
+      return {
+        feedSourceId: feedSources[index].id,
+        name: feedSources[index].name,
+        fetched: 0,
+        added: 0,
+        filtered: 0,
+        error: outcome.reason instanceof Error ? outcome.reason.message : 'Unknown error',
+      };
+    });
+
+    return {
+      sources,
+      totalFetched: sources.reduce((sum, source) => sum + source.fetched, 0),
+      totalAdded: sources.reduce((sum, source) => sum + source.added, 0),
+      totalFiltered: sources.reduce((sum, source) => sum + source.filtered, 0),
+      failedSources: sources.filter(source => source.error).length,
+    };
+  }
+
+  async fetchSource(feedSource: FeedSource, session: DeduplicationSession): Promise<FeedSourceFetchResult> {
+    try {
+      const { articles, validators, filtered } = await newsService.fetchFeed(feedSource.url, {
+        timeout: this.sourceTimeout,
+        etag: feedSource.etag,
+        lastModified: feedSource.lastModified,
+        applyFilters: true,
+        feedSourceId: feedSource.id,
+        sourceType: feedSource.sourceType as FeedSourceType,
+        scrapeConfig: feedSource.scrapeConfig,
+        sourceName: feedSource.name,
+      });
+      // A 304 Not Modified comes back with no articles, so nothing is saved
+      const added = await this.saveArticles(articles, feedSource, session);
+
+      await storage.updateFeedSource(feedSource.id, {
+        lastFetched: new Date(),
+        articleCount: (feedSource.articleCount || 0) + added,
+        errorCount: 0,
+        lastError: null,
+        etag: validators.etag || null,
+        lastModified: validators.lastModified || null,
+      });
+
+      return { feedSourceId: feedSource.id, name: feedSource.name, fetched: articles.length + filtered, added, filtered };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown error';
+
+      await storage.updateFeedSource(feedSource.id, {
+        lastFetched: new Date(),
+        errorCount: (feedSource.errorCount || 0) + 1,
+        lastError: message,
+      });
+
+      await storage.createActivityLog({
+        message: `Failed to fetch feed source: ${feedSource.name}`,
+        details: message,
+        type: 'warning'
+      });
+
+      return { feedSourceId: feedSource.id, name: feedSource.name, fetched: 0, added: 0, filtered: 0, error: message };
+    }
+  }
+
+  private async saveArticles(articles: NewsArticle[], feedSource: FeedSource, session: DeduplicationSession): Promise<number> {
+    const created: Article[] = [];
+    const touched = new Map<number, Article>();
+
+    for (const article of articles) {
+      if (!article.url) continue;
+
+      try {
+        const validatedArticle = insertArticleSchema.parse({
+          title: article.title || 'Untitled',
+          content: article.content || null,
+          source: article.source || feedSource.name,
+          author: article.author || null,
+          categories: article.categories || [],
+          imageUrl: article.imageUrl || null,
+          url: article.url,
+          publishedDate: article.publishedDate,
+          selected: false,
+          feedSourceId: feedSource.id,
+        });
+        const { article: saved, merged } = await session.ingest(validatedArticle);
+        if (!merged) created.push(saved);
+        touched.set(saved.id, saved);
+      } catch (error) {
+        console.warn(`Failed to create article: ${article.title}`, error);
+      }
+    }
+
+    await extractionService.enrichArticles(created);
+    // Merged stories gain coverage, so they are rescored alongside the new ones
+    await scoringService.scoreArticles(Array.from(touched.values()));
+    return created.length;
+  }
+}
+
+export const feedAggregatorService = new FeedAggregatorService();
@@ -0,0 +1,98 @@
+import { storage } from '../storage';
+import { config } from '../config';
+import { feedAggregatorService } from './feedAggregatorService';
+import { deduplicationService } from './deduplicationService';
+import type { FeedSource } from '@shared/schema';
+
+export class FeedRefreshService {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private maxBackoffExponent = 6; // caps backoff at 64x the feed's interval
+
+  async start() {
+    if (!config.newsletter.autoRefresh) {
+      console.log('Feed auto-refresh disabled');
+      return;
+    }
+
+    console.log('Starting feed refresh service...');
+
+    this.timer = setInterval(async () => {
+      await this.refreshDueFeeds();
+    }, config.newsletter.refreshInterval);
+
+    await this.refreshDueFeeds();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async refreshDueFeeds() {
+    // Skip this tick if the previous pass is still fetching
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const feedSources = await storage.getEnabledFeedSources();
+      const dueFeeds = feedSources.filter(feedSource => this.isDue(feedSource));
+      if (dueFeeds.length === 0) return;
+
+      const session = await deduplicationService.createSession();
+
+      const results = await Promise.all(
+        dueFeeds.map(feedSource => feedAggregatorService.fetchSource(feedSource, session))
+      );
+
+      for (let i = 0; i < dueFeeds.length; i++) {
+        if (results[i].error) {
+          await this.handleFailure(dueFeeds[i]);
+        }
+      }
+
+      const totalAdded = results.reduce((sum, result) => sum + result.added, 0);
+      if (totalAdded > 0) {
+        await storage.createActivityLog({
+          message: 'Feed sources refreshed',
+          details: `Added ${totalAdded} new articles from ${dueFeeds.length} feeds`,
+          type: 'info'
+        });
+      }
+    } catch (error) {
+      console.error('Feed refresh failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  getNextRefresh(feedSource: FeedSource): Date {
+    const intervalMinutes = feedSource.refreshInterval || 60;
+    const exponent = Math.min(feedSource.errorCount || 0, this.maxBackoffExponent);
+    const delay = intervalMinutes * 60 * 1000 * Math.pow(2, exponent);
+    const lastFetched = feedSource.lastFetched ? new Date(feedSource.lastFetched).getTime() : 0;
+    return new Date(lastFetched + delay);
+  }
+
+  private isDue(feedSource: FeedSource): boolean {
+    return this.getNextRefresh(feedSource).getTime() <= Date.now();
+  }
+
+  private async handleFailure(feedSource: FeedSource) {
+    // fetchSource has already incremented errorCount for this failure
+    const consecutiveFailures = (feedSource.errorCount || 0) + 1;
+    if (consecutiveFailures < config.newsletter.maxFeedFailures) return;
+
+    await storage.updateFeedSource(feedSource.id, { enabled: false });
+
+    await storage.createActivityLog({
+      message: `Feed source disabled: ${feedSource.name}`,
+      details: `Disabled after ${consecutiveFailures} consecutive failures`,
+      type: 'error'
+    });
+  }
+}
+
+export const feedRefreshService = new FeedRefreshService();
@@ -0,0 +1,45 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+import { FilterService } from './filterService';
+import type { NewsArticle } from './newsService';
+
+vi.mock('../storage', async () => {
+  const { MockDatabase } = await import('../mockDb');
+  return { storage: new MockDatabase() };
+});
+
+const article = (title: string, url: string): NewsArticle => ({
+  title,
+  url,
+  source: 'Example News',
+  content: `${title}. Enough text to pass any length rule the sample data may define.`,
+  publishedDate: new Date('2025-03-05T06:00:00Z'),
+});
+
+describe('FilterService', () => {
+  const service = new FilterService();
+
+  beforeEach(async () => {
+    // Only the rule under test applies
+    for (const rule of await storage.getFilterRules()) {
+      await storage.deleteFilterRule(rule.id);
+    }
+  });
+
+  it('logs an article filtered on every refresh only once per rule', async () => {
+    const rule = await storage.createFilterRule({ name: 'No crypto', type: 'keyword', action: 'exclude', field: 'any', values: ['crypto'] });
+    const batch = [
+      article('Crypto exchange adds AI trading bot', 'https://news.example.com/crypto-bot'),
+      article('Open-weight model tops coding leaderboard', 'https://news.example.com/leaderboard'),
+    ];
+
+    const first = await service.apply(batch);
+    const second = await service.apply(batch);
+
+    expect(first).toMatchObject({ filtered: 1, kept: [batch[1]] });
+    expect(second).toMatchObject({ filtered: 1, kept: [batch[1]] });
+    const logged = (await storage.getFilteredArticles()).filter(filtered => filtered.url === batch[0].url);
+    expect(logged).toHaveLength(1);
+    expect(logged[0]).toMatchObject({ ruleId: rule.id, ruleName: 'No crypto' });
+  });
+});
@@ -0,0 +1,172 @@
+import { storage } from '../storage';
+import type { NewsArticle } from './newsService';
+import type { FilterRule } from '@shared/schema';
+
+export interface FilterVerdict {
+  rule: FilterRule;
+  reason: string;
+}
+
+export interface FilterOutcome {
+  kept: NewsArticle[];
+  filtered: number;
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function hostnameOf(url: string): string {
+  try {
+    return new URL(url).hostname.toLowerCase().replace(/^www\./, '');
+  } catch {
+    return '';
+  }
+}
+
+export function findInvalidPattern(patterns: string[]): string | undefined {
+  return patterns.find(pattern => {
+    try {
+      new RegExp(pattern, 'i');
+      return false;
+    } catch {
+      return true;
+    }
+  });
+}
+
+// Rules are compiled once per batch so regexes aren't rebuilt for every article
+class CompiledRule {
+  private patterns: Array<{ label: string; regex: RegExp }> = [];
+
+  constructor(public rule: FilterRule) {
+    const values = (rule.values || []).map(value => value.trim()).filter(value => value.length > 0);
+
+    if (rule.type === 'keyword') {
+      // Whole-word, case-insensitive, so "AI" doesn't match "said"
+      this.patterns = values.map(keyword => {
+        const start = /^\w/.test(keyword) ? '\\b' : '';
+        const end = /\w$/.test(keyword) ? '\\b' : '';
+        return { label: keyword, regex: new RegExp(`${start}${escapeRegExp(keyword)}${end}`, 'i') };
+      });
+    } else if (rule.type === 'regex') {
+      this.patterns = values.flatMap(pattern => {
+        try {
+          return [{ label: pattern, regex: new RegExp(pattern, 'i') }];
+        } catch {
+          console.warn(`Skipping invalid filter pattern in rule "${rule.name}": ${pattern}`);
+          return [];
+        }
+      });
+    }
+  }
+
+  evaluate(article: NewsArticle): string | null {
+    switch (this.rule.type) {
+      case 'keyword':
+      case 'regex':
+        return this.evaluatePatterns(article);
+      case 'source':
+        return this.evaluateSource(article);
+      case 'min_length':
+        return this.evaluateLength(article);
+      default:
+        return null;
+    }
+  }
+
+  private text(article: NewsArticle): string {
+    if (this.rule.field === 'title') return article.title || '';
+    if (this.rule.field === 'content') return article.content || '';
+    return `${article.title || ''}\n${article.content || ''}`;
+  }
+
+  private evaluatePatterns(article: NewsArticle): string | null {
+    if (this.patterns.length === 0) return null;
+
+    const text = this.text(article);
+    const match = this.patterns.find(pattern => pattern.regex.test(text));
+    const kind = this.rule.type === 'keyword' ? 'keyword' : 'pattern';
+    const where = this.rule.field === 'title' || this.rule.field === 'content' ? this.rule.field : 'title or content';
+
+    if (this.rule.action === 'include') {
+      return match ? null : `No ${kind} from the include list matched the ${where}`;
+    }
+    return match ? `Matched excluded ${kind} "${match.label}" in the ${where}` : null;
+  }
+
+  // Source values match either the article's source name or its URL's domain
+  private evaluateSource(article: NewsArticle): string | null {
+    const values = (this.rule.values || []).map(value => value.trim().toLowerCase()).filter(Boolean);
+    if (values.length === 0) return null;
+
+    const source = (article.source || '').toLowerCase();
+    const hostname = hostnameOf(article.url);
+    const match = values.find(value =>
+      value === source || (hostname && (hostname === value || hostname.endsWith(`.${value}`)))
+    );
+
+    if (this.rule.action === 'include') {
+      return match ? null : `Source "${article.source}" is not on the allow list`;
+    }
+    return match ? `Source "${article.source}" matched deny entry "${match}"` : null;
+  }
+
+  private evaluateLength(article: NewsArticle): string | null {
+    const minLength = this.rule.minLength || 0;
+    const length = (article.content || '').trim().length;
+    return length < minLength ? `Content is ${length} characters, below the minimum of ${minLength}` : null;
+  }
+}
+
+export class FilterService {
+  // Global rules plus the rules scoped to this feed source
+  async getRulesFor(feedSourceId?: number | null): Promise<FilterRule[]> {
+    const rules = await storage.getFilterRules();
+    return rules.filter(rule =>
+      rule.enabled && (rule.feedSourceId === null || rule.feedSourceId === feedSourceId)
+    );
+  }
+
+  // Drops articles that fail any rule and records why, so false negatives can be audited;
+  // storage logs each article once per rule however often the feed serves it again
+  async apply(articles: NewsArticle[], feedSourceId?: number | null): Promise<FilterOutcome> {
+    const rules = await this.getRulesFor(feedSourceId);
+    if (rules.length === 0) return { kept: articles, filtered: 0 };
+
+    const compiled = rules.map(rule => new CompiledRule(rule));
+    const kept: NewsArticle[] = [];
+    let filtered = 0;
+
+    for (const article of articles) {
+      let verdict: FilterVerdict | null = null;
+      for (const rule of compiled) {
+        const reason = rule.evaluate(article);
+        if (reason) {
+          verdict = { rule: rule.rule, reason };
+          break;
+        }
+      }
+
+      if (!verdict) {
+        kept.push(article);
+        continue;
+      }
+
+      filtered++;
+      await storage.createFilteredArticle({
+        title: article.title || 'Untitled',
+        url: article.url || '',
+        source: article.source || 'Unknown Source',
+        feedSourceId: feedSourceId ?? null,
+        ruleId: verdict.rule.id,
+        ruleName: verdict.rule.name,
+        reason: verdict.reason,
+      });
+    }
+
+    return { kept, filtered };
+  }
+}
+
+export const filterService = new FilterService();
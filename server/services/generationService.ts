@@ -0,0 +1,153 @@
+import { ClaudeService, SECTION_PLACEHOLDER } from './claudeService';
+import { clusteringService } from './clusteringService';
+import { markdownService } from './markdownService';
+import { renderService } from './renderService';
+import { sectionService, type IssueSource, type SplicedIssue } from './sectionService';
+import { verificationService } from './verificationService';
+import type { Article, IssueSection, NewsletterTemplate, Settings, StructuredNewsletter, VerificationReport } from '@shared/schema';
+
+export interface GenerationRequest {
+  articles: Article[];
+  template: NewsletterTemplate;
+  settings: Settings;
+  issueNumber: number;
+  date: Date;
+  instructions?: string;
+  structured?: boolean;
+  onText?: (delta: string) => void; // free-form mode: each chunk of text as it arrives
+  onSnapshot?: (content: string) => void; // structured mode: the whole issue rendered so far
+  signal?: AbortSignal;
+}
+
+export interface GeneratedContent {
+  content: string;
+  htmlContent: string;
+  structuredContent: StructuredNewsletter | null;
+  verificationReport: VerificationReport;
+  droppedItems: number; // structured items that cited none of the issue's articles
+}
+
+export interface SectionRequest {
+  issue: IssueSource;
+  index: number; // into sectionService.sections(issue)
+  articles: Article[];
+  template: NewsletterTemplate;
+  settings: Settings;
+  instructions?: string;
+}
+
+export interface RegeneratedSection extends SplicedIssue {
+  section: IssueSection; // the section as it was before the rewrite
+}
+
+export interface IssueContext {
+  settings: Settings;
+  template?: NewsletterTemplate;
+  issueNumber: number;
+  date: Date;
+}
+
+export class GenerationService {
+  async generate(request: GenerationRequest): Promise<GeneratedContent> {
+    const { articles, template, settings } = request;
+    const claudeService = new ClaudeService(settings.claudeApiKey || '');
+
+    const options = {
+      stories: clusteringService.toStories(articles),
+      template,
+      instructions: request.instructions,
+      issueNumber: request.issueNumber,
+      date: request.date,
+      ...this.modelOptions(settings),
+      signal: request.signal,
+    };
+
+    if (!request.structured) {
+      const content = await claudeService.generateNewsletter({ ...options, onText: request.onText });
+      return {
+        content,
+        htmlContent: markdownService.render(content, template.outputFormat),
+        structuredContent: null,
+        verificationReport: this.verify(content, articles, request),
+        droppedItems: 0,
+      };
+    }
+
+    const onSnapshot = request.onSnapshot;
+    const generated = await claudeService.generateStructuredNewsletter({
+      ...options,
+      onSnapshot: onSnapshot
+        ? (partial) => onSnapshot(renderService.render(renderService.fromPartial(partial), articles, template.outputFormat))
+        : undefined,
+    });
+
+    const { newsletter, droppedItems } = this.keepCitedItems(generated, articles);
+    const content = renderService.render(newsletter, articles, template.outputFormat);
+    return {
+      content,
+      htmlContent: renderService.toHtml(newsletter, articles),
+      structuredContent: newsletter,
+      verificationReport: this.verify(content, articles, request),
+      droppedItems,
+    };
+  }
+
+  // Rewrites one section with the rest of the issue held fixed, and splices the result back in
+  async regenerateSection(request: SectionRequest): Promise<RegeneratedSection> {
+    const { issue, index, articles, template, settings } = request;
+    const section = sectionService.sections(issue)[index];
+    if (!section) throw new Error(`Section ${index} not found`);
+
+    const claudeService = new ClaudeService(settings.claudeApiKey || '');
+    const text = await claudeService.regenerateSection({
+      issue: sectionService.replace(issue, index, SECTION_PLACEHOLDER).content,
+      section,
+      stories: clusteringService.toStories(articles),
+      // Structured summaries are inline markdown whatever the template renders the issue as
+      template: issue.structuredContent ? { ...template, outputFormat: 'markdown' } : template,
+      instructions: request.instructions,
+      ...this.modelOptions(settings),
+    });
+
+    return { ...sectionService.replace(issue, index, text), section };
+  }
+
+  // Fact-checks an issue against its articles; the newsletter's own title and sections don't need a source
+  verify(content: string, articles: Article[], context: IssueContext): VerificationReport {
+    const title = context.settings.newsletterTitle || "AI Weekly";
+    return verificationService.verify(content, articles, {
+      allowedTerms: [title, `${title} #${context.issueNumber}`, String(context.issueNumber), ...(context.template?.sections || [])],
+      date: context.date,
+    });
+  }
+
+  // Every item has to link back to a source, so citations of unknown articles are removed
+  // and items left with none are dropped
+  keepCitedItems(newsletter: StructuredNewsletter, articles: Article[]): { newsletter: StructuredNewsletter; droppedItems: number } {
+    const known = new Set(articles.map(article => article.id));
+    let droppedItems = 0;
+
+    const sections = newsletter.sections
+      .map(section => {
+        const items = section.items
+          .map(item => ({ ...item, articleIds: Array.from(new Set(item.articleIds.filter(id => known.has(id)))) }))
+          .filter(item => item.articleIds.length > 0);
+        droppedItems += section.items.length - items.length;
+        return { ...section, items };
+      })
+      .filter(section => section.items.length > 0);
+
+    return { newsletter: { ...newsletter, sections }, droppedItems };
+  }
+
+  private modelOptions(settings: Settings) {
+    return {
+      newsletterTitle: settings.newsletterTitle || "AI Weekly",
+      temperature: parseFloat(settings.claudeTemperature || "0.7"),
+      maxTokens: settings.claudeMaxTokens || 4000,
+      model: settings.claudeModel || "claude-sonnet-4-20250514",
+    };
+  }
+}
+
+export const generationService = new GenerationService();
@@ -0,0 +1,292 @@
+import { storage } from '../storage';
+import { BeehiivService } from './beehiivService';
+import { EmailService } from './emailService';
+import { SocialMediaService } from './socialMediaService';
+import { templateService } from './templateService';
+import { generationService, type GeneratedContent, type GenerationRequest } from './generationService';
+import { emailTemplateService } from './emailTemplateService';
+import { revisionService, GENERATED_AUTHOR } from './revisionService';
+import { scoringService } from './scoringService';
+import type { Article, Job, JobType } from '@shared/schema';
+
+// What a caller waiting on the first attempt passes in to watch it and stop it; later attempts run without one
+export type JobRunContext = Pick<GenerationRequest, 'onText' | 'onSnapshot' | 'signal'>;
+
+export type JobHandler = (payload: Record<string, any>, job: Job, context?: JobRunContext) => Promise<Record<string, any>>;
+
+// A failure that retrying can't fix (missing credentials, deleted records); the job goes straight to dead
+export class PermanentJobError extends Error {}
+
+// Once an issue is published its articles are covered: drop them from the current selection
+async function releaseCoveredArticles(newsletterId: number) {
+  const covered = await storage.getNewsletterArticles(newsletterId);
+  for (const article of covered) {
+    await storage.updateArticle(article.id, { selected: false, status: 'reviewed' });
+  }
+}
+
+// payload: { articleIds, templateId?, customPrompt?, structured?, issueNumber?, date?, frequency?, scheduleTime? }
+// plus newsletterId once the issue has been saved
+async function generate(payload: Record<string, any>, job: Job, context: JobRunContext = {}) {
+  const settings = await storage.getSettings();
+  if (!settings?.claudeApiKey) {
+    throw new PermanentJobError('Claude API key not configured');
+  }
+
+  const articleIds: number[] = payload.articleIds || [];
+  const found = await Promise.all(articleIds.map(id => storage.getArticle(id)));
+  const selectedArticles = found.filter((article): article is Article => !!article);
+  if (selectedArticles.length === 0) {
+    throw new PermanentJobError('None of the articles for this issue exist any more');
+  }
+
+  // A retry after the issue was saved finishes the remaining steps instead of generating a second issue
+  let newsletter = payload.newsletterId ? await storage.getNewsletter(payload.newsletterId) : undefined;
+  if (!newsletter) {
+    const template = await templateService.resolve(payload.templateId);
+    if (!template) {
+      throw new PermanentJobError('Newsletter template not found');
+    }
+
+    const issueNumber = payload.issueNumber || await storage.getNextIssueNumber();
+    const date = new Date(payload.date || Date.now());
+
+    let generated: GeneratedContent;
+    try {
+      generated = await generationService.generate({
+        articles: selectedArticles,
+        template,
+        settings,
+        issueNumber,
+        date,
+        instructions: payload.customPrompt || undefined,
+        structured: payload.structured ?? settings.structuredOutput ?? false,
+        onText: context.onText,
+        onSnapshot: context.onSnapshot,
+        signal: context.signal,
+      });
+    } catch (error) {
+      // Someone stopped it on purpose; a retry would generate the issue they just cancelled
+      if (context.signal?.aborted) {
+        throw new PermanentJobError('Generation cancelled');
+      }
+      throw error;
+    }
+    const { content, htmlContent, structuredContent, verificationReport, droppedItems } = generated;
+
+    newsletter = await storage.createNewsletter({
+      issueNumber,
+      title: `${settings.newsletterTitle || "AI Weekly"} #${issueNumber}`,
+      content,
+      htmlContent,
+      structuredContent,
+      verificationReport,
+      date,
+      status: settings.approvalRequired ? "generated" : "approved",
+      frequency: payload.frequency || "manual",
+      scheduleTime: payload.scheduleTime || null,
+      approvalRequired: settings.approvalRequired || false,
+      approvalEmail: settings.approvalEmail || null,
+      approvedBy: null,
+      wordCount: content.split(/\s+/).length,
+      templateId: template.id,
+      customPrompt: payload.customPrompt || null,
+      beehiivId: null,
+      beehiivUrl: null
+    });
+    await storage.updateJob(job.id, { payload: { ...payload, newsletterId: newsletter.id } });
+
+    if (droppedItems > 0) {
+      await storage.createActivityLog({
+        message: 'Dropped uncited newsletter items',
+        details: `${droppedItems} item(s) in issue #${issueNumber} did not reference any selected article`,
+        type: 'warning'
+      });
+    }
+
+    if (verificationReport.flagCount > 0) {
+      await storage.createActivityLog({
+        message: 'Fact check flagged newsletter content',
+        details: `${verificationReport.flaggedClaims.length} unsupported claim(s) and ${verificationReport.unknownUrls.length} unknown link(s) in issue #${issueNumber}`,
+        type: 'warning'
+      });
+    }
+  }
+
+  if ((await storage.getNewsletterArticles(newsletter.id)).length === 0) {
+    await storage.linkNewsletterArticles(newsletter.id, selectedArticles.map(article => article.id));
+  }
+  if ((await storage.getNewsletterRevisions(newsletter.id)).length === 0) {
+    await revisionService.record(newsletter, GENERATED_AUTHOR, 'generated');
+  }
+
+  // The newsletter already exists, so a failed email must not fail (and regenerate) the job
+  if (settings.approvalRequired && settings.sendgridApiKey && settings.approvalEmail) {
+    try {
+      const emailService = new EmailService(settings.sendgridApiKey);
+      // SendGrid failures are caught inside the service and reported as false
+      const sent = await emailService.sendApprovalEmail(settings.approvalEmail, newsletter, settings);
+
+      await storage.createActivityLog(sent ? {
+        message: 'Approval email sent',
+        details: `Sent to ${settings.approvalEmail}`,
+        type: 'info'
+      } : {
+        message: 'Failed to send approval email',
+        details: `SendGrid did not accept the email to ${settings.approvalEmail}`,
+        type: 'warning'
+      });
+    } catch (emailError) {
+      await storage.createActivityLog({
+        message: 'Failed to send approval email',
+        details: emailError instanceof Error ? emailError.message : 'Unknown error',
+        type: 'warning'
+      });
+    }
+  }
+
+  await storage.createActivityLog({
+    message: 'Newsletter generated successfully',
+    details: `Generated ${newsletter.wordCount} words from ${selectedArticles.length} articles using ${settings.claudeModel}`,
+    type: 'success'
+  });
+
+  return { newsletterId: newsletter.id, issueNumber: newsletter.issueNumber, wordCount: newsletter.wordCount };
+}
+
+// payload: { newsletterId, draft? }
+async function publish(payload: Record<string, any>) {
+  const draft = !!payload.draft;
+  const settings = await storage.getSettings();
+  if (!settings?.beehiivApiKey || !settings?.beehiivPublicationId) {
+    throw new PermanentJobError('Beehiiv API credentials not configured');
+  }
+
+  const newsletter = await storage.getNewsletter(payload.newsletterId);
+  if (!newsletter) {
+    throw new PermanentJobError('Newsletter not found');
+  }
+
+  // A retry after a lost response must not publish the same issue twice
+  if (!draft && newsletter.status === 'published') {
+    return { newsletterId: newsletter.id, beehiivId: newsletter.beehiivId, beehiivUrl: newsletter.beehiivUrl, draft };
+  }
+
+  await storage.createActivityLog({
+    message: draft ? 'Creating Beehiiv draft' : 'Publishing newsletter to Beehiiv',
+    details: `Newsletter: ${newsletter.title}`,
+    type: 'info'
+  });
+
+  // Sent in the configured email layout, the same one approvers saw
+  const { html } = emailTemplateService.render(newsletter, settings);
+  const beehiivService = new BeehiivService(settings.beehiivApiKey);
+  const result = draft
+    ? await beehiivService.createDraft(settings.beehiivPublicationId, newsletter.title, html)
+    : await beehiivService.publishNewsletter(settings.beehiivPublicationId, newsletter.title, html);
+
+  await storage.updateNewsletter(newsletter.id, {
+    status: draft ? 'draft' : 'published',
+    beehiivId: result.id,
+    beehiivUrl: result.web_url,
+    publishedAt: draft ? null : new Date()
+  });
+
+  if (!draft) {
+    await releaseCoveredArticles(newsletter.id);
+  }
+
+  await storage.createActivityLog({
+    message: draft ? 'Draft created successfully' : 'Newsletter published successfully',
+    details: `Beehiiv ID: ${result.id}${result.web_url ? `, URL: ${result.web_url}` : ''}`,
+    type: 'success'
+  });
+
+  return { newsletterId: newsletter.id, beehiivId: result.id, beehiivUrl: result.web_url || null, draft };
+}
+
+// payload: { newsletterId }
+async function generateSocialPosts(payload: Record<string, any>) {
+  const newsletter = await storage.getNewsletter(payload.newsletterId);
+  if (!newsletter) {
+    throw new PermanentJobError('Newsletter not found');
+  }
+
+  const settings = await storage.getSettings();
+  if (!settings?.claudeApiKey) {
+    throw new PermanentJobError('Claude API key not configured');
+  }
+
+  const socialMediaService = new SocialMediaService(settings.claudeApiKey);
+  const socialContent = await socialMediaService.generateSocialMediaContent(
+    newsletter.content,
+    newsletter.title,
+    newsletter.issueNumber
+  );
+
+  // Spread the posts over random times
+  const postingTimes = socialMediaService.generateRandomPostingTimes(3);
+
+  const posts = [
+    await storage.createSocialMediaPost({
+      platform: "twitter",
+      content: socialContent.twitter.content,
+      hashtags: socialContent.twitter.hashtags,
+      scheduledFor: postingTimes[0],
+      newsletterId: newsletter.id,
+      engagementHook: socialContent.twitter.hook,
+      callToAction: socialContent.twitter.cta,
+      status: "scheduled"
+    }),
+    await storage.createSocialMediaPost({
+      platform: "instagram",
+      content: socialContent.instagram.content,
+      hashtags: socialContent.instagram.hashtags,
+      scheduledFor: postingTimes[1],
+      newsletterId: newsletter.id,
+      engagementHook: socialContent.instagram.hook,
+      callToAction: socialContent.instagram.cta,
+      status: "scheduled"
+    }),
+    await storage.createSocialMediaPost({
+      platform: "youtube",
+      content: `${socialContent.youtube.title}\n\n${socialContent.youtube.description}`,
+      hashtags: socialContent.youtube.hashtags,
+      scheduledFor: postingTimes[2],
+      newsletterId: newsletter.id,
+      engagementHook: socialContent.youtube.hook,
+      callToAction: socialContent.youtube.cta,
+      status: "scheduled"
+    }),
+  ];
+
+  await storage.createActivityLog({
+    type: "info",
+    message: `Generated social media posts for newsletter #${newsletter.issueNumber}`,
+    details: `Created ${posts.length} posts across Twitter, Instagram, and YouTube`
+  });
+
+  return { newsletterId: newsletter.id, postIds: posts.map(post => post.id) };
+}
+
+// payload: { useClaude? }
+async function rescore(payload: Record<string, any>) {
+  const { articles } = await storage.queryArticles({});
+  const active = articles.filter(article => article.status !== 'archived');
+  const scored = await scoringService.scoreArticles(active, { useClaude: !!payload.useClaude });
+
+  await storage.createActivityLog({
+    message: 'Articles rescored',
+    details: `Recomputed relevance scores for ${scored.length} articles`,
+    type: 'info'
+  });
+
+  return { scored: scored.length };
+}
+
+export const jobHandlers: Record<JobType, JobHandler> = {
+  generate,
+  publish,
+  social_generate: generateSocialPosts,
+  rescore,
+};
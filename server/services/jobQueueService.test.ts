@@ -0,0 +1,38 @@
+import { describe, expect, it, vi } from 'vitest';
+import { storage } from '../storage';
+import { jobHandlers } from './jobHandlers';
+import { JobQueueService } from './jobQueueService';
+import type { Job } from '@shared/schema';
+
+vi.mock('../storage', async () => {
+  const { MockDatabase } = await import('../mockDb');
+  return { storage: new MockDatabase() };
+});
+
+vi.mock('./jobHandlers', () => ({
+  jobHandlers: { rescore: vi.fn() },
+  PermanentJobError: class PermanentJobError extends Error {},
+}));
+
+describe('JobQueueService', () => {
+  const service = new JobQueueService();
+
+  it('stores a job it runs inline as already running, so a poll pass cannot start it again', async () => {
+    const createJob = storage.createJob.bind(storage);
+    let dueOnceStored: Job[] | undefined;
+    // What a poll pass (here or in another instance) would pick up right after the job is stored
+    vi.spyOn(storage, 'createJob').mockImplementation(async insertJob => {
+      const job = await createJob(insertJob);
+      dueOnceStored = await storage.getDueJobs();
+      return job;
+    });
+    vi.mocked(jobHandlers.rescore).mockResolvedValue({ rescored: 3 });
+
+    const job = await service.enqueueAndRun('rescore', {});
+
+    expect(dueOnceStored).toEqual([]);
+    expect(jobHandlers.rescore).toHaveBeenCalledTimes(1);
+    expect(job).toMatchObject({ status: 'completed', attempts: 1, result: { rescored: 3 } });
+    expect(job.startedAt).toBeInstanceOf(Date);
+  });
+});
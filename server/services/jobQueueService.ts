@@ -0,0 +1,247 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { storage } from '../storage';
+import { config } from '../config';
+import { jobHandlers, PermanentJobError, type JobRunContext } from './jobHandlers';
+import type { Job, JobType } from '@shared/schema';
+
+export interface EnqueueOptions {
+  maxAttempts?: number;
+  runAt?: Date;
+}
+
+const JOB_LABELS: Record<JobType, string> = {
+  generate: 'Newsletter generation',
+  publish: 'Beehiiv publish',
+  social_generate: 'Social post generation',
+  rescore: 'Article rescoring',
+};
+
+// Timeouts, rate limits (429), server errors and Anthropic overloads (529) are worth another try
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504, 529]);
+// Requests that never got a response because the connection failed or timed out
+const TRANSPORT_ERROR_CODES = new Set([
+  'ECONNRESET', 'ECONNREFUSED', 'ECONNABORTED', 'ETIMEDOUT', 'EPIPE', 'EAI_AGAIN', 'ENETUNREACH', 'EHOSTUNREACH', 'UND_ERR_SOCKET',
+]);
+const MAX_RETRY_DELAY = 60 * 60 * 1000;
+
+// Service errors wrap the SDK or axios error as their cause; walk down to whichever carries a response
+function causesOf(error: unknown): any[] {
+  const chain: any[] = [];
+  let current: any = error;
+  while (current && chain.length < 5) {
+    chain.push(current);
+    current = current.cause;
+  }
+  return chain;
+}
+
+function httpStatusOf(error: unknown): number | undefined {
+  for (const cause of causesOf(error)) {
+    const status = typeof cause.status === 'number' ? cause.status : cause.response?.status;
+    if (typeof status === 'number') return status;
+  }
+  return undefined;
+}
+
+// The SDK reports dropped connections, timeouts and errors sent mid-stream (e.g. overloaded) as APIConnectionError
+function isTransportError(error: unknown): boolean {
+  return causesOf(error).some(cause =>
+    cause instanceof Anthropic.APIConnectionError || (typeof cause.code === 'string' && TRANSPORT_ERROR_CODES.has(cause.code))
+  );
+}
+
+function retryAfterOf(error: unknown): number | undefined {
+  for (const cause of causesOf(error)) {
+    const headers = cause.headers || cause.response?.headers;
+    const value = headers?.['retry-after'];
+    const seconds = value !== undefined && value !== null ? Number(value) : NaN;
+    if (!isNaN(seconds)) return seconds * 1000;
+  }
+  return undefined;
+}
+
+export class JobQueueService {
+  private timer: NodeJS.Timeout | null = null;
+  private processing = false;
+  // Ids being executed right now, so the poller and a direct run never pick up the same job
+  private active = new Set<number>();
+
+  async start() {
+    console.log('Starting job queue...');
+
+    // Anything still marked running was cut off by a restart
+    const interrupted = await storage.getJobs({ status: 'running' });
+    for (const job of interrupted) {
+      await storage.updateJob(job.id, { status: 'pending', runAt: new Date() });
+    }
+
+    this.timer = setInterval(() => {
+      this.processDueJobs().catch(error => console.error('Job queue pass failed:', error));
+    }, config.jobs.pollInterval);
+
+    await this.processDueJobs();
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async enqueue(type: JobType, payload: Record<string, any>, options: EnqueueOptions = {}): Promise<Job> {
+    const job = await this.create(type, payload, options);
+    this.processDueJobs().catch(error => console.error('Job queue pass failed:', error));
+    return job;
+  }
+
+  // Makes the first attempt straight away and returns the job as it stands afterwards:
+  // completed, pending with a retry scheduled, or dead
+  async enqueueAndRun(type: JobType, payload: Record<string, any>, options: EnqueueOptions = {}, context?: JobRunContext): Promise<Job> {
+    // Stored already running, so the poller never sees it as pending and starts it a second time
+    const job = await this.create(type, payload, options, true);
+    this.active.add(job.id);
+
+    try {
+      return (await this.execute(job, context)) || job;
+    } finally {
+      this.active.delete(job.id);
+    }
+  }
+
+  // Puts a dead or waiting job back at the front of the queue; dead jobs get a fresh set of attempts
+  async retry(jobId: number): Promise<Job | undefined> {
+    const job = await storage.getJob(jobId);
+    if (!job || (job.status !== 'dead' && job.status !== 'pending')) return job;
+
+    const updated = await storage.updateJob(jobId, {
+      status: 'pending',
+      runAt: new Date(),
+      attempts: job.status === 'dead' ? 0 : job.attempts,
+      completedAt: null,
+    });
+
+    await storage.createActivityLog({
+      message: `${this.label(job)} job #${job.id} retried manually`,
+      details: job.lastError ? `Last error: ${job.lastError}` : undefined,
+      type: 'info'
+    });
+
+    this.processDueJobs().catch(error => console.error('Job queue pass failed:', error));
+    return updated;
+  }
+
+  // Runs due jobs one at a time until none are left; generation is too heavy to run in parallel
+  async processDueJobs() {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      while (true) {
+        const due = (await storage.getDueJobs()).filter(job => !this.active.has(job.id));
+        if (due.length === 0) break;
+        for (const job of due) {
+          await this.run(job.id);
+        }
+      }
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  // Exponential backoff from the configured base delay, but never sooner than the service asked for
+  retryDelay(attempts: number, error?: unknown): number {
+    const backoff = config.jobs.retryBaseDelay * Math.pow(2, attempts - 1);
+    return Math.min(MAX_RETRY_DELAY, Math.max(backoff, retryAfterOf(error) || 0));
+  }
+
+  // Only transient failures are retried; anything else (bad input, auth, bugs) would fail the same way again
+  isRetryable(error: unknown): boolean {
+    if (causesOf(error).some(cause => cause instanceof PermanentJobError)) return false;
+    const status = httpStatusOf(error);
+    if (status !== undefined) return RETRYABLE_STATUSES.has(status);
+    return isTransportError(error);
+  }
+
+  // A claimed job is created with its first attempt already started
+  private async create(type: JobType, payload: Record<string, any>, options: EnqueueOptions, claimed = false): Promise<Job> {
+    return await storage.createJob({
+      type,
+      status: claimed ? 'running' : 'pending',
+      payload,
+      maxAttempts: options.maxAttempts || config.jobs.maxAttempts,
+      runAt: options.runAt || new Date(),
+      ...(claimed ? { attempts: 1, startedAt: new Date() } : {}),
+    });
+  }
+
+  private async run(jobId: number, context?: JobRunContext): Promise<Job | undefined> {
+    if (this.active.has(jobId)) return undefined;
+    this.active.add(jobId);
+
+    try {
+      const job = await storage.getJob(jobId);
+      if (!job || job.status !== 'pending') return job;
+
+      const claim = { status: 'running', attempts: job.attempts + 1, startedAt: new Date() };
+      await storage.updateJob(job.id, claim);
+      return await this.execute({ ...job, ...claim }, context);
+    } finally {
+      this.active.delete(jobId);
+    }
+  }
+
+  // Runs the handler for a job that is already marked running with this attempt counted
+  private async execute(job: Job, context?: JobRunContext): Promise<Job | undefined> {
+    try {
+      const handler = jobHandlers[job.type as JobType];
+      if (!handler) {
+        throw new PermanentJobError(`Unknown job type: ${job.type}`);
+      }
+      const result = await handler(job.payload, job, context);
+      return await storage.updateJob(job.id, {
+        status: 'completed',
+        result,
+        lastError: null,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      return await this.handleFailure(job, job.attempts, error);
+    }
+  }
+
+  private async handleFailure(job: Job, attempts: number, error: unknown): Promise<Job | undefined> {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+
+    if (this.isRetryable(error) && attempts < job.maxAttempts) {
+      const delay = this.retryDelay(attempts, error);
+      await storage.createActivityLog({
+        message: `${this.label(job)} job #${job.id} failed, will retry`,
+        details: `Attempt ${attempts} of ${job.maxAttempts}: ${message}. Next attempt in ${Math.round(delay / 1000)}s`,
+        type: 'warning'
+      });
+      return await storage.updateJob(job.id, {
+        status: 'pending',
+        lastError: message,
+        runAt: new Date(Date.now() + delay),
+      });
+    }
+
+    await storage.createActivityLog({
+      message: `${this.label(job)} job #${job.id} failed permanently`,
+      details: `Gave up after ${attempts} attempt(s): ${message}`,
+      type: 'error'
+    });
+    return await storage.updateJob(job.id, {
+      status: 'dead',
+      lastError: message,
+      completedAt: new Date(),
+    });
+  }
+
+  private label(job: Job): string {
+    return JOB_LABELS[job.type as JobType] || job.type;
+  }
+}
+
+export const jobQueueService = new JobQueueService();
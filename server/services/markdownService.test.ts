@@ -0,0 +1,141 @@
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { MarkdownService } from './markdownService';
+
+// Everything in rendered HTML that a browser could execute or load: risky elements, handlers, styles and URLs
+function unsafeParts(html: string): string[] {
+  const $ = cheerio.load(html, null, false);
+  const found: string[] = [];
+  $('*').each((_, element) => {
+    if (['script', 'svg', 'iframe', 'object', 'embed', 'style'].includes(element.tagName)) found.push(element.tagName);
+    for (const [name, value] of Object.entries(element.attribs)) {
+      if (/^on|^style$/i.test(name)) found.push(`${element.tagName}[${name}]`);
+      if (/^(href|src)$/i.test(name) && /^\s*(javascript|data|vbscript):/i.test(value.replace(/[\u0000-\u0020]/g, ''))) {
+        found.push(`${element.tagName}[${name}=${value}]`);
+      }
+    }
+  });
+  return found;
+}
+
+describe('MarkdownService', () => {
+  const service = new MarkdownService();
+
+  describe('render', () => {
+    it('renders markdown as Claude writes it', () => {
+      const html = service.render([
+        '# AI Weekly #12',
+        '',
+        'Welcome back! **Three** stories this week.',
+        '',
+        '## Chips',
+        '',
+        '- Nvidia ships [Blackwell Ultra](https://chips.example.com/blackwell)',
+        '- More at https://chips.example.com',
+        '',
+        '```ts',
+        'const x = 1 < 2;',
+        '```',
+      ].join('\n'));
+
+      expect(html).toContain('<h1>AI Weekly #12</h1>');
+      expect(html).toContain('<p>Welcome back! <strong>Three</strong> stories this week.</p>');
+      expect(html).toContain('<li>Nvidia ships <a href="https://chips.example.com/blackwell">Blackwell Ultra</a></li>');
+      expect(html).toContain('<a href="https://chips.example.com">https://chips.example.com</a>');
+      expect(html).toContain('<pre><code class="language-ts">const x = 1 &lt; 2;\n</code></pre>');
+    });
+
+    it('renders markdown that follows raw HTML instead of treating the whole issue as HTML', () => {
+      const html = service.render('<div>x</div>\n\n**md**');
+
+      expect(html).toContain('<div>x</div>');
+      expect(html).toContain('<p><strong>md</strong></p>');
+    });
+
+    it('goes by the format it is given rather than sniffing the content', () => {
+      expect(service.render('<p>**not markdown**</p>', 'html')).toBe('<p>**not markdown**</p>');
+      expect(service.render('<b>tags</b> & text\nsecond line\n\nnext', 'plain'))
+        .toBe('<p>&lt;b&gt;tags&lt;/b&gt; &amp; text<br>second line</p>\n<p>next</p>');
+    });
+  });
+
+  describe('sanitizing', () => {
+    const xss: [string, string][] = [
+      ['script tags and their contents', '<p>Hi</p><script>alert(1)</script>'],
+      ['event handlers', '<img src="https://a.example.com/x.png" onerror="alert(1)">'],
+      ['a > inside a quoted attribute', '<img alt="a > b" src="x" onerror="alert(1)">'],
+      ['javascript: links', '<a href="javascript:alert(1)">click</a>'],
+      ['javascript: links hidden by whitespace and case', '<a href=" JaVa\tScRiPt:alert(1)">click</a>'],
+      ['data: URLs', '<img src="data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==">'],
+      ['svg with handlers', '<svg onload="alert(1)"><script>alert(1)</script></svg>'],
+      ['iframes', '<iframe src="https://evil.example.com"></iframe>'],
+      ['inline styles', '<p style="background:url(javascript:alert(1))">x</p>'],
+      ['unclosed attributes', '<a href="https://a.example.com" title="x onmouseover=alert(1)//'],
+    ];
+
+    for (const [name, input] of xss) {
+      it(`removes ${name} from HTML and from markdown`, () => {
+        for (const html of [service.render(input, 'html'), service.render(input, 'markdown')]) {
+          expect(unsafeParts(html)).toEqual([]);
+        }
+      });
+    }
+
+    it('drops unsafe markdown links but keeps their text', () => {
+      const html = service.render('[click](javascript:alert(1)) and ![x](data:image/png;base64,AAAA)');
+
+      expect(html).not.toContain('href="javascript');
+      expect(html).not.toContain('src="data');
+      expect(html).toContain('click');
+    });
+
+    it('keeps safe formatting, links and images', () => {
+      const html = service.sanitizeHtml(
+        '<h2>Title</h2><p><a href="https://a.example.com" title="a &gt; b" target="_blank">link</a> <em>x</em></p>' +
+        '<img src="https://a.example.com/x.png" alt="chart" width="300"><ol start="3"><li>three</li></ol>'
+      );
+
+      expect(html).toBe(
+        '<h2>Title</h2><p><a href="https://a.example.com" title="a &gt; b">link</a> <em>x</em></p>' +
+        '<img src="https://a.example.com/x.png" alt="chart" width="300" /><ol start="3"><li>three</li></ol>'
+      );
+    });
+
+    it('unwraps unknown tags, keeping their text', () => {
+      expect(service.sanitizeHtml('<p><font color="red">red</font> text</p>')).toBe('<p>red text</p>');
+    });
+  });
+
+  describe('fromHtml', () => {
+    it('turns editor HTML back into markdown', () => {
+      const markdown = service.fromHtml(
+        '<h2>Chips</h2><p>Nvidia ships <strong>Blackwell</strong>, see <a href="https://chips.example.com/a?x=1&amp;y=2">the post</a>.</p>' +
+        '<ul><li><p>one</p></li><li>two</li></ul><blockquote><p>quoted</p></blockquote>'
+      );
+
+      expect(markdown).toBe([
+        '## Chips',
+        '',
+        'Nvidia ships **Blackwell**, see [the post](https://chips.example.com/a?x=1&y=2).',
+        '',
+        '- one',
+        '- two',
+        '',
+        '> quoted',
+      ].join('\n'));
+    });
+
+    it('reads attributes that contain >', () => {
+      expect(service.fromHtml('<p><a href="https://a.example.com" title="a > b">link</a> after</p>'))
+        .toBe('[link](https://a.example.com) after');
+    });
+  });
+
+  describe('toText', () => {
+    it('writes readable text for the plain part of emails', () => {
+      const text = service.toText('<h1>AI Weekly</h1><p>Read <a href="https://a.example.com">the post</a>.</p><script>x()</script>');
+
+      expect(text).toBe('AI WEEKLY\n\nRead the post (https://a.example.com).');
+    });
+  });
+});
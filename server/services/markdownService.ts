@@ -0,0 +1,249 @@
+import MarkdownIt from 'markdown-it';
+import sanitize from 'sanitize-html';
+import * as cheerio from 'cheerio';
+
+interface HtmlElement {
+  tag: string;
+  attrs: Record<string, string>;
+  children: HtmlNode[];
+}
+
+type HtmlNode = HtmlElement | string;
+
+// The parts of a cheerio node the conversion reads
+interface DomNode {
+  type: string;
+  name?: string;
+  data?: string;
+  attribs?: Record<string, string>;
+  children?: DomNode[];
+}
+
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'main', 'body', 'html', 'root',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'li', 'blockquote', 'pre', 'hr', 'table',
+]);
+const SKIPPED_TAGS = new Set(['script', 'style', 'head', 'title']);
+
+// What sanitized HTML may contain; other tags are unwrapped, keeping their text
+const SANITIZE_OPTIONS: sanitize.IOptions = {
+  allowedTags: [
+    'p', 'br', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'strong', 'b', 'em', 'i', 's', 'del', 'u', 'sup', 'sub',
+    'code', 'pre', 'blockquote', 'ul', 'ol', 'li', 'a', 'img', 'table', 'thead', 'tbody', 'tr', 'th', 'td', 'span', 'div',
+  ],
+  allowedAttributes: {
+    a: ['href', 'title'],
+    img: ['src', 'alt', 'title', 'width', 'height'],
+    ol: ['start'],
+    th: ['colspan', 'rowspan'],
+    td: ['colspan', 'rowspan'],
+  },
+  allowedClasses: { code: ['language-*'] },
+  // Links and images may only point at the web or mail; javascript: and data: URLs are dropped
+  allowedSchemes: ['http', 'https', 'mailto'],
+  allowedSchemesAppliedToAttributes: ['href', 'src'],
+  // Dropped along with the text inside them
+  nonTextTags: [...Array.from(SKIPPED_TAGS), 'iframe', 'object', 'embed', 'form', 'noscript', 'template', 'svg', 'math', 'textarea', 'option'],
+};
+
+// Raw HTML in markdown is let through here and cleaned up with everything else by sanitizeHtml
+const markdown = new MarkdownIt({ html: true, linkify: true });
+
+function toHtmlNodes(nodes: DomNode[]): HtmlNode[] {
+  return nodes.flatMap((node): HtmlNode[] => {
+    if (node.type === 'text') return [node.data || ''];
+    if (!node.name) return []; // comments and doctypes
+    return [{ tag: node.name.toLowerCase(), attrs: node.attribs || {}, children: toHtmlNodes(node.children || []) }];
+  });
+}
+
+// Parsed the way a browser would, so quoting, entities and unclosed tags come out the same
+function parseHtml(html: string): HtmlElement {
+  const $ = cheerio.load(html, null, false);
+  return { tag: 'root', attrs: {}, children: toHtmlNodes($.root().contents().toArray() as unknown as DomNode[]) };
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Whether stored content is already HTML (an html template) rather than markdown or plain text
+export function looksLikeHtml(content: string): boolean {
+  return /^\s*<[a-z][\w-]*[\s>\/]/i.test(content);
+}
+
+function isBlock(node: HtmlNode): boolean {
+  return typeof node !== 'string' && BLOCK_TAGS.has(node.tag);
+}
+
+function textOf(node: HtmlNode): string {
+  return typeof node === 'string' ? node : node.children.map(textOf).join('');
+}
+
+export class MarkdownService {
+  // The one place stored content becomes HTML: publishing, emails and the preview all use this output.
+  // The format says what the content is written in; it's never guessed from the content itself
+  render(content: string, format: string = 'markdown'): string {
+    if (format === 'html') return this.sanitizeHtml(content);
+    if (format === 'plain') {
+      return content
+        .split(/\n\s*\n/)
+        .map(paragraph => paragraph.trim())
+        .filter(Boolean)
+        .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+        .join('\n');
+    }
+    return this.toHtml(content);
+  }
+
+  // CommonMark, with bare links turned into links, to safe HTML
+  toHtml(markdownText: string): string {
+    return this.sanitizeHtml(markdown.render(markdownText)).trim();
+  }
+
+  // Keeps formatting tags and safe links from HTML written elsewhere; scripts, handlers and styles are dropped
+  sanitizeHtml(html: string): string {
+    return sanitize(html, SANITIZE_OPTIONS);
+  }
+
+  // Turns editor HTML back into the markdown the rest of the pipeline (publishing, prompts) works with
+  fromHtml(html: string): string {
+    return this.blocks(parseHtml(html).children, false)
+      .join('\n\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  // Readable text without markdown syntax, for the plain-text part of emails
+  toText(html: string): string {
+    return this.blocks(parseHtml(html).children, true)
+      .join('\n\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  private blocks(nodes: HtmlNode[], plain: boolean): string[] {
+    const blocks: string[] = [];
+    let inlineRun: HtmlNode[] = [];
+
+    // Loose text and inline tags between blocks form a paragraph of their own
+    const flushInline = () => {
+      const text = this.inline(inlineRun, plain).trim();
+      if (text) blocks.push(text);
+      inlineRun = [];
+    };
+
+    for (const node of nodes) {
+      if (typeof node !== 'string' && SKIPPED_TAGS.has(node.tag)) continue;
+      if (!isBlock(node)) {
+        inlineRun.push(node);
+        continue;
+      }
+      flushInline();
+      const block = this.block(node as HtmlElement, plain);
+      if (block.trim()) blocks.push(block);
+    }
+    flushInline();
+
+    return blocks;
+  }
+
+  private block(element: HtmlElement, plain: boolean): string {
+    const heading = element.tag.match(/^h([1-6])$/);
+    if (heading) {
+      const text = this.inline(element.children, plain).trim();
+      if (!plain) return `${'#'.repeat(Number(heading[1]))} ${text}`;
+      // Plain text marks the top two levels by case alone
+      return Number(heading[1]) <= 2 ? text.toUpperCase() : text;
+    }
+
+    switch (element.tag) {
+      case 'p':
+        return this.inline(element.children, plain).trim();
+      case 'hr':
+        return '---';
+      case 'pre':
+        return plain ? textOf(element).replace(/\n$/, '') : `\`\`\`\n${textOf(element).replace(/\n$/, '')}\n\`\`\``;
+      case 'blockquote':
+        return this.blocks(element.children, plain)
+          .join('\n\n')
+          .split('\n')
+          .map(line => (line ? `> ${line}` : '>'))
+          .join('\n');
+      case 'ul':
+      case 'ol':
+        return this.list(element, plain);
+      case 'li':
+        return this.blocks(element.children, plain).join('\n');
+      default:
+        return this.blocks(element.children, plain).join('\n\n');
+    }
+  }
+
+  private list(element: HtmlElement, plain: boolean): string {
+    const ordered = element.tag === 'ol';
+    const start = Number(element.attrs.start) || 1;
+    const items = element.children.filter((node): node is HtmlElement => typeof node !== 'string' && node.tag === 'li');
+
+    return items
+      .map((item, index) => {
+        const marker = ordered ? `${start + index}. ` : '- ';
+        const indent = ' '.repeat(marker.length);
+        const lines = this.blocks(item.children, plain).join('\n').split('\n');
+        return lines.map((line, lineIndex) => (lineIndex === 0 ? marker : line ? indent : '') + line).join('\n');
+      })
+      .join('\n');
+  }
+
+  private inline(nodes: HtmlNode[], plain: boolean): string {
+    return nodes
+      .map(node => {
+        if (typeof node === 'string') return node.replace(/\s+/g, ' ');
+        const inner = () => this.inline(node.children, plain);
+
+        switch (node.tag) {
+          case 'strong':
+          case 'b':
+            return plain ? inner() : this.wrap(inner(), '**');
+          case 'em':
+          case 'i':
+            return plain ? inner() : this.wrap(inner(), '*');
+          case 's':
+          case 'del':
+          case 'strike':
+            return plain ? inner() : this.wrap(inner(), '~~');
+          case 'code':
+            return plain ? textOf(node) : `\`${textOf(node)}\``;
+          case 'br':
+            return '\n';
+          case 'img':
+            if (plain) return node.attrs.alt || '';
+            return node.attrs.src ? `![${node.attrs.alt || ''}](${node.attrs.src})` : '';
+          case 'a': {
+            const text = inner().trim();
+            if (!node.attrs.href) return text;
+            if (plain) return !text || text === node.attrs.href ? node.attrs.href : `${text} (${node.attrs.href})`;
+            return `[${text || node.attrs.href}](${node.attrs.href})`;
+          }
+          default:
+            if (SKIPPED_TAGS.has(node.tag)) return '';
+            // Blocks nested inside inline content (e.g. a <p> in an <li>) still break the line
+            return isBlock(node) ? `\n${this.block(node, plain)}\n` : inner();
+        }
+      })
+      .join('')
+      .replace(/ *\n */g, '\n');
+  }
+
+  // Keeps the markers hugging the text: "** bold **" isn't bold in markdown
+  private wrap(text: string, marker: string): string {
+    const match = text.match(/^(\s*)([\s\S]*?)(\s*)$/)!;
+    return match[2] ? `${match[1]}${marker}${match[2]}${marker}${match[3]}` : text;
+  }
+}
+
+export const markdownService = new MarkdownService();
@@ -0,0 +1,170 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import axios from 'axios';
+import { NewsService } from './newsService';
+
+vi.mock('axios', () => ({ default: { get: vi.fn(), isAxiosError: () => false } }));
+vi.mock('../storage', () => ({ storage: {} }));
+
+const fixture = (name: string) =>
+  readFileSync(path.join(import.meta.dirname, '__fixtures__', 'feeds', name), 'utf8');
+
+describe('NewsService feed parsing', () => {
+  const service = new NewsService();
+  const get = vi.mocked(axios.get);
+
+  // Feeds arrive as text; the parser picks JSON or XML from the content type like it does in production
+  const parse = (name: string, contentType: string, url = 'https://feeds.example.com/feed') => {
+    get.mockResolvedValue({ status: 200, data: fixture(name), headers: { 'content-type': contentType } });
+    return service.fetchFeed(url);
+  };
+
+  beforeEach(() => {
+    get.mockReset();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('JSON Feed', () => {
+    it('reads a 1.0 feed instead of treating its `items` as Inoreader', async () => {
+      const { format, articles } = await parse('jsonfeed-1.0.json', 'application/feed+json');
+
+      expect(format).toBe('jsonfeed');
+      expect(articles).toHaveLength(2);
+      expect(articles[0]).toMatchObject({
+        title: 'Sparse attention, explained',
+        content: '<p>Why most tokens never need to look at each other.</p>',
+        source: 'The Gradient Descent',
+        author: 'Priya Raman',
+        categories: ['attention', 'transformers'],
+        imageUrl: 'https://gradient.example.com/img/sparse.png',
+        url: 'https://gradient.example.com/posts/sparse-attention',
+      });
+      expect(articles[0].publishedDate.toISOString()).toBe('2025-03-04T09:30:00.000Z');
+    });
+
+    it('falls back to external_url, content_text and date_modified', async () => {
+      const { articles } = await parse('jsonfeed-1.0.json', 'application/feed+json');
+
+      expect(articles[1]).toMatchObject({
+        title: 'Link: a benchmark for long-context recall',
+        content: 'Worth reading if you evaluate long-context models.',
+        url: 'https://arxiv.example.org/abs/2503.01234',
+        author: undefined,
+      });
+      expect(articles[1].publishedDate.toISOString()).toBe('2025-03-03T18:00:00.000Z');
+    });
+
+    it('reads 1.1 `authors` arrays, skipping authors without a name', async () => {
+      const { format, articles } = await parse('jsonfeed-1.1.json', 'application/json');
+
+      expect(format).toBe('jsonfeed');
+      expect(articles[0]).toMatchObject({
+        title: 'Distillation at scale',
+        source: 'Applied ML Weekly',
+        author: 'Tom Okafor',
+        imageUrl: 'https://appliedml.example.com/482/banner.jpg',
+        url: 'https://appliedml.example.com/482',
+      });
+      expect(articles[0].publishedDate.toISOString()).toBe('2025-03-05T06:00:00.000Z');
+    });
+
+    it('detects JSON Feed by its version even when the URL ends in .json', async () => {
+      const { format } = await parse('jsonfeed-1.1.json', 'text/plain', 'https://appliedml.example.com/feed.json');
+
+      expect(format).toBe('jsonfeed');
+    });
+  });
+
+  describe('Inoreader', () => {
+    it('reads stream contents that have `items` but no JSON Feed version', async () => {
+      const { format, articles } = await parse('inoreader.json', 'application/json; charset=utf-8');
+
+      expect(format).toBe('inoreader');
+      expect(articles).toHaveLength(1);
+      expect(articles[0]).toMatchObject({
+        title: 'Open-weight model tops coding leaderboard',
+        content: '<p>A new open-weight model beat closed rivals on a popular benchmark.</p>',
+        source: 'Example News',
+        author: 'Lena Fischer',
+        imageUrl: 'https://news.example.com/img/leaderboard.webp',
+        // The canonical link points back at Inoreader, so the publisher's alternate link wins
+        url: 'https://news.example.com/open-weight-model-tops-leaderboard',
+      });
+      expect(articles[0].publishedDate.toISOString()).toBe('2025-03-05T06:30:00.000Z');
+    });
+  });
+
+  describe('RSS 1.0 (RDF)', () => {
+    it('reads items that sit beside the channel', async () => {
+      const { format, articles } = await parse('rdf.xml', 'application/rdf+xml');
+
+      expect(format).toBe('rdf');
+      expect(articles).toHaveLength(2);
+      expect(articles[0]).toMatchObject({
+        title: 'Chain-of-thought faithfulness under distribution shift',
+        content: '<p>We measure whether <em>stated</em> reasoning predicts model behaviour.</p>',
+        source: 'Journal of Machine Reasoning',
+        author: 'M. Alvarez',
+        categories: ['interpretability'],
+        url: 'https://journal.example.org/papers/101',
+      });
+      expect(articles[0].publishedDate.toISOString()).toBe('2025-02-28T12:00:00.000Z');
+    });
+
+    it('uses rdf:about when an item has no link', async () => {
+      const { articles } = await parse('rdf.xml', 'text/xml');
+
+      expect(articles[1]).toMatchObject({
+        title: 'Tool use without fine-tuning',
+        content: 'Prompting alone gets surprisingly far.',
+        url: 'https://journal.example.org/papers/102',
+        author: undefined,
+        categories: [],
+      });
+      expect(articles[1].publishedDate.toISOString()).toBe('2025-02-27T00:00:00.000Z');
+    });
+  });
+
+  describe('Atom with several links per entry', () => {
+    it('picks the HTML alternate over self, enclosure, replies and other alternates', async () => {
+      const { format, articles } = await parse('atom-multilink.xml', 'application/atom+xml');
+
+      expect(format).toBe('atom');
+      expect(articles).toHaveLength(3);
+      expect(articles[0].url).toBe('https://lab.example.com/scaling-retrieval');
+    });
+
+    it('takes the image from an enclosure link and metadata from the entry', async () => {
+      const { articles } = await parse('atom-multilink.xml', 'application/atom+xml');
+
+      expect(articles[0]).toMatchObject({
+        content: 'Retrieval quality keeps improving with index size, up to a point.',
+        source: 'Lab Notes',
+        author: 'Sam Ito',
+        categories: ['retrieval', 'Scaling'],
+        imageUrl: 'https://lab.example.com/img/scaling.jpg',
+      });
+      expect(articles[0].title).toContain('Scaling laws for');
+      expect(articles[0].publishedDate.toISOString()).toBe('2025-03-01T08:00:00.000Z');
+    });
+
+    it('treats a link without rel as the alternate and credits the entry source', async () => {
+      const { articles } = await parse('atom-multilink.xml', 'application/atom+xml');
+
+      expect(articles[1]).toMatchObject({
+        title: 'Weekly reading list',
+        content: '<p>Five papers we liked this week.</p>',
+        source: 'Lab Notes Archive',
+        url: 'https://lab.example.com/reading-list-9',
+      });
+      expect(articles[1].publishedDate.toISOString()).toBe('2025-02-28T16:00:00.000Z');
+    });
+
+    it('prefers a URL id over a media enclosure when there is no alternate', async () => {
+      const { articles } = await parse('atom-multilink.xml', 'application/atom+xml');
+
+      expect(articles[2].url).toBe('https://lab.example.com/podcast/12');
+    });
+  });
+});
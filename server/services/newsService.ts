@@ -1,28 +1,86 @@
 import axios from 'axios';
 import * as xml2js from 'xml2js';
-import { type InsertArticle } from '@shared/schema';
+import { type InsertArticle, type ScrapeConfig } from '@shared/schema';
+import { filterService } from './filterService';
+import { scraperService } from './scraperService';
 
 export interface NewsArticle {
   title: string;
   content?: string;
   source: string;
+  author?: string;
+  categories?: string[];
+  imageUrl?: string;
   url: string;
   publishedDate: Date;
 }
 
+export type FeedFormat = 'inoreader' | 'jsonfeed' | 'atom' | 'rss' | 'rdf' | 'json' | 'html' | 'sitemap';
+
+export type FeedSourceType = 'feed' | 'html' | 'sitemap';
+
+// HTTP cache validators remembered between fetches of the same feed
+export interface FeedValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export interface FeedFetchResult {
+  format: FeedFormat | null; // null when the server answered 304 Not Modified
+  articles: NewsArticle[];
+  notModified: boolean;
+  validators: FeedValidators;
+  filtered: number; // articles dropped by filter rules
+}
+
+export interface FeedFetchOptions extends FeedValidators {
+  timeout?: number; // milliseconds
+  applyFilters?: boolean;
+  feedSourceId?: number | null; // selects per-feed filter rules in addition to global ones
+  sourceType?: FeedSourceType;
+  scrapeConfig?: ScrapeConfig | null;
+  sourceName?: string; // credited on scraped articles, which carry no feed title
+}
+
 export class NewsService {
   async fetchNewsFromUrl(url: string): Promise<NewsArticle[]> {
+    const result = await this.fetchFeed(url, { applyFilters: true });
+    return result.articles;
+  }
+
+  async fetchFeed(url: string, options: FeedFetchOptions = {}): Promise<FeedFetchResult> {
     try {
       console.log(`Fetching news from: ${url}`);
       
+      const headers: Record<string, string> = {
+        'User-Agent': 'AI Newsletter Bot/1.0',
+        'Accept': 'application/json, application/xml, text/xml, */*'
+      };
+      if (options.etag) headers['If-None-Match'] = options.etag;
+      if (options.lastModified) headers['If-Modified-Since'] = options.lastModified;
+
       const response = await axios.get(url, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'AI Newsletter Bot/1.0',
-          'Accept': 'application/json, application/xml, text/xml, */*'
-        },
+        timeout: options.timeout || 10000,
+        headers,
+        validateStatus: status => (status >= 200 && status < 300) || status === 304,
       });
 
+      // Servers may omit validators on a 304, in which case the ones we sent still apply
+      const validators: FeedValidators = {
+        etag: response.headers['etag'] || (response.status === 304 ? options.etag : null) || null,
+        lastModified: response.headers['last-modified'] || (response.status === 304 ? options.lastModified : null) || null,
+      };
+
+      if (response.status === 304) {
+        console.log(`Feed not modified since last fetch: ${url}`);
+        return { format: null, articles: [], notModified: true, validators, filtered: 0 };
+      }
+
+      if (options.sourceType === 'html' || options.sourceType === 'sitemap') {
+        const scraped = await this.scrapePage(String(response.data), url, options);
+        return this.finish(scraped, url, validators, options);
+      }
+
       const contentType = response.headers['content-type'] || '';
       console.log(`Content-Type: ${contentType}`);
 
@@ -50,30 +108,7 @@ export class NewsService {
       
       console.log(`Response data type: ${typeof data}, keys: ${Object.keys(data || {}).join(', ')}`);
       
-      // Handle different feed formats
-      if (data.items) {
-        // Inoreader JSON format
-        return this.parseInoreaderFeed(data.items);
-      } else if (data.feed?.entry) {
-        // Atom feed format
-        const entries = Array.isArray(data.feed.entry) ? data.feed.entry : [data.feed.entry];
-        return this.parseAtomFeed(entries);
-      } else if (data.rss?.channel?.item) {
-        // RSS feed format
-        const items = Array.isArray(data.rss.channel.item) ? data.rss.channel.item : [data.rss.channel.item];
-        return this.parseRSSFeed(items);
-      } else if (data.channel?.item) {
-        // RSS feed without rss wrapper
-        const items = Array.isArray(data.channel.item) ? data.channel.item : [data.channel.item];
-        return this.parseRSSFeed(items);
-      } else if (Array.isArray(data)) {
-        // Direct JSON array
-        return this.parseJSONArray(data);
-      }
-
-      // Log the data structure to help debug
-      console.log('Unsupported feed format. Data structure:', JSON.stringify(data, null, 2).substring(0, 500));
-      throw new Error('Unsupported feed format');
+      return this.finish(this.parseFeedData(data), url, validators, options);
     } catch (error) {
       if (axios.isAxiosError(error)) {
         throw new Error(`Failed to fetch news: ${error.message}`);
@@ -82,33 +117,160 @@ export class NewsService {
     }
   }
 
+  private async finish(
+    parsed: { format: FeedFormat; articles: NewsArticle[] },
+    url: string,
+    validators: FeedValidators,
+    options: FeedFetchOptions
+  ): Promise<FeedFetchResult> {
+    const { format, articles } = parsed;
+    if (!options.applyFilters) {
+      return { format, articles, notModified: false, validators, filtered: 0 };
+    }
+
+    // Filter before anything reaches storage
+    const { kept, filtered } = await filterService.apply(articles, options.feedSourceId);
+    if (filtered > 0) {
+      console.log(`Filter rules dropped ${filtered} of ${articles.length} articles from ${url}`);
+    }
+    return { format, articles: kept, notModified: false, validators, filtered };
+  }
+
+  // Pages without a feed: a blog listing read with CSS selectors, or a sitemap
+  private async scrapePage(body: string, url: string, options: FeedFetchOptions): Promise<{ format: FeedFormat; articles: NewsArticle[] }> {
+    const config = options.scrapeConfig || {};
+    const sourceName = options.sourceName || new URL(url).hostname.replace(/^www\./, '');
+
+    if (options.sourceType === 'sitemap') {
+      return { format: 'sitemap', articles: await scraperService.parseSitemap(body, config, sourceName, options.timeout) };
+    }
+    return { format: 'html', articles: scraperService.parseListingPage(body, url, config, sourceName) };
+  }
+
+  private parseFeedData(data: any): { format: FeedFormat; articles: NewsArticle[] } {
+    // Handle different feed formats
+    if (this.isJsonFeed(data)) {
+      // JSON Feed 1.0/1.1 also uses an `items` key, so it must be checked before Inoreader
+      return { format: 'jsonfeed', articles: this.parseJsonFeed(data.items || [], data.title) };
+    } else if (data.items) {
+      // Inoreader JSON format
+      return { format: 'inoreader', articles: this.parseInoreaderFeed(data.items) };
+    } else if (data.feed?.entry) {
+      // Atom feed format
+      const entries = Array.isArray(data.feed.entry) ? data.feed.entry : [data.feed.entry];
+      return { format: 'atom', articles: this.parseAtomFeed(entries, this.textOf(data.feed.title)) };
+    } else if (data.rss?.channel?.item) {
+      // RSS feed format
+      const items = Array.isArray(data.rss.channel.item) ? data.rss.channel.item : [data.rss.channel.item];
+      return { format: 'rss', articles: this.parseRSSFeed(items, this.textOf(data.rss.channel.title)) };
+    } else if (data.channel?.item) {
+      // RSS feed without rss wrapper
+      const items = Array.isArray(data.channel.item) ? data.channel.item : [data.channel.item];
+      return { format: 'rss', articles: this.parseRSSFeed(items, this.textOf(data.channel.title)) };
+    } else if (data['rdf:rdf']?.item) {
+      // RSS 1.0 (RDF) keeps items alongside the channel rather than inside it
+      const items = Array.isArray(data['rdf:rdf'].item) ? data['rdf:rdf'].item : [data['rdf:rdf'].item];
+      return { format: 'rdf', articles: this.parseRDFFeed(items, this.textOf(data['rdf:rdf'].channel?.title)) };
+    } else if (Array.isArray(data)) {
+      // Direct JSON array
+      return { format: 'json', articles: this.parseJSONArray(data) };
+    }
+
+    // Log the data structure to help debug
+    console.log('Unsupported feed format. Data structure:', JSON.stringify(data, null, 2).substring(0, 500));
+    throw new Error('Unsupported feed format');
+  }
+
   private parseInoreaderFeed(items: any[]): NewsArticle[] {
     return items.map((item: any) => ({
       title: item.title || 'Untitled',
       content: item.summary?.content || item.content?.content || '',
       source: item.origin?.title || 'Unknown Source',
-      url: item.canonical?.[0]?.href || item.alternate?.[0]?.href || '',
+      author: item.author || undefined,
+      imageUrl: this.findImage(item.enclosure),
+      url: this.resolveInoreaderUrl(item),
       publishedDate: this.parseDate(item.published ? item.published * 1000 : Date.now()),
     }));
   }
 
-  private parseAtomFeed(entries: any[]): NewsArticle[] {
+  private resolveInoreaderUrl(item: any): string {
+    // Prefer the publisher's canonical link, but skip links that point back at Inoreader itself
+    const links = [...(item.canonical || []), ...(item.alternate || [])]
+      .map((link: any) => link?.href)
+      .filter((href: any): href is string => typeof href === 'string' && href.length > 0);
+
+    return links.find(href => !/^https?:\/\/(www\.)?inoreader\.com\//i.test(href)) || links[0] || '';
+  }
+
+  private isJsonFeed(data: any): boolean {
+    return typeof data.version === 'string' && data.version.startsWith('https://jsonfeed.org/version/');
+  }
+
+  private parseJsonFeed(items: any[], feedTitle?: string): NewsArticle[] {
+    return items.map((item: any) => ({
+      title: item.title || 'Untitled',
+      content: item.content_text || item.content_html || item.summary || '',
+      source: feedTitle || 'JSON Feed',
+      // 1.1 replaced `author` with an `authors` array
+      author: this.listOf(item.authors || item.author).map((author: any) => author?.name).find(Boolean),
+      categories: this.parseCategories(item.tags),
+      imageUrl: item.image || item.banner_image || undefined,
+      url: item.url || item.external_url || item.id || '',
+      publishedDate: this.parseDate(item.date_published || item.date_modified),
+    }));
+  }
+
+  private parseAtomFeed(entries: any[], feedTitle?: string): NewsArticle[] {
     return entries.map((entry: any) => ({
-      title: entry.title?._text || entry.title || 'Untitled',
-      content: entry.summary?._text || entry.content?._text || entry.summary || entry.content || '',
-      source: 'Atom Feed',
-      url: entry.link?._attributes?.href || entry.link?.href || entry.id?._text || entry.id || '',
-      publishedDate: this.parseDate(entry.published?._text || entry.updated?._text || entry.published || entry.updated),
+      title: this.textOf(entry.title) || 'Untitled',
+      content: this.textOf(entry.summary) || this.textOf(entry.content),
+      // Aggregated Atom feeds credit the original feed in <source>
+      source: this.textOf(entry.source?.title) || feedTitle || 'Atom Feed',
+      author: this.listOf(entry.author).map((author: any) => this.textOf(author?.name)).find(Boolean),
+      categories: this.parseCategories(entry.category),
+      imageUrl: this.findImage(entry),
+      url: this.resolveAtomLink(entry),
+      publishedDate: this.parseDate(this.textOf(entry.published) || this.textOf(entry.updated)),
     }));
   }
 
-  private parseRSSFeed(items: any[]): NewsArticle[] {
+  private resolveAtomLink(entry: any): string {
+    const links = this.listOf(entry.link)
+      .map((link: any) => typeof link === 'string' ? { href: link } : link);
+
+    // rel defaults to "alternate"; prefer the HTML page over enclosures, replies and self links
+    const alternates = links.filter((link: any) => !link.rel || link.rel === 'alternate');
+    const preferred = alternates.find((link: any) => !link.type || link.type.includes('html')) || alternates[0];
+    if (preferred?.href) return preferred.href;
+
+    // Entries without an alternate (e.g. podcast episodes) are better identified by a URL id than by their media file
+    const id = this.textOf(entry.id);
+    return /^https?:\/\//i.test(id) ? id : links[0]?.href || id;
+  }
+
+  private parseRSSFeed(items: any[], feedTitle?: string): NewsArticle[] {
     return items.map((item: any) => ({
-      title: item.title?._text || item.title || 'Untitled',
-      content: item.description?._text || item.description || item['content:encoded']?._text || item['content:encoded'] || '',
-      source: 'RSS Feed',
-      url: item.link?._text || item.link || item.guid?._text || item.guid || '',
-      publishedDate: this.parseDate(item.pubDate?._text || item.pubDate || item.date?._text || item.date),
+      title: this.textOf(item.title) || 'Untitled',
+      content: this.textOf(item.description) || this.textOf(item['content:encoded']),
+      // <source> names the originating channel when the item was syndicated
+      source: this.textOf(item.source) || feedTitle || 'RSS Feed',
+      author: this.textOf(item['dc:creator']) || this.parseRSSAuthor(this.textOf(item.author)),
+      categories: this.parseCategories(item.category),
+      imageUrl: this.findImage(item),
+      url: this.textOf(item.link) || this.textOf(item.guid),
+      publishedDate: this.parseDate(this.textOf(item.pubdate) || this.textOf(item['dc:date'])),
+    }));
+  }
+
+  private parseRDFFeed(items: any[], feedTitle?: string): NewsArticle[] {
+    return items.map((item: any) => ({
+      title: this.textOf(item.title) || 'Untitled',
+      content: this.textOf(item['content:encoded']) || this.textOf(item.description),
+      source: feedTitle || 'RSS Feed',
+      author: this.textOf(item['dc:creator']) || undefined,
+      categories: this.parseCategories(item['dc:subject']),
+      url: this.textOf(item.link) || item['rdf:about'] || '',
+      publishedDate: this.parseDate(this.textOf(item['dc:date'])),
     }));
   }
 
@@ -117,11 +279,71 @@ export class NewsService {
       title: item.title || 'Untitled',
       content: item.content || item.description || item.summary || '',
       source: item.source || item.publisher || 'Unknown Source',
+      author: typeof item.author === 'string' ? item.author : item.author?.name,
+      categories: this.parseCategories(item.categories || item.tags),
+      imageUrl: item.imageUrl || item.image || undefined,
       url: item.url || item.link || '',
       publishedDate: this.parseDate(item.publishedDate || item.date || item.published),
     }));
   }
 
+  // RSS 2.0 <author> is an email address, optionally followed by "(Name)"
+  private parseRSSAuthor(author: string): string | undefined {
+    if (!author) return undefined;
+    const name = author.match(/\(([^)]+)\)/);
+    return name ? name[1].trim() : author.trim();
+  }
+
+  private parseCategories(value: any): string[] {
+    const categories = this.listOf(value)
+      .map((category: any) => this.textOf(category) || category?.label || category?.term || '')
+      .map((category: string) => category.trim())
+      .filter((category: string) => category.length > 0);
+
+    return Array.from(new Set(categories));
+  }
+
+  // Looks through Media RSS thumbnails, then image enclosures
+  private findImage(item: any): string | undefined {
+    if (!item) return undefined;
+
+    const thumbnails = [
+      ...this.listOf(item['media:thumbnail']),
+      ...this.listOf(item['media:group']?.['media:thumbnail']),
+    ];
+    const attachments = [
+      ...(Array.isArray(item) ? item : []),
+      ...this.listOf(item['media:content']),
+      ...this.listOf(item['media:group']?.['media:content']),
+      ...this.listOf(item.enclosure),
+      ...this.listOf(item.link).filter((link: any) => link?.rel === 'enclosure'),
+    ];
+
+    const thumbnail = thumbnails.map(candidate => candidate?.url).find(Boolean);
+    if (thumbnail) return thumbnail;
+
+    const image = attachments.find(candidate => {
+      const url = candidate?.url || candidate?.href;
+      if (typeof url !== 'string') return false;
+      return candidate.medium === 'image'
+        || (typeof candidate.type === 'string' && candidate.type.startsWith('image/'))
+        || /\.(jpe?g|png|gif|webp)(\?|$)/i.test(url);
+    });
+    return image ? image.url || image.href : undefined;
+  }
+
+  private listOf(value: any): any[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  // xml2js puts element text under `_` once the element also carries attributes
+  private textOf(value: any): string {
+    if (typeof value === 'string') return value;
+    if (value && typeof value._ === 'string') return value._;
+    return '';
+  }
+
   private parseDate(dateInput: any): Date {
     if (!dateInput) {
       return new Date();
@@ -0,0 +1,123 @@
+import * as xml2js from 'xml2js';
+import { normalizeUrl } from './deduplicationService';
+import type { FeedSource, InsertFeedSource } from '@shared/schema';
+
+export interface OpmlFeed {
+  name: string;
+  url: string;
+  category: string;
+  description?: string;
+  tags: string[];
+}
+
+export type OpmlImportStatus = 'new' | 'duplicate';
+
+export interface OpmlImportEntry extends OpmlFeed {
+  status: OpmlImportStatus;
+}
+
+const DEFAULT_CATEGORY = 'Uncategorized';
+
+export class OpmlService {
+  async parse(xml: string): Promise<OpmlFeed[]> {
+    const parser = new xml2js.Parser({
+      explicitArray: true,
+      trim: true,
+      normalizeTags: true
+    });
+    const data = await parser.parseStringPromise(xml);
+
+    const body = data?.opml?.body?.[0];
+    if (!body) {
+      throw new Error('Not an OPML document');
+    }
+
+    const feeds: OpmlFeed[] = [];
+    this.collectOutlines(body.outline || [], [], feeds);
+    return feeds;
+  }
+
+  // Top-level folders become the category, deeper folders become tags
+  private collectOutlines(outlines: any[], folders: string[], feeds: OpmlFeed[]) {
+    for (const outline of outlines) {
+      const attributes = outline.$ || {};
+      const name = attributes.title || attributes.text || '';
+
+      if (!attributes.xmlUrl) {
+        this.collectOutlines(outline.outline || [], name ? [...folders, name] : folders, feeds);
+        continue;
+      }
+
+      // Some readers also record folders in a comma-separated `category` attribute
+      const categoryTags = (attributes.category || '')
+        .split(',')
+        .flatMap((path: string) => path.split('/'))
+        .map((tag: string) => tag.trim())
+        .filter((tag: string) => tag.length > 0);
+
+      feeds.push({
+        name: name || attributes.xmlUrl,
+        url: attributes.xmlUrl,
+        category: folders[0] || DEFAULT_CATEGORY,
+        description: attributes.description || undefined,
+        tags: Array.from(new Set([...folders.slice(1), ...categoryTags])),
+      });
+    }
+  }
+
+  // Marks feeds already in the table, or repeated earlier in the same file, as duplicates
+  planImport(feeds: OpmlFeed[], existing: FeedSource[]): OpmlImportEntry[] {
+    const seen = new Set(existing.map(feedSource => normalizeUrl(feedSource.url)));
+
+    return feeds.map(feed => {
+      const key = normalizeUrl(feed.url);
+      const status: OpmlImportStatus = seen.has(key) ? 'duplicate' : 'new';
+      seen.add(key);
+      return { ...feed, status };
+    });
+  }
+
+  toFeedSource(feed: OpmlFeed): InsertFeedSource {
+    return {
+      name: feed.name,
+      url: feed.url,
+      sourceType: 'feed',
+      category: feed.category,
+      description: feed.description || null,
+      tags: feed.tags,
+    };
+  }
+
+  build(feedSources: FeedSource[], title = 'AI Newsletter Feed Sources'): string {
+    const byCategory = new Map<string, FeedSource[]>();
+    // Scraped pages have no feed URL another reader could subscribe to
+    for (const feedSource of feedSources.filter(source => source.sourceType === 'feed')) {
+      const group = byCategory.get(feedSource.category) || [];
+      group.push(feedSource);
+      byCategory.set(feedSource.category, group);
+    }
+
+    const folders = Array.from(byCategory.entries()).map(([category, group]) => ({
+      $: { text: category, title: category },
+      outline: group.map(feedSource => ({
+        $: {
+          type: 'rss',
+          text: feedSource.name,
+          title: feedSource.name,
+          xmlUrl: feedSource.url,
+          ...(feedSource.description ? { description: feedSource.description } : {}),
+          ...(feedSource.tags?.length ? { category: feedSource.tags.join(',') } : {}),
+        },
+      })),
+    }));
+
+    const builder = new xml2js.Builder({ rootName: 'opml', xmldec: { version: '1.0', encoding: 'UTF-8' } });
+    return builder.buildObject({
+      $: { version: '2.0' },
+      head: { title, dateCreated: new Date().toUTCString() },
+      body: { outline: folders },
+    });
+  }
+}
+
+export const opmlService = new OpmlService();
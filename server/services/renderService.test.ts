@@ -0,0 +1,44 @@
+import * as cheerio from 'cheerio';
+import { describe, expect, it } from 'vitest';
+import { RenderService, type CitedArticle } from './renderService';
+import type { StructuredNewsletter } from '@shared/schema';
+
+const newsletter = (articleIds: number[]): StructuredNewsletter => ({
+  title: 'AI Weekly',
+  intro: '',
+  sections: [{ heading: 'Chips', items: [{ headline: 'Nvidia ships Blackwell Ultra', summary: 'Faster inference.', articleIds }] }],
+  outro: '',
+});
+
+describe('RenderService', () => {
+  const service = new RenderService();
+
+  it('links each cited article by its source', () => {
+    const articles: CitedArticle[] = [
+      { id: 1, title: 'Blackwell Ultra', source: 'Chip Report', url: 'https://chips.example.com/blackwell' },
+      { id: 2, title: 'Blackwell pricing', source: 'Hardware Daily', url: 'https://hw.example.com/a?x=1&y=2' },
+    ];
+
+    expect(service.toHtml(newsletter([1, 2]), articles)).toContain(
+      '<em>Sources: <a href="https://chips.example.com/blackwell">Chip Report</a>, ' +
+      '<a href="https://hw.example.com/a?x=1&amp;y=2">Hardware Daily</a></em>'
+    );
+  });
+
+  it('keeps markup and link syntax in feed sources and URLs out of the rendered citation', () => {
+    const articles: CitedArticle[] = [{
+      id: 1,
+      title: 'Blackwell Ultra',
+      source: '<img src=x onerror=alert(1)> *Chip* [Report](https://evil.example.com)',
+      url: 'https://chips.example.com/a b) "x" <script>',
+    }];
+
+    const $ = cheerio.load(service.toHtml(newsletter([1]), articles), null, false);
+    const links = $('a');
+
+    expect($('img, script')).toHaveLength(0);
+    expect(links).toHaveLength(1);
+    expect(links.attr('href')).toBe('https://chips.example.com/a%20b)%20%22x%22%20%3Cscript%3E');
+    expect(links.text()).toBe('<img src=x onerror=alert(1)> *Chip* [Report](https://evil.example.com)');
+  });
+});
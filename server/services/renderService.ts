@@ -0,0 +1,95 @@
+import { markdownService } from './markdownService';
+import type { Article, StructuredNewsletter } from '@shared/schema';
+
+export type CitedArticle = Pick<Article, 'id' | 'title' | 'source' | 'url'>;
+
+// Source names and URLs come from feeds; escaped so each citation stays one plain link whatever they contain
+function markdownLink(text: string, url: string): string {
+  const label = text.replace(/\s+/g, ' ').trim().replace(/[\\`*_[\]<>&!]/g, '\\$&');
+  const destination = url.trim().replace(/[<>\\\s]/g, char => encodeURIComponent(char));
+  return `[${label}](<${destination}>)`;
+}
+
+export class RenderService {
+  // Streamed tool input arrives as a partial object; fill the gaps so it can be rendered as it grows
+  fromPartial(partial: any): StructuredNewsletter {
+    const sections = Array.isArray(partial?.sections) ? partial.sections : [];
+    return {
+      title: typeof partial?.title === 'string' ? partial.title : '',
+      intro: typeof partial?.intro === 'string' ? partial.intro : '',
+      sections: sections.map((section: any) => ({
+        heading: typeof section?.heading === 'string' ? section.heading : '',
+        items: (Array.isArray(section?.items) ? section.items : []).map((item: any) => ({
+          headline: typeof item?.headline === 'string' ? item.headline : '',
+          summary: typeof item?.summary === 'string' ? item.summary : '',
+          articleIds: Array.isArray(item?.articleIds) ? item.articleIds.filter((id: unknown) => typeof id === 'number') : [],
+        })),
+      })),
+      outro: typeof partial?.outro === 'string' ? partial.outro : '',
+    };
+  }
+
+  render(newsletter: StructuredNewsletter, articles: CitedArticle[], format: string): string {
+    if (format === 'html') return this.toHtml(newsletter, articles);
+    if (format === 'plain') return this.toPlain(newsletter, articles);
+    return this.toMarkdown(newsletter, articles);
+  }
+
+  toMarkdown(newsletter: StructuredNewsletter, articles: CitedArticle[]): string {
+    const byId = new Map(articles.map(article => [article.id, article]));
+    const blocks: string[] = [];
+
+    if (newsletter.title) blocks.push(`# ${newsletter.title}`);
+    if (newsletter.intro) blocks.push(newsletter.intro.trim());
+
+    for (const section of newsletter.sections) {
+      if (section.heading) blocks.push(`## ${section.heading}`);
+      for (const item of section.items) {
+        if (item.headline) blocks.push(`### ${item.headline}`);
+        if (item.summary) blocks.push(item.summary.trim());
+        const sources = this.citationsFor(item.articleIds, byId)
+          .map(article => markdownLink(article.source, article.url));
+        if (sources.length > 0) blocks.push(`*Sources: ${sources.join(', ')}*`);
+      }
+    }
+
+    if (newsletter.outro) blocks.push(newsletter.outro.trim());
+    return blocks.join('\n\n');
+  }
+
+  // Rendered from the markdown so structured and free-form issues come out of the same renderer
+  toHtml(newsletter: StructuredNewsletter, articles: CitedArticle[]): string {
+    return markdownService.toHtml(this.toMarkdown(newsletter, articles));
+  }
+
+  toPlain(newsletter: StructuredNewsletter, articles: CitedArticle[]): string {
+    const byId = new Map(articles.map(article => [article.id, article]));
+    const blocks: string[] = [];
+
+    if (newsletter.title) blocks.push(newsletter.title.toUpperCase());
+    if (newsletter.intro) blocks.push(newsletter.intro.trim());
+
+    for (const section of newsletter.sections) {
+      if (section.heading) blocks.push(section.heading.toUpperCase());
+      for (const item of section.items) {
+        const sources = this.citationsFor(item.articleIds, byId)
+          .map(article => `${article.source}: ${article.url}`);
+        blocks.push([item.headline, item.summary.trim(), ...sources.map(source => `- ${source}`)].filter(Boolean).join('\n'));
+      }
+    }
+
+    if (newsletter.outro) blocks.push(newsletter.outro.trim());
+    return blocks.join('\n\n');
+  }
+
+  private citationsFor(articleIds: number[], byId: Map<number, CitedArticle>): CitedArticle[] {
+    const cited: CitedArticle[] = [];
+    for (const id of articleIds) {
+      const article = byId.get(id);
+      if (article && !cited.includes(article)) cited.push(article);
+    }
+    return cited;
+  }
+}
+
+export const renderService = new RenderService();
@@ -0,0 +1,203 @@
+import { storage } from '../storage';
+import { markdownService } from './markdownService';
+import { generationService } from './generationService';
+import { templateService } from './templateService';
+import type { SplicedIssue } from './sectionService';
+import type { DiffSegment, Newsletter, NewsletterEdit, NewsletterRevision, RevisionKind } from '@shared/schema';
+
+// Author recorded for content that came straight from generation
+export const GENERATED_AUTHOR = 'Claude';
+const DEFAULT_EDITOR = 'Editor';
+// Above this many word pairs (32MB of table) the diff falls back to "everything changed"
+const MAX_DIFF_CELLS = 16_000_000;
+
+// Each word carries its trailing whitespace, so joining tokens gives back the exact text
+function tokenize(text: string): string[] {
+  return text.match(/^\s+|\S+\s*/g) || [];
+}
+
+function pushSegment(segments: DiffSegment[], type: DiffSegment['type'], text: string) {
+  if (!text) return;
+  const last = segments[segments.length - 1];
+  if (last && last.type === type) last.text += text;
+  else segments.push({ type, text });
+}
+
+export class RevisionService {
+  async record(
+    newsletter: Newsletter,
+    author: string,
+    kind: RevisionKind,
+    restoredFromId?: number
+  ): Promise<NewsletterRevision> {
+    return await storage.createNewsletterRevision({
+      newsletterId: newsletter.id,
+      content: newsletter.content,
+      htmlContent: newsletter.htmlContent,
+      structuredContent: newsletter.structuredContent,
+      wordCount: newsletter.wordCount,
+      author,
+      kind,
+      restoredFromId: restoredFromId ?? null,
+    });
+  }
+
+  // Saves a manual edit as the newsletter's current content and records it as a revision.
+  // Callers check that the issue isn't published yet.
+  async applyEdit(newsletter: Newsletter, edit: NewsletterEdit): Promise<{ newsletter: Newsletter; revision: NewsletterRevision }> {
+    // Content is kept in the template's format, so editor HTML is converted and re-rendered like generated content
+    const format = (await templateService.resolve(newsletter.templateId))?.outputFormat || 'markdown';
+    const content = edit.content ?? this.fromEditorHtml(edit.htmlContent!, format);
+    // Hand-edited text no longer matches the generated sections
+    return await this.replaceContent(
+      newsletter,
+      { content, htmlContent: markdownService.render(content, format), structuredContent: null },
+      edit.author || DEFAULT_EDITOR,
+      'edited'
+    );
+  }
+
+  // Saves an issue with one section rewritten by Claude; structured issues keep their sections
+  async applySectionRewrite(newsletter: Newsletter, spliced: SplicedIssue): Promise<{ newsletter: Newsletter; revision: NewsletterRevision }> {
+    return await this.replaceContent(newsletter, spliced, GENERATED_AUTHOR, 'regenerated');
+  }
+
+  // Copies an old revision forward as the newest one; history is never rewritten.
+  // A structured revision comes back structured, so its sections can be regenerated again
+  async restore(newsletter: Newsletter, revision: NewsletterRevision, author?: string): Promise<{ newsletter: Newsletter; revision: NewsletterRevision }> {
+    // Old revisions may hold HTML from before the full sanitizer
+    const htmlContent = revision.htmlContent
+      ? markdownService.sanitizeHtml(revision.htmlContent)
+      : markdownService.render(revision.content, (await templateService.resolve(newsletter.templateId))?.outputFormat);
+    return await this.replaceContent(
+      newsletter,
+      { content: revision.content, htmlContent, structuredContent: revision.structuredContent ?? null },
+      author || DEFAULT_EDITOR,
+      'restored',
+      revision.id
+    );
+  }
+
+  // Issues rendered before the HTML went through a full sanitizer are cleaned before anything serves or publishes them;
+  // rows that are already clean aren't written
+  async sanitizeStoredHtml(): Promise<void> {
+    let sanitized = 0;
+    for (const newsletter of await storage.getNewsletters()) {
+      if (!newsletter.htmlContent) continue;
+      const htmlContent = markdownService.sanitizeHtml(newsletter.htmlContent);
+      if (htmlContent !== newsletter.htmlContent) {
+        await storage.updateNewsletter(newsletter.id, { htmlContent });
+        sanitized++;
+      }
+    }
+    if (sanitized > 0) {
+      console.log(`Sanitized the HTML of ${sanitized} stored newsletter(s)`);
+    }
+  }
+
+  // Word-level diff from one revision's content to another's
+  diff(from: string, to: string): DiffSegment[] {
+    const a = tokenize(from);
+    const b = tokenize(to);
+    // Words are compared without their spacing, so a word that merely moved to the end still matches
+    const keyA = a.map(token => token.trimEnd());
+    const keyB = b.map(token => token.trimEnd());
+
+    // Edits are usually local, so matching ends are peeled off before the quadratic part
+    let prefix = 0;
+    while (prefix < a.length && prefix < b.length && keyA[prefix] === keyB[prefix]) prefix++;
+    let suffix = 0;
+    while (suffix < a.length - prefix && suffix < b.length - prefix && keyA[a.length - 1 - suffix] === keyB[b.length - 1 - suffix]) suffix++;
+
+    const segments: DiffSegment[] = [];
+    pushSegment(segments, 'equal', b.slice(0, prefix).join(''));
+
+    const midA = a.slice(prefix, a.length - suffix);
+    const midB = b.slice(prefix, b.length - suffix);
+    const midKeyA = keyA.slice(prefix, a.length - suffix);
+    const midKeyB = keyB.slice(prefix, b.length - suffix);
+    const n = midA.length;
+    const m = midB.length;
+
+    if ((n + 1) * (m + 1) > MAX_DIFF_CELLS) {
+      pushSegment(segments, 'removed', midA.join(''));
+      pushSegment(segments, 'added', midB.join(''));
+    } else {
+      // lengths[i * (m + 1) + j]: longest common subsequence of midA[i..] and midB[j..]
+      const lengths = new Uint16Array((n + 1) * (m + 1));
+      for (let i = n - 1; i >= 0; i--) {
+        for (let j = m - 1; j >= 0; j--) {
+          lengths[i * (m + 1) + j] = midKeyA[i] === midKeyB[j]
+            ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+            : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+        }
+      }
+
+      let i = 0;
+      let j = 0;
+      while (i < n && j < m) {
+        if (midKeyA[i] === midKeyB[j]) {
+          pushSegment(segments, 'equal', midB[j]);
+          i++;
+          j++;
+        } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+          pushSegment(segments, 'removed', midA[i++]);
+        } else {
+          pushSegment(segments, 'added', midB[j++]);
+        }
+      }
+      while (i < n) pushSegment(segments, 'removed', midA[i++]);
+      while (j < m) pushSegment(segments, 'added', midB[j++]);
+    }
+
+    pushSegment(segments, 'equal', b.slice(b.length - suffix).join(''));
+    return segments;
+  }
+
+  private fromEditorHtml(html: string, format: string): string {
+    if (format === 'html') return markdownService.sanitizeHtml(html);
+    if (format === 'plain') return markdownService.toText(html);
+    return markdownService.fromHtml(html);
+  }
+
+  private async replaceContent(
+    newsletter: Newsletter,
+    update: SplicedIssue,
+    author: string,
+    kind: RevisionKind,
+    restoredFromId?: number
+  ): Promise<{ newsletter: Newsletter; revision: NewsletterRevision }> {
+    // Issues generated before revisions existed get their original text recorded first
+    const existing = await storage.getNewsletterRevisions(newsletter.id);
+    if (existing.length === 0) {
+      await this.record(newsletter, GENERATED_AUTHOR, 'generated');
+    }
+
+    const { content, htmlContent, structuredContent } = update;
+    const wordCount = content.split(/\s+/).length;
+    const [articles, settings, template] = await Promise.all([
+      storage.getNewsletterArticles(newsletter.id),
+      storage.getSettings(),
+      newsletter.templateId ? storage.getNewsletterTemplate(newsletter.templateId) : Promise.resolve(undefined),
+    ]);
+
+    // The old fact check no longer describes the text
+    const verificationReport = settings
+      ? generationService.verify(content, articles, { settings, template, issueNumber: newsletter.issueNumber, date: newsletter.date })
+      : null;
+
+    const updated = await storage.updateNewsletter(newsletter.id, {
+      content,
+      htmlContent,
+      wordCount,
+      verificationReport,
+      structuredContent,
+    });
+
+    const current = updated || { ...newsletter, content, htmlContent, wordCount, structuredContent };
+    const revision = await this.record(current, author, kind, restoredFromId);
+    return { newsletter: current, revision };
+  }
+}
+
+export const revisionService = new RevisionService();
@@ -1,8 +1,11 @@
 import * as cron from 'node-cron';
 import { storage } from '../storage';
-import { newsService } from './newsService';
-import { ClaudeService } from './claudeService';
-import { EmailService } from './emailService';
+import { newsService, type NewsArticle } from './newsService';
+import { deduplicationService } from './deduplicationService';
+import { extractionService } from './extractionService';
+import { scoringService } from './scoringService';
+import { jobQueueService } from './jobQueueService';
+import type { Article } from '@shared/schema';
 
 export class SchedulerService {
   private jobs: Map<number, cron.ScheduledTask> = new Map();
@@ -93,22 +96,16 @@ export class SchedulerService {
       // Fetch news articles
       const articles = await newsService.fetchNewsFromUrl(settings.defaultNewsSource);
       
-      // Clear existing articles and add new ones
-      await storage.clearArticles();
-      
-      // Auto-select articles based on settings
-      const selectedArticles = articles.slice(0, settings.maxDailyArticles || 5);
-      
-      for (const article of selectedArticles) {
-        await storage.createArticle({
-          ...article,
-          selected: settings.autoSelectArticles || false
-        });
-      }
+      // Add to the article library and auto-select based on settings
+      const selectedArticles = await this.ingestAndSelect(
+        articles,
+        settings.maxDailyArticles || 5,
+        settings.autoSelectArticles || false
+      );
 
       // Generate newsletter if auto-approval is enabled or approval is not required
       if (!settings.approvalRequired) {
-        await this.generateAndProcessNewsletter(settings);
+        await this.generateAndProcessNewsletter(settings, settings.autoSelectArticles ? selectedArticles : []);
       } else {
         await storage.createActivityLog({
           message: 'Daily articles fetched, awaiting manual generation',
@@ -137,17 +134,8 @@ export class SchedulerService {
       // Fetch articles from scheduled source
       const articles = await newsService.fetchNewsFromUrl(schedule.newsSourceUrl);
       
-      // Clear existing articles and add new ones
-      await storage.clearArticles();
-      
-      const selectedArticles = articles.slice(0, schedule.maxArticles || 5);
-      
-      for (const article of selectedArticles) {
-        await storage.createArticle({
-          ...article,
-          selected: true // Auto-select for scheduled jobs
-        });
-      }
+      // Auto-select for scheduled jobs
+      const selectedArticles = await this.ingestAndSelect(articles, schedule.maxArticles || 5, true);
 
       // Update last run time
       await storage.updateSchedule(schedule.id, {
@@ -159,7 +147,7 @@ export class SchedulerService {
       if (schedule.autoApprove) {
         const settings = await storage.getSettings();
         if (settings) {
-          await this.generateAndProcessNewsletter(settings);
+          await this.generateAndProcessNewsletter(settings, selectedArticles);
         }
       }
 
@@ -178,61 +166,53 @@ export class SchedulerService {
     }
   }
 
-  private async generateAndProcessNewsletter(settings: any) {
-    if (!settings.claudeApiKey) return;
-
-    const articles = await storage.getArticles();
-    const selectedArticles = articles.filter(article => article.selected);
+  // Merges fetched articles into the library and picks the highest-scoring unused ones for the next issue
+  private async ingestAndSelect(articles: NewsArticle[], maxArticles: number, select: boolean): Promise<Article[]> {
+    const session = await deduplicationService.createSession();
+    const usedArticleIds = new Set(await storage.getUsedArticleIds());
+    const candidates: Article[] = [];
+
+    for (const article of articles) {
+      try {
+        const { article: saved } = await session.ingest({ ...article, selected: false });
+        if (!usedArticleIds.has(saved.id) && !candidates.some(candidate => candidate.id === saved.id)) {
+          candidates.push(saved);
+        }
+      } catch (error) {
+        console.warn(`Failed to create article: ${article.title}`, error);
+      }
+    }
 
-    if (selectedArticles.length === 0) return;
+    const ranked = await scoringService.scoreArticles(candidates, { useClaude: true });
+    const chosen = ranked.slice(0, maxArticles);
+    await extractionService.enrichArticles(chosen);
+    if (select) {
+      for (const article of chosen) {
+        await storage.updateArticle(article.id, { selected: true, status: 'reviewed' });
+      }
+    }
+    // Re-read so callers see any extracted full text
+    const refreshed = await Promise.all(chosen.map(article => storage.getArticle(article.id)));
+    return refreshed.filter((article): article is Article => !!article);
+  }
 
-    const claudeService = new ClaudeService(settings.claudeApiKey);
-    const nextIssueNumber = await storage.getNextIssueNumber();
-
-    const content = await claudeService.generateNewsletter({
-      articles: selectedArticles.map(article => ({
-        title: article.title,
-        content: article.content || undefined,
-        source: article.source,
-        publishedDate: article.publishedDate,
-      })),
-      issueNumber: nextIssueNumber,
-      date: new Date(),
-      newsletterTitle: settings.newsletterTitle || "AI Weekly",
-      temperature: parseFloat(settings.claudeTemperature || "0.7"),
-      maxTokens: settings.claudeMaxTokens || 4000,
-      model: settings.claudeModel || "claude-sonnet-4-20250514"
-    });
+  // Generation runs as a background job so Claude rate limits and overloads are retried instead of losing the issue
+  private async generateAndProcessNewsletter(settings: any, selectedArticles: Article[]) {
+    if (!settings.claudeApiKey) return;
 
-    const wordCount = content.split(/\s+/).length;
+    if (selectedArticles.length === 0) return;
 
-    const newsletter = await storage.createNewsletter({
-      issueNumber: nextIssueNumber,
-      title: `${settings.newsletterTitle || "AI Weekly"} #${nextIssueNumber}`,
-      content,
-      htmlContent: null,
-      date: new Date(),
-      status: settings.approvalRequired ? "generated" : "approved",
-      frequency: "daily",
+    const job = await jobQueueService.enqueue('generate', {
+      articleIds: selectedArticles.map(article => article.id),
+      frequency: 'daily',
       scheduleTime: settings.dailyScheduleTime,
-      approvalRequired: settings.approvalRequired || false,
-      approvalEmail: settings.approvalEmail,
-      approvedBy: null,
-      wordCount,
-      beehiivId: null,
-      beehiivUrl: null
     });
 
-    // Send approval email if required
-    if (settings.approvalRequired && settings.sendgridApiKey && settings.approvalEmail) {
-      const emailService = new EmailService(settings.sendgridApiKey);
-      await emailService.sendApprovalEmail(
-        settings.approvalEmail,
-        newsletter.title,
-        content,
-        newsletter.id
-      );
-    }
+    await storage.createActivityLog({
+      message: 'Newsletter generation queued',
+      details: `Job #${job.id} with ${selectedArticles.length} articles`,
+      type: 'info'
+    });
   }
 
   private calculateNextRun(frequency: string, time: string): Date {
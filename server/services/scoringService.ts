@@ -0,0 +1,135 @@
+import { storage } from '../storage';
+import { ClaudeService } from './claudeService';
+import { RECENCY_HALF_LIFE_HOURS, RECENCY_WEIGHT, type Article, type FeedSource, type ScoreBreakdown, type Settings } from '@shared/schema';
+
+export interface ScoringOptions {
+  useClaude?: boolean; // only honoured when Claude scoring is enabled in settings
+}
+
+// Relative weights of each stored component; inactive components are left out and the rest renormalized
+const WEIGHTS = {
+  source: 0.2,
+  topic: 0.25,
+  coverage: 0.2,
+  claude: 0.5,
+};
+
+const CLAUDE_BATCH_SIZE = 20;
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export class ScoringService {
+  // Halves every RECENCY_HALF_LIFE_HOURS; future-dated items count as brand new
+  recencyScore(publishedDate: Date, now = Date.now()): number {
+    const ageHours = Math.max(0, (now - new Date(publishedDate).getTime()) / (60 * 60 * 1000));
+    return Math.pow(0.5, ageHours / RECENCY_HALF_LIFE_HOURS);
+  }
+
+  // The stored score with recency blended in as of `now`; storage ranks sort=score queries the same way
+  rankedScore(article: Article, now = Date.now()): number {
+    if (article.relevanceScore === null) return -1;
+    return article.relevanceScore * (1 - RECENCY_WEIGHT) + 100 * RECENCY_WEIGHT * this.recencyScore(article.publishedDate, now);
+  }
+
+  // Three distinct keyword hits (or every keyword, if fewer are configured) is a full match
+  topicScore(article: Article, keywords: string[]): { score: number; matched: string[] } {
+    const text = `${article.title}\n${article.content || ''}`;
+    const matched = keywords.filter(keyword =>
+      new RegExp(`(^|[^a-z0-9])${escapeRegExp(keyword.toLowerCase())}($|[^a-z0-9])`, 'i').test(text)
+    );
+    const target = Math.min(3, keywords.length);
+    return { score: target > 0 ? Math.min(1, matched.length / target) : 0, matched };
+  }
+
+  // One source scores 0; four or more sources reporting the same story score 1
+  coverageScore(article: Article): number {
+    const sources = article.contributingSources?.length || 1;
+    return Math.min(1, (sources - 1) / 3);
+  }
+
+  sourceScore(article: Article, feedSources: Map<number, FeedSource>): number {
+    const feedSource = article.feedSourceId ? feedSources.get(article.feedSourceId) : undefined;
+    const weight = feedSource?.weight ?? 50;
+    return Math.max(0, Math.min(100, weight)) / 100;
+  }
+
+  total(breakdown: ScoreBreakdown, hasKeywords: boolean): number {
+    const components: Array<[number, number]> = [
+      [WEIGHTS.source, breakdown.source],
+      [WEIGHTS.coverage, breakdown.coverage],
+    ];
+    if (hasKeywords) components.push([WEIGHTS.topic, breakdown.topic]);
+    if (breakdown.claude !== undefined) components.push([WEIGHTS.claude, breakdown.claude]);
+
+    const weightSum = components.reduce((sum, [weight]) => sum + weight, 0);
+    const weighted = components.reduce((sum, [weight, value]) => sum + weight * value, 0);
+    return Math.round((weighted / weightSum) * 100);
+  }
+
+  // Scores and persists each article, returning them best first as of now
+  async scoreArticles(articles: Article[], options: ScoringOptions = {}): Promise<Article[]> {
+    if (articles.length === 0) return [];
+
+    const settings = await storage.getSettings();
+    const keywords = (settings?.relevanceKeywords || []).map(keyword => keyword.trim()).filter(Boolean);
+    const feedSources = new Map((await storage.getFeedSources()).map(feedSource => [feedSource.id, feedSource]));
+    const claudeScores = options.useClaude ? await this.claudeScores(articles, keywords, settings) : null;
+
+    const scored: Article[] = [];
+    for (let i = 0; i < articles.length; i++) {
+      const article = articles[i];
+      const topic = this.topicScore(article, keywords);
+      const breakdown: ScoreBreakdown = {
+        source: this.sourceScore(article, feedSources),
+        topic: topic.score,
+        coverage: this.coverageScore(article),
+        matchedKeywords: topic.matched,
+      };
+      // Without a fresh Claude score the last one still counts, so rescoring doesn't quietly change the blend
+      const claudeScore = claudeScores?.[i];
+      const claude = claudeScore !== undefined ? claudeScore / 10 : article.scoreBreakdown?.claude;
+      if (claude !== undefined) {
+        breakdown.claude = claude;
+      }
+
+      const relevanceScore = this.total(breakdown, keywords.length > 0);
+      const updated = await storage.updateArticle(article.id, { relevanceScore, scoreBreakdown: breakdown });
+      scored.push(updated || { ...article, relevanceScore, scoreBreakdown: breakdown });
+    }
+
+    const now = Date.now();
+    return scored.sort((a, b) => this.rankedScore(b, now) - this.rankedScore(a, now));
+  }
+
+  // A failed Claude call leaves those articles with the heuristic score only
+  private async claudeScores(articles: Article[], topics: string[], settings: Settings | undefined): Promise<Array<number | undefined> | null> {
+    if (!settings?.claudeScoringEnabled || !settings.claudeApiKey) return null;
+
+    const claudeService = new ClaudeService(settings.claudeApiKey);
+    const scores: Array<number | undefined> = [];
+
+    for (let i = 0; i < articles.length; i += CLAUDE_BATCH_SIZE) {
+      const batch = articles.slice(i, i + CLAUDE_BATCH_SIZE);
+      try {
+        const batchScores = await claudeService.scoreRelevance({
+          articles: batch.map(article => ({
+            title: article.title,
+            content: article.fullContent || article.content || undefined,
+          })),
+          topics,
+          model: settings.claudeModel || undefined,
+        });
+        scores.push(...batchScores);
+      } catch (error) {
+        console.warn('Claude relevance scoring failed:', error instanceof Error ? error.message : error);
+        scores.push(...batch.map(() => undefined));
+      }
+    }
+
+    return scores;
+  }
+}
+
+export const scoringService = new ScoringService();
@@ -0,0 +1,182 @@
+import axios from 'axios';
+import * as cheerio from 'cheerio';
+import * as xml2js from 'xml2js';
+import type { ScrapeConfig } from '@shared/schema';
+import type { NewsArticle } from './newsService';
+
+interface SitemapEntry {
+  url: string;
+  date?: string;
+  title?: string;
+  imageUrl?: string;
+}
+
+const DEFAULT_MAX_ITEMS = 20;
+// A sitemap index can list hundreds of files; only the most recently modified are read
+const MAX_CHILD_SITEMAPS = 5;
+
+function listOf(value: any): any[] {
+  if (value === undefined || value === null) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+function textOf(value: any): string {
+  if (typeof value === 'string') return value;
+  if (value && typeof value._ === 'string') return value._;
+  return '';
+}
+
+function timeOf(date?: string): number {
+  const time = date ? new Date(date).getTime() : NaN;
+  return isNaN(time) ? 0 : time;
+}
+
+export class ScraperService {
+  // Reads posts off a blog index page; selectors other than the item selector are relative to each item
+  parseListingPage(html: string, pageUrl: string, config: ScrapeConfig, sourceName: string): NewsArticle[] {
+    if (!config.itemSelector) {
+      throw new Error('An item selector is required for HTML sources');
+    }
+
+    const $ = cheerio.load(html);
+    const seen = new Set<string>();
+    const articles: NewsArticle[] = [];
+
+    $(config.itemSelector).each((_, element) => {
+      const item = $(element);
+      // The item itself can be the match, e.g. when every post is a single <a> card
+      const pick = (selector: string | undefined, fallback: string) => {
+        const target = selector || fallback;
+        return item.is(target) ? item : item.find(target).first();
+      };
+
+      const link = pick(config.linkSelector, 'a[href]');
+      const href = link.attr('href');
+      const url = href ? this.resolveUrl(href, pageUrl) : '';
+      const title = this.clean(pick(config.titleSelector, 'h1, h2, h3, h4').text()) || this.clean(link.text());
+
+      // Listing pages often link each post twice (image and headline)
+      if (!url || !title || seen.has(url)) return;
+      seen.add(url);
+
+      const date = pick(config.dateSelector, 'time');
+      const summary = config.summarySelector ? this.clean(pick(config.summarySelector, 'p').text()) : '';
+      const image = item.find('img').first();
+      const imageSrc = image.attr('src') || image.attr('data-src');
+
+      articles.push({
+        title,
+        content: summary || undefined,
+        source: sourceName,
+        imageUrl: imageSrc ? this.resolveUrl(imageSrc, pageUrl) : undefined,
+        url,
+        publishedDate: this.parseDate(date.attr('datetime') || date.attr('content') || this.clean(date.text())),
+      });
+    });
+
+    return articles.slice(0, config.maxItems || DEFAULT_MAX_ITEMS);
+  }
+
+  // Sitemaps carry no headlines unless they use the Google News extension, so titles fall back to the URL slug
+  async parseSitemap(xml: string, config: ScrapeConfig, sourceName: string, timeout = 10000): Promise<NewsArticle[]> {
+    const entries = await this.readSitemap(xml, timeout, 0);
+    const pattern = config.urlPattern ? new RegExp(config.urlPattern, 'i') : null;
+
+    return entries
+      .filter(entry => !pattern || pattern.test(entry.url))
+      .sort((a, b) => timeOf(b.date) - timeOf(a.date))
+      .slice(0, config.maxItems || DEFAULT_MAX_ITEMS)
+      .map(entry => ({
+        title: entry.title || this.titleFromUrl(entry.url),
+        source: sourceName,
+        imageUrl: entry.imageUrl,
+        url: entry.url,
+        publishedDate: this.parseDate(entry.date),
+      }));
+  }
+
+  private async readSitemap(xml: string, timeout: number, depth: number): Promise<SitemapEntry[]> {
+    const parser = new xml2js.Parser({
+      explicitArray: false,
+      trim: true,
+      normalizeTags: true
+    });
+    const data = await parser.parseStringPromise(xml);
+
+    if (data?.sitemapindex) {
+      // Nested indexes aren't followed
+      if (depth > 0) return [];
+
+      const children = listOf(data.sitemapindex.sitemap)
+        .map((sitemap: any) => ({ url: textOf(sitemap.loc), date: textOf(sitemap.lastmod) }))
+        .filter(child => child.url)
+        .sort((a, b) => timeOf(b.date) - timeOf(a.date))
+        .slice(0, MAX_CHILD_SITEMAPS);
+
+      const nested = await Promise.all(children.map(async child => {
+        try {
+          const response = await axios.get(child.url, {
+            timeout,
+            responseType: 'text',
+            headers: { 'User-Agent': 'AI Newsletter Bot/1.0' },
+          });
+          return await this.readSitemap(String(response.data), timeout, depth + 1);
+        } catch (error) {
+          console.warn(`Skipping sitemap ${child.url}:`, error instanceof Error ? error.message : error);
+          return [];
+        }
+      }));
+      return ([] as SitemapEntry[]).concat(...nested);
+    }
+
+    if (data?.urlset) {
+      return listOf(data.urlset.url)
+        .map((entry: any) => {
+          const news = entry['news:news'];
+          return {
+            url: textOf(entry.loc),
+            // Publication dates don't move when a page is edited, unlike lastmod
+            date: textOf(news?.['news:publication_date']) || textOf(entry.lastmod) || undefined,
+            title: textOf(news?.['news:title']) || undefined,
+            imageUrl: textOf(listOf(entry['image:image'])[0]?.['image:loc']) || undefined,
+          };
+        })
+        .filter(entry => entry.url);
+    }
+
+    throw new Error('Not a sitemap: expected <urlset> or <sitemapindex>');
+  }
+
+  // "/blog/introducing-our-new-model/" becomes "Introducing our new model"
+  private titleFromUrl(url: string): string {
+    let slug = '';
+    try {
+      const segments = new URL(url).pathname.split('/').filter(Boolean);
+      slug = decodeURIComponent(segments[segments.length - 1] || '');
+    } catch {
+      return url;
+    }
+
+    const words = slug.replace(/\.[a-z0-9]+$/i, '').replace(/[-_+]+/g, ' ').trim();
+    return words ? words.charAt(0).toUpperCase() + words.slice(1) : url;
+  }
+
+  private resolveUrl(href: string, base: string): string {
+    try {
+      return new URL(href, base).toString();
+    } catch {
+      return '';
+    }
+  }
+
+  private clean(text: string): string {
+    return text.replace(/\s+/g, ' ').trim();
+  }
+
+  private parseDate(value?: string): Date {
+    const time = timeOf(value);
+    return time ? new Date(time) : new Date();
+  }
+}
+
+export const scraperService = new ScraperService();
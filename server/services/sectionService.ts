@@ -0,0 +1,222 @@
+import { looksLikeHtml, markdownService } from './markdownService';
+import { renderService, type CitedArticle } from './renderService';
+import type { IssueSection, StructuredNewsletter } from '@shared/schema';
+
+// What the sections of an issue are read from and spliced back into
+export interface IssueSource {
+  content: string;
+  structuredContent: StructuredNewsletter | null;
+  format: string; // the template's output format: markdown, html or plain
+  articles: CitedArticle[];
+}
+
+export interface SplicedIssue {
+  content: string;
+  htmlContent: string;
+  structuredContent: StructuredNewsletter | null;
+}
+
+// A run of free-form content; start/end delimit the body (whitespace trimmed) in the content string
+interface Block {
+  heading: string | null;
+  level: number; // 0 when no heading precedes the body
+  start: number;
+  end: number;
+  role: IssueSection['role'];
+}
+
+const CONCLUSION_HEADING = /conclu|closing|wrap|final thought|sign.?off|outro|takeaway|until next|see you/i;
+const LINK_PATTERN = /https?:\/\//;
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+}
+
+// Narrows [start, end) so the body excludes the blank lines around it
+function trimRange(content: string, start: number, end: number): [number, number] {
+  while (start < end && /\s/.test(content[start])) start++;
+  while (end > start && /\s/.test(content[end - 1])) end--;
+  return [start, end];
+}
+
+export class SectionService {
+  sections(issue: IssueSource): IssueSection[] {
+    if (issue.structuredContent) {
+      return this.structuredSections(issue.structuredContent);
+    }
+    return this.blocks(issue).map((block, index) => ({
+      index,
+      role: block.role,
+      // The issue title sits above the intro but isn't its heading
+      heading: block.level > 1 ? block.heading : null,
+      text: issue.content.slice(block.start, block.end),
+    }));
+  }
+
+  // Puts new body text in place of one section, leaving every other byte of the issue as it was
+  replace(issue: IssueSource, index: number, text: string): SplicedIssue {
+    const section = this.sections(issue)[index];
+    if (!section) throw new Error(`Section ${index} not found`);
+    const body = this.withoutHeading(text.trim(), section.heading);
+
+    if (issue.structuredContent) {
+      const structured = this.replaceStructured(issue.structuredContent, index, body);
+      return {
+        content: renderService.render(structured, issue.articles, issue.format),
+        htmlContent: renderService.toHtml(structured, issue.articles),
+        structuredContent: structured,
+      };
+    }
+
+    const block = this.blocks(issue)[index];
+    const content = issue.content.slice(0, block.start) + body + issue.content.slice(block.end);
+    return {
+      content,
+      htmlContent: markdownService.render(content, this.formatOf(issue)),
+      structuredContent: null,
+    };
+  }
+
+  private structuredSections(newsletter: StructuredNewsletter): IssueSection[] {
+    const sections: Omit<IssueSection, 'index'>[] = [];
+    if (newsletter.intro.trim()) sections.push({ role: 'intro', heading: null, text: newsletter.intro.trim() });
+    for (const section of newsletter.sections) {
+      for (const item of section.items) {
+        sections.push({ role: 'story', heading: item.headline || null, text: item.summary.trim() });
+      }
+    }
+    if (newsletter.outro.trim()) sections.push({ role: 'conclusion', heading: null, text: newsletter.outro.trim() });
+    return sections.map((section, index) => ({ ...section, index }));
+  }
+
+  // Same walk as structuredSections, so indexes line up
+  private replaceStructured(newsletter: StructuredNewsletter, index: number, text: string): StructuredNewsletter {
+    let position = newsletter.intro.trim() ? 0 : -1;
+    const intro = position === index ? text : newsletter.intro;
+
+    const sections = newsletter.sections.map(section => ({
+      ...section,
+      items: section.items.map(item => {
+        position++;
+        return position === index ? { ...item, summary: text } : item;
+      }),
+    }));
+
+    const outro = newsletter.outro.trim() && position + 1 === index ? text : newsletter.outro;
+    return { ...newsletter, intro, sections, outro };
+  }
+
+  // Issues edited before edits followed the template's format are markdown even when the template writes HTML
+  private formatOf(issue: IssueSource): string {
+    if (looksLikeHtml(issue.content)) return 'html';
+    return issue.format === 'plain' ? 'plain' : 'markdown';
+  }
+
+  private blocks(issue: IssueSource): Block[] {
+    const format = this.formatOf(issue);
+    const blocks = format === 'plain' ? this.plainBlocks(issue.content) : this.headedBlocks(issue.content, format);
+    const sections = blocks.filter(block => block.end > block.start);
+    if (sections.length === 0) return [];
+
+    // Text ahead of the first section heading (under the title, if any) is the intro
+    if (sections[0].level <= 1) sections[0].role = 'intro';
+
+    const last = sections[sections.length - 1];
+    if (sections.length > 1 && last.role === 'story') {
+      if (last.heading ? CONCLUSION_HEADING.test(last.heading) : !LINK_PATTERN.test(issue.content.slice(last.start, last.end))) {
+        last.role = 'conclusion';
+      } else {
+        const closing = this.trailingConclusion(issue.content, last, format);
+        if (closing) sections.push(closing);
+      }
+    }
+    return sections;
+  }
+
+  // Markdown and HTML: every heading starts a section whose body runs to the next heading
+  private headedBlocks(content: string, format: string): Block[] {
+    const pattern = format === 'html'
+      ? /<h([1-6])\b[^>]*>([\s\S]*?)<\/h\1\s*>/gi
+      : /^(#{1,6})[ \t]+(.*?)[ \t#]*$/gm;
+
+    const blocks: Block[] = [];
+    let heading: string | null = null;
+    let level = 0;
+    let bodyStart = 0;
+
+    for (const match of Array.from(content.matchAll(pattern))) {
+      blocks.push({ heading, level, start: bodyStart, end: match.index!, role: 'story' });
+      heading = format === 'html' ? stripTags(match[2]) : match[2].trim();
+      level = format === 'html' ? Number(match[1]) : match[1].length;
+      bodyStart = match.index! + match[0].length;
+    }
+    blocks.push({ heading, level, start: bodyStart, end: content.length, role: 'story' });
+
+    return blocks.map(block => {
+      const [start, end] = trimRange(content, block.start, block.end);
+      return { ...block, start, end };
+    });
+  }
+
+  // Plain text has no markup: upper-case lines are headings and every other paragraph is a section,
+  // except that all paragraphs before the first heading after the title form the intro
+  private plainBlocks(content: string): Block[] {
+    const paragraphs: [number, number][] = [];
+    const separator = /\n[ \t]*\n\s*/g;
+    let start = 0;
+    for (const match of Array.from(content.matchAll(separator))) {
+      paragraphs.push(trimRange(content, start, match.index!));
+      start = match.index! + match[0].length;
+    }
+    paragraphs.push(trimRange(content, start, content.length));
+
+    const blocks: Block[] = [];
+    let headingCount = 0;
+    for (const [paragraphStart, paragraphEnd] of paragraphs) {
+      const text = content.slice(paragraphStart, paragraphEnd);
+      if (!text) continue;
+      if (!text.includes('\n') && /[A-Z]/.test(text) && !/[a-z]/.test(text)) {
+        headingCount++;
+        continue;
+      }
+
+      const previous = blocks[blocks.length - 1];
+      if (previous && previous.level <= 1 && headingCount <= 1) {
+        previous.end = paragraphEnd;
+      } else {
+        blocks.push({ heading: null, level: headingCount <= 1 ? headingCount : 2, start: paragraphStart, end: paragraphEnd, role: 'story' });
+      }
+    }
+    return blocks;
+  }
+
+  // Sign-offs often follow the last story under no heading of their own: the paragraphs after
+  // its final link become the conclusion
+  private trailingConclusion(content: string, block: Block, format: string): Block | null {
+    // Split with the separators kept at odd indexes so the pieces still add up to the original text
+    const separator = format === 'html' ? /((?<=<\/(?:p|ul|ol|blockquote|div|table)>)\s*)/i : /(\n[ \t]*\n\s*)/;
+    const paragraphs = content.slice(block.start, block.end).split(separator);
+    let lastLinked = -1;
+    for (let index = 0; index < paragraphs.length; index += 2) {
+      if (LINK_PATTERN.test(paragraphs[index])) lastLinked = index;
+    }
+    if (lastLinked < 0 || lastLinked === paragraphs.length - 1) return null;
+
+    const storyEnd = block.start + paragraphs.slice(0, lastLinked + 1).join('').length;
+    const [start, end] = trimRange(content, storyEnd, block.end);
+    block.end = storyEnd;
+    return { heading: null, level: block.level, start, end, role: 'conclusion' };
+  }
+
+  // Claude sometimes repeats the heading it was told to keep
+  private withoutHeading(text: string, heading: string | null): string {
+    if (!heading) return text;
+    const [first, ...rest] = text.split('\n');
+    const firstText = stripTags(first).replace(/^#+\s*/, '').replace(/[*_]/g, '').trim();
+    return firstText.toLowerCase() === heading.replace(/[*_]/g, '').trim().toLowerCase()
+      ? rest.join('\n').trim()
+      : text;
+  }
+}
+
+export const sectionService = new SectionService();
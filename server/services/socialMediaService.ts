@@ -147,7 +147,7 @@ Return as JSON with this structure:
       throw new Error('Invalid response format');
     } catch (error) {
       console.error('Error generating social media content:', error);
-      throw new Error(`Failed to generate social media content: ${error.message}`);
+      throw new Error(`Failed to generate social media content: ${error.message}`, { cause: error });
     }
   }
 
@@ -0,0 +1,133 @@
+import { storage } from '../storage';
+import type { InsertNewsletterTemplate, NewsletterTemplate } from '@shared/schema';
+
+const WRITING_GUIDELINES = `WRITING GUIDELINES:
+- Credit the source (and author, when given) of each story you cover
+- Each story is one event; when several sources report it, cover it once, combine their details and credit every source
+- Highlight the most important developments
+- Provide context and analysis, not just summaries
+- Use clear, concise language
+- Include actionable insights where possible
+- Maintain objectivity while being engaging`;
+
+// Seeded at startup into an empty install, so there is something to pick from
+export const BUILT_IN_TEMPLATES: InsertNewsletterTemplate[] = [
+  {
+    name: 'Standard Weekly',
+    description: 'Full issue with an introduction, themed sections and a closing outlook',
+    promptBody: `You are an expert AI newsletter writer. Create a professional, engaging newsletter from the provided AI news stories.
+
+NEWSLETTER DETAILS:
+- Title: {{title}}
+- Issue Number: #{{issueNumber}}
+- Date: {{date}}
+
+FORMAT REQUIREMENTS:
+- Write in {{format}}
+- Start with an attractive header including the newsletter title, issue number, and date
+- Include a brief introduction/executive summary
+- Organize content into these sections: {{sections}}
+- Use appropriate emojis and formatting for readability
+- End with a brief conclusion or forward-looking statement
+- Keep the tone {{tone}}
+- Target length: {{targetLength}}
+
+SOURCE STORIES:
+{{articles}}
+
+${WRITING_GUIDELINES}
+
+Generate the complete newsletter now:`,
+    sections: ["🚀 This Week's Highlights", '📈 Industry Developments', '💡 Key Insights'],
+    targetLength: '600-1000 words',
+    tone: 'professional but engaging',
+    outputFormat: 'markdown',
+  },
+  {
+    name: 'Curated Highlights',
+    description: 'A few stories covered in depth, with commentary on why each matters',
+    promptBody: `You are the editor of an AI newsletter that readers trust for judgement, not volume. From the provided stories, pick the ones that matter most and cover them in depth.
+
+NEWSLETTER DETAILS:
+- Title: {{title}}
+- Issue Number: #{{issueNumber}}
+- Date: {{date}}
+
+FORMAT REQUIREMENTS:
+- Write in {{format}}
+- Open with the newsletter title, issue number, and date, then one paragraph on the theme of this issue
+- Use these sections: {{sections}}
+- For each featured story, explain what happened and why it matters
+- Keep the tone {{tone}}
+- Target length: {{targetLength}}
+
+SOURCE STORIES:
+{{articles}}
+
+${WRITING_GUIDELINES}
+
+Generate the complete newsletter now:`,
+    sections: ['Top Stories', 'Why It Matters', 'Worth Reading'],
+    targetLength: '800-1200 words',
+    tone: 'thoughtful and analytical',
+    outputFormat: 'markdown',
+  },
+  {
+    name: 'Brief Summary',
+    description: 'Short digest with one or two sentences per story',
+    promptBody: `Write a short AI news digest from the provided stories. Readers should be able to skim it in two minutes.
+
+NEWSLETTER DETAILS:
+- Title: {{title}}
+- Issue Number: #{{issueNumber}}
+- Date: {{date}}
+
+FORMAT REQUIREMENTS:
+- Write in {{format}}
+- Start with the newsletter title, issue number, and date
+- Use these sections: {{sections}}
+- One or two sentences per story, with the source in brackets
+- Keep the tone {{tone}}
+- Target length: {{targetLength}}
+
+SOURCE STORIES:
+{{articles}}
+
+Generate the complete newsletter now:`,
+    sections: ['In Brief'],
+    targetLength: '250-400 words',
+    tone: 'concise and direct',
+    outputFormat: 'markdown',
+  },
+];
+
+export class TemplateService {
+  // Only an empty install is seeded, so templates the user deleted stay deleted; the unique name
+  // keeps two instances starting at once from adding the built-ins twice
+  async seedBuiltIns(): Promise<void> {
+    const templates = await storage.getNewsletterTemplates();
+    if (templates.length > 0) return;
+
+    const seeded = await storage.seedNewsletterTemplates(BUILT_IN_TEMPLATES);
+    if (seeded.length > 0) {
+      console.log(`Seeded ${seeded.length} built-in newsletter templates`);
+    }
+  }
+
+  async list(): Promise<NewsletterTemplate[]> {
+    return await storage.getNewsletterTemplates();
+  }
+
+  // An explicit id must exist; otherwise the settings default (if it still exists), then the first template
+  async resolve(templateId?: number | null): Promise<NewsletterTemplate | undefined> {
+    const templates = await this.list();
+    if (templateId !== undefined && templateId !== null) {
+      return templates.find(template => template.id === templateId);
+    }
+
+    const settings = await storage.getSettings();
+    return templates.find(template => template.id === settings?.defaultTemplateId) || templates[0];
+  }
+}
+
+export const templateService = new TemplateService();
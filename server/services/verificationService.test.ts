@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { VerificationService } from './verificationService';
+import type { Article } from '@shared/schema';
+
+const article = (fields: Partial<Article>): Article => ({
+  id: 1,
+  title: '',
+  content: '',
+  fullContent: null,
+  source: 'Example News',
+  author: null,
+  url: 'https://news.example.com/story',
+  ...fields,
+} as Article);
+
+const articles = [
+  article({
+    id: 1,
+    title: 'Nvidia unveils Blackwell Ultra inference chips',
+    content: 'Nvidia said on Tuesday that Blackwell Ultra delivers 1.5x the inference throughput of its predecessor. ' +
+      'Chief executive Jensen Huang said shipments begin in the second half of 2025.',
+    source: 'Chip Report',
+    url: 'https://chips.example.com/blackwell-ultra',
+  }),
+  article({
+    id: 2,
+    title: 'Mistral raises $640 million',
+    content: 'Paris-based Mistral AI has raised $640 million in a round led by General Catalyst, valuing the company at $6 billion.',
+    source: 'Funding Daily',
+    url: 'https://funding.example.com/mistral',
+  }),
+];
+
+// A typical issue: greetings, transitions and sign-offs open sentences with capitalised words that name nothing
+const draft = `# AI Weekly #12
+
+Welcome back! Here are the Big Stories from a busy week in hardware and funding.
+
+## Nvidia unveils Blackwell Ultra
+
+Nvidia says Blackwell Ultra delivers 1.5x the inference throughput of its predecessor. Shipments begin in the second half of 2025, according to Jensen Huang. Analysts expect demand to stay strong. [Read more](https://chips.example.com/blackwell-ultra)
+
+## Mistral raises $640 million
+
+Mistral AI raised $640 million in a round led by General Catalyst. Notably, the round values the company at $6 billion. Investors clearly see room for a European challenger. [Read more](https://funding.example.com/mistral)
+
+That's all for this week. Enjoy the weekend, and see you next Monday!
+`;
+
+describe('VerificationService', () => {
+  const service = new VerificationService();
+
+  it('does not flag words capitalised only because they open a sentence', () => {
+    const report = service.verify(draft, articles, { allowedTerms: ['AI Weekly #12'] });
+    const unsupported = report.flaggedClaims.flatMap(claim => claim.unsupported);
+
+    for (const word of ['Welcome', 'Shipments', 'Analysts', 'Notably', 'Investors', "That's", 'Enjoy']) {
+      expect(unsupported).not.toContain(word);
+    }
+  });
+
+  it('still flags names that appear in no article', () => {
+    const report = service.verify(draft, articles, { allowedTerms: ['AI Weekly #12'] });
+
+    expect(report.flaggedClaims).toEqual([
+      { text: 'Here are the Big Stories from a busy week in hardware and funding.', unsupported: ['Big Stories'] },
+      { text: 'Investors clearly see room for a European challenger.', unsupported: ['European'] },
+    ]);
+    expect(report.unknownUrls).toEqual([]);
+  });
+
+  it('checks a sentence-initial word when the draft also capitalises it mid-sentence', () => {
+    const report = service.verify(
+      'Anthropic released a new model. Developers say Anthropic priced it aggressively.',
+      articles,
+    );
+
+    expect(report.flaggedClaims).toEqual([
+      { text: 'Anthropic released a new model.', unsupported: ['Anthropic'] },
+      { text: 'Developers say Anthropic priced it aggressively.', unsupported: ['Anthropic'] },
+    ]);
+  });
+
+  it('flags figures and links the articles do not contain', () => {
+    const report = service.verify(
+      'Mistral raised $900 million, per [the filing](https://example.org/filing).',
+      articles,
+    );
+
+    expect(report.flaggedClaims).toEqual([
+      { text: 'Mistral raised $900 million, per the filing.', unsupported: ['$900 million'] },
+    ]);
+    expect(report.unknownUrls).toEqual(['https://example.org/filing']);
+    expect(report.flagCount).toBe(2);
+  });
+});
@@ -0,0 +1,186 @@
+import type { Article, FlaggedClaim, VerificationReport } from '@shared/schema';
+
+export interface VerificationContext {
+  // Text that doesn't come from the articles but may appear in the issue (title, issue number, sections)
+  allowedTerms?: string[];
+  date?: Date;
+}
+
+const URL_PATTERN = /https?:\/\/[^\s<>"'()\[\]]+/g;
+// $4.5 billion, 12%, 1,200, 3x, 2025
+const FIGURE_PATTERN = /[$€£]?\d[\d,]*(?:\.\d+)?(?:\s?(?:%|percent|billion|million|thousand|trillion|bn|x)\b|%)?/gi;
+// Runs of capitalised words, allowing a joining "of"/"de"/"&" (Bank of America) and inner capitals (OpenAI)
+const NAME_PATTERN = /\b[A-Z][\w'’.-]*(?:\s+(?:(?:of|de|la|&)\s+)?[A-Z][\w'’.-]*)*/g;
+
+// Capitalised for grammar or layout rather than because they name something
+const COMMON_WORDS = new Set([
+  'a', 'an', 'the', 'this', 'that', 'these', 'those', 'it', 'its', 'i', 'we', 'our', 'you', 'your', 'they', 'their',
+  'he', 'she', 'his', 'her', 'in', 'on', 'at', 'for', 'from', 'with', 'and', 'but', 'or', 'so', 'if', 'as', 'by',
+  'to', 'of', 'meanwhile', 'also', 'plus', 'however', 'why', 'what', 'how', 'when', 'who', 'where', 'here', 'there',
+  'new', 'top', 'news', 'story', 'stories', 'sources', 'source', 'read', 'more', 'issue', 'edition', 'week', 'today',
+  'welcome', 'thanks', 'thank', 'see', 'stay', 'happy', 'until', 'next', 'finally', 'overall', 'still', 'yet', 'not',
+  'all', 'some', 'many', 'most', 'both', 'each', 'every', 'one', 'another', 'after', 'before', 'while', 'despite',
+  'ai', 'llm', 'llms', 'ceo', 'cto', 'api', 'ml', 'gpu', 'gpus',
+  'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+  'january', 'february', 'march', 'april', 'may', 'june', 'july', 'august', 'september', 'october', 'november', 'december',
+]);
+
+function normalizeUrl(url: string): string {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return `${parsed.hostname.replace(/^www\./, '').toLowerCase()}${parsed.pathname.replace(/\/+$/, '')}${parsed.search}`;
+  } catch {
+    return url.toLowerCase();
+  }
+}
+
+function trimUrl(url: string): string {
+  return url.replace(/[.,;:!?*_]+$/, '');
+}
+
+function digitsOf(figure: string): string {
+  return (figure.match(/\d[\d,]*(?:\.\d+)?/)?.[0] || '').replace(/,/g, '');
+}
+
+// Markdown and HTML both reduced to lines of prose; headings are kept apart because they're title-cased
+function toLines(draft: string): { text: string; heading: boolean }[] {
+  const text = draft
+    .replace(/<h[1-6][^>]*>([\s\S]*?)<\/h[1-6]>/gi, '\n# $1\n')
+    .replace(/<(?:p|div|li|br|tr)[^>]*>/gi, '\n')
+    .replace(/<[^>]+>/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(URL_PATTERN, ' ')
+    .replace(/[*_`>~]/g, '');
+
+  return text
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .map(line => ({ text: line.replace(/^(?:#+|[-+]|\d+\.)\s+/, ''), heading: /^#+\s/.test(line) }));
+}
+
+function splitSentences(line: string): string[] {
+  return line.split(/(?<=[.!?])\s+(?=[A-Z"“$\d])/).map(sentence => sentence.trim()).filter(Boolean);
+}
+
+function wordsOf(name: string): string[] {
+  return name.replace(/[.'’-]+$/, '').split(/\s+/);
+}
+
+export class VerificationService {
+  // Checks every figure, name and link in the draft against the text of the articles it was written from.
+  // Heuristic by design: it can't judge whether a claim is true, only whether its specifics appear in a source.
+  verify(draft: string, articles: Article[], context: VerificationContext = {}): VerificationReport {
+    const sources = articles.map(article =>
+      [article.title, article.fullContent || article.content || '', article.source, article.author || '', article.url]
+        .join('\n')
+        .toLowerCase()
+    );
+    const sourceDigits = sources.join('\n').replace(/(\d),(?=\d{3})/g, '$1');
+
+    const allowed = new Set<string>();
+    for (const term of context.allowedTerms || []) {
+      allowed.add(term.toLowerCase());
+      term.split(/\s+/).forEach(word => allowed.add(word.toLowerCase()));
+      (term.match(/\d+/g) || []).forEach(digits => allowed.add(digits));
+    }
+    if (context.date) {
+      const date = new Date(context.date);
+      [date.getFullYear(), date.getDate()].forEach(part => allowed.add(String(part)));
+    }
+
+    const isFigureSupported = (figure: string) => {
+      const digits = digitsOf(figure);
+      if (!digits || allowed.has(digits)) return true;
+      return new RegExp(`(^|[^\\d.])${digits.replace('.', '\\.')}(?![\\d]|\\.\\d)`).test(sourceDigits);
+    };
+
+    const isNameSupported = (name: string) => {
+      const lower = name.toLowerCase();
+      if (allowed.has(lower) || sources.some(source => source.includes(lower))) return true;
+      // "Sam Altman" is grounded by an article that mentions both words, even if never side by side
+      const words = lower.split(/\s+/).filter(word => !COMMON_WORDS.has(word) && word.length > 1);
+      return words.length > 1 && sources.some(source => words.every(word => source.includes(word)));
+    };
+
+    const sentences = toLines(draft).flatMap(line =>
+      (line.heading ? [line.text] : splitSentences(line.text)).map(text => ({ text, heading: line.heading }))
+    );
+
+    // Words the draft capitalises mid-sentence, where only a name would be
+    const capitalisedMidSentence = new Set<string>();
+    for (const sentence of sentences) {
+      if (sentence.heading) continue;
+      for (const match of Array.from(sentence.text.matchAll(NAME_PATTERN))) {
+        if (match.index! > 0) wordsOf(match[0]).forEach(word => capitalisedMidSentence.add(word.toLowerCase()));
+      }
+    }
+
+    let claimCount = 0;
+    const flaggedClaims: FlaggedClaim[] = [];
+
+    for (const { text: sentence, heading } of sentences) {
+      const figures = (sentence.match(FIGURE_PATTERN) || [])
+        .map(figure => figure.trim())
+        // Lone small numbers ("3 things", "Top 5") are usually structure rather than facts
+        .filter(figure => !/^\d$/.test(figure));
+      const names = heading ? [] : this.extractNames(sentence, capitalisedMidSentence);
+      if (figures.length === 0 && names.length === 0) continue;
+
+      claimCount++;
+      const unsupported = [
+        ...figures.filter(figure => !isFigureSupported(figure)),
+        ...names.filter(name => !isNameSupported(name)),
+      ];
+      if (unsupported.length > 0) {
+        flaggedClaims.push({ text: sentence, unsupported: Array.from(new Set(unsupported)) });
+      }
+    }
+
+    const knownUrls = new Set(articles.map(article => normalizeUrl(article.url)));
+    const linkedUrls = Array.from(new Set((draft.match(URL_PATTERN) || []).map(trimUrl)));
+    const unknownUrls = linkedUrls.filter(url => !knownUrls.has(normalizeUrl(url)));
+
+    return {
+      checkedAt: new Date().toISOString(),
+      claimCount,
+      flaggedClaims,
+      unknownUrls,
+      flagCount: flaggedClaims.length + unknownUrls.length,
+    };
+  }
+
+  // Whether the report has more flags than the settings allow for an issue to go out unattended
+  exceedsLimit(report: VerificationReport | null | undefined, maxFlags: number | null | undefined): boolean {
+    return !!report && report.flagCount > (maxFlags ?? 0);
+  }
+
+  // capitalisedMidSentence: lower-cased words the draft capitalises somewhere other than a sentence start
+  private extractNames(sentence: string, capitalisedMidSentence: Set<string>): string[] {
+    const names: string[] = [];
+    for (const match of Array.from(sentence.matchAll(NAME_PATTERN))) {
+      const words = wordsOf(match[0]);
+      // Drop leading filler such as "The" or "Meanwhile" picked up with the name
+      while (words.length > 0 && COMMON_WORDS.has(words[0].toLowerCase())) words.shift();
+      if (words.length === 0) continue;
+
+      const name = words.join(' ');
+      if (words.length === 1 && COMMON_WORDS.has(name.toLowerCase())) continue;
+      // A lone word opening a sentence ("Researchers found", "Notably, ...") is capitalised for grammar;
+      // it only counts as a name if the draft capitalises it elsewhere too
+      const atSentenceStart = match.index === 0 && words.length === wordsOf(match[0]).length;
+      if (atSentenceStart && words.length === 1 && !capitalisedMidSentence.has(name.toLowerCase())) continue;
+      names.push(name);
+    }
+    return names;
+  }
+}
+
+export const verificationService = new VerificationService();
@@ -1,14 +1,18 @@
 import { config } from './config';
 import { mockDb } from './mockDb';
 import { 
-  users, articles, newsletters, settings, activityLogs, schedules, socialMediaPosts, feedSources, dataBackups,
+  users, articles, newsletters, newsletterArticles, settings, activityLogs, schedules, socialMediaPosts, feedSources,
+  filterRules, filteredArticles, dataBackups, newsletterTemplates, jobs, newsletterRevisions,
   type User, type InsertUser, type Article, type InsertArticle,
   type Newsletter, type InsertNewsletter, type Settings, type InsertSettings,
   type ActivityLog, type InsertActivityLog, type Schedule, type InsertSchedule,
   type SocialMediaPost, type InsertSocialMediaPost, type FeedSource, type InsertFeedSource,
-  type DataBackup, type InsertDataBackup
+  type FilterRule, type InsertFilterRule, type FilteredArticle, type InsertFilteredArticle,
+  type DataBackup, type InsertDataBackup, type NewsletterTemplate, type InsertNewsletterTemplate,
+  type Job, type InsertJob, type NewsletterRevision, type InsertNewsletterRevision,
+  RECENCY_WEIGHT, RECENCY_HALF_LIFE_HOURS
 } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
+import { eq, desc, and, gte, lte, count, sql } from "drizzle-orm";
 
 // Only import database if not using mock
 let db: any = null;
@@ -21,6 +25,21 @@ if (!config.database.mock && process.env.DATABASE_URL) {
   }
 }
 
+export interface ArticleQuery {
+  status?: string; // inbox, reviewed, archived
+  from?: Date;
+  to?: Date;
+  selected?: boolean;
+  sort?: "date" | "score"; // newest first (default) or highest relevance score, decayed by age, first
+  limit?: number;
+  offset?: number;
+}
+
+export interface ArticlePage {
+  articles: Article[];
+  total: number;
+}
+
 export interface IStorage {
   // Users
   getUser(id: number): Promise<User | undefined>;
@@ -29,9 +48,20 @@ export interface IStorage {
   
   // Articles
   getArticles(): Promise<Article[]>;
+  getArticle(id: number): Promise<Article | undefined>;
+  getArticleByCanonicalUrl(canonicalUrl: string): Promise<Article | undefined>;
   createArticle(article: InsertArticle): Promise<Article>;
+  updateArticle(id: number, updates: Partial<Article>): Promise<Article | undefined>;
   updateArticleSelection(id: number, selected: boolean): Promise<Article | undefined>;
   clearArticles(): Promise<void>;
+  queryArticles(query: ArticleQuery): Promise<ArticlePage>;
+  getSelectedArticles(): Promise<Article[]>;
+  
+  // Newsletter Articles
+  linkNewsletterArticles(newsletterId: number, articleIds: number[]): Promise<void>;
+  getNewsletterArticles(newsletterId: number): Promise<Article[]>;
+  getArticleNewsletters(articleId: number): Promise<Newsletter[]>;
+  getUsedArticleIds(): Promise<number[]>; // articles already covered by a published issue
   
   // Newsletters
   getNewsletters(): Promise<Newsletter[]>;
@@ -41,6 +71,10 @@ export interface IStorage {
   updateNewsletter(id: number, updates: Partial<Newsletter>): Promise<Newsletter | undefined>;
   getNextIssueNumber(): Promise<number>;
   
+  // Newsletter Revisions
+  getNewsletterRevisions(newsletterId: number): Promise<NewsletterRevision[]>; // newest first
+  createNewsletterRevision(revision: InsertNewsletterRevision): Promise<NewsletterRevision>;
+  
   // Settings
   getSettings(): Promise<Settings | undefined>;
   updateSettings(settings: InsertSettings): Promise<Settings>;
@@ -72,6 +106,29 @@ export interface IStorage {
   deleteFeedSource(id: number): Promise<boolean>;
   getEnabledFeedSources(): Promise<FeedSource[]>;
   
+  // Filter Rules
+  getFilterRules(): Promise<FilterRule[]>;
+  createFilterRule(rule: InsertFilterRule): Promise<FilterRule>;
+  updateFilterRule(id: number, updates: Partial<FilterRule>): Promise<FilterRule | undefined>;
+  deleteFilterRule(id: number): Promise<boolean>;
+  createFilteredArticle(filtered: InsertFilteredArticle): Promise<FilteredArticle | undefined>; // undefined if the URL is already logged for the rule
+  getFilteredArticles(limit?: number): Promise<FilteredArticle[]>;
+  
+  // Newsletter Templates
+  getNewsletterTemplates(): Promise<NewsletterTemplate[]>;
+  getNewsletterTemplate(id: number): Promise<NewsletterTemplate | undefined>;
+  createNewsletterTemplate(template: InsertNewsletterTemplate): Promise<NewsletterTemplate>;
+  seedNewsletterTemplates(templates: InsertNewsletterTemplate[]): Promise<NewsletterTemplate[]>; // skips names already taken
+  updateNewsletterTemplate(id: number, updates: Partial<NewsletterTemplate>): Promise<NewsletterTemplate | undefined>;
+  deleteNewsletterTemplate(id: number): Promise<boolean>;
+  
+  // Jobs
+  getJobs(options?: { status?: string; limit?: number }): Promise<Job[]>;
+  getJob(id: number): Promise<Job | undefined>;
+  createJob(job: InsertJob & Partial<Pick<Job, 'attempts' | 'startedAt'>>): Promise<Job>; // attempts and startedAt for a job created already claimed
+  updateJob(id: number, updates: Partial<Job>): Promise<Job | undefined>;
+  getDueJobs(now?: Date): Promise<Job[]>;
+  
   // Data Management
   createDataBackup(backup: InsertDataBackup): Promise<DataBackup>;
   getDataBackups(): Promise<DataBackup[]>;
@@ -122,19 +179,43 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getArticle(id: number): Promise<Article | undefined> {
+    return this.articles.get(id);
+  }
+
   async createArticle(insertArticle: InsertArticle): Promise<Article> {
     const id = this.articleId++;
     const article: Article = { 
       ...insertArticle, 
       id, 
       content: insertArticle.content || null,
+      fullContent: insertArticle.fullContent || null,
+      author: insertArticle.author || null,
+      categories: insertArticle.categories || [],
+      imageUrl: insertArticle.imageUrl || null,
+      relevanceScore: null,
+      scoreBreakdown: null,
       selected: insertArticle.selected || null,
+      status: insertArticle.status || "inbox",
+      canonicalUrl: insertArticle.canonicalUrl || null,
+      contributingSources: insertArticle.contributingSources || [insertArticle.source],
+      feedSourceId: insertArticle.feedSourceId || null,
       fetchedAt: new Date()
     };
     this.articles.set(id, article);
     return article;
   }
 
+  async updateArticle(id: number, updates: Partial<Article>): Promise<Article | undefined> {
+    const article = this.articles.get(id);
+    if (article) {
+      const updated = { ...article, ...updates };
+      this.articles.set(id, updated);
+      return updated;
+    }
+    return undefined;
+  }
+
   async updateArticleSelection(id: number, selected: boolean): Promise<Article | undefined> {
     const article = this.articles.get(id);
     if (article) {
@@ -179,6 +260,10 @@ export class MemStorage implements IStorage {
       beehiivId: insertNewsletter.beehiivId || null,
       beehiivUrl: insertNewsletter.beehiivUrl || null,
       wordCount: insertNewsletter.wordCount || null,
+      templateId: insertNewsletter.templateId ?? null,
+      customPrompt: insertNewsletter.customPrompt || null,
+      structuredContent: insertNewsletter.structuredContent || null,
+      verificationReport: insertNewsletter.verificationReport || null,
       generatedAt: new Date(),
       publishedAt: null,
     };
@@ -226,6 +311,21 @@ export class MemStorage implements IStorage {
       dailyScheduleTime: insertSettings.dailyScheduleTime || "09:00",
       autoSelectArticles: insertSettings.autoSelectArticles || false,
       maxDailyArticles: insertSettings.maxDailyArticles || 5,
+      fullTextEnabled: insertSettings.fullTextEnabled || false,
+      fullTextMaxChars: insertSettings.fullTextMaxChars || 20000,
+      fullTextAllowedDomains: insertSettings.fullTextAllowedDomains || [],
+      fullTextBlockedDomains: insertSettings.fullTextBlockedDomains || [],
+      relevanceKeywords: insertSettings.relevanceKeywords || [],
+      claudeScoringEnabled: insertSettings.claudeScoringEnabled || false,
+      defaultTemplateId: insertSettings.defaultTemplateId ?? null,
+      structuredOutput: insertSettings.structuredOutput || false,
+      verificationBlocksPublish: insertSettings.verificationBlocksPublish || false,
+      verificationMaxFlags: insertSettings.verificationMaxFlags ?? 3,
+      emailLayout: insertSettings.emailLayout || "branded",
+      emailLogoUrl: insertSettings.emailLogoUrl || null,
+      emailAccentColor: insertSettings.emailAccentColor || "#2563eb",
+      emailFooterText: insertSettings.emailFooterText || null,
+      emailUnsubscribeUrl: insertSettings.emailUnsubscribeUrl || "{{unsubscribe_url}}",
       updatedAt: new Date(),
     };
     this.currentSettings = settings;
@@ -347,21 +447,50 @@ export class DatabaseStorage implements IStorage {
     return await db.select().from(articles).orderBy(desc(articles.publishedDate));
   }
 
+  async getArticle(id: number): Promise<Article | undefined> {
+    const [article] = await db.select().from(articles).where(eq(articles.id, id));
+    return article || undefined;
+  }
+
+  async getArticleByCanonicalUrl(canonicalUrl: string): Promise<Article | undefined> {
+    const [article] = await db.select().from(articles).where(eq(articles.canonicalUrl, canonicalUrl));
+    return article || undefined;
+  }
+
   async createArticle(insertArticle: InsertArticle): Promise<Article> {
     const [article] = await db
       .insert(articles)
       .values({
         title: insertArticle.title,
         content: insertArticle.content || null,
+        fullContent: insertArticle.fullContent || null,
         source: insertArticle.source,
+        author: insertArticle.author || null,
+        categories: insertArticle.categories || [],
+        imageUrl: insertArticle.imageUrl || null,
+        relevanceScore: null,
+        scoreBreakdown: null,
         url: insertArticle.url,
+        canonicalUrl: insertArticle.canonicalUrl || null,
+        contributingSources: insertArticle.contributingSources || [insertArticle.source],
         publishedDate: insertArticle.publishedDate || new Date(),
         selected: insertArticle.selected || false,
+        status: insertArticle.status || "inbox",
+        feedSourceId: insertArticle.feedSourceId || null,
       })
       .returning();
     return article;
   }
 
+  async updateArticle(id: number, updates: Partial<Article>): Promise<Article | undefined> {
+    const [article] = await db
+      .update(articles)
+      .set(updates)
+      .where(eq(articles.id, id))
+      .returning();
+    return article || undefined;
+  }
+
   async updateArticleSelection(id: number, selected: boolean): Promise<Article | undefined> {
     const [article] = await db
       .update(articles)
@@ -372,9 +501,78 @@ export class DatabaseStorage implements IStorage {
   }
 
   async clearArticles(): Promise<void> {
+    await db.delete(newsletterArticles);
     await db.delete(articles);
   }
 
+  async queryArticles(query: ArticleQuery): Promise<ArticlePage> {
+    const conditions = [];
+    if (query.status) conditions.push(eq(articles.status, query.status));
+    if (query.from) conditions.push(gte(articles.publishedDate, query.from));
+    if (query.to) conditions.push(lte(articles.publishedDate, query.to));
+    if (query.selected !== undefined) conditions.push(eq(articles.selected, query.selected));
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+
+    // Same blend as scoringService.rankedScore, so ranking follows the clock without rescoring
+    const ageHours = sql`greatest(0, extract(epoch from (now() - ${articles.publishedDate})) / 3600)`;
+    const ranked = sql`${articles.relevanceScore} * ${sql.raw(String(1 - RECENCY_WEIGHT))}
+      + ${sql.raw(String(100 * RECENCY_WEIGHT))} * power(0.5, ${ageHours} / ${sql.raw(String(RECENCY_HALF_LIFE_HOURS))})`;
+    const order = query.sort === "score"
+      ? [sql`${ranked} desc nulls last`, desc(articles.publishedDate)]
+      : [desc(articles.publishedDate)];
+
+    let select = db.select().from(articles).where(where).orderBy(...order);
+    if (query.limit !== undefined) select = select.limit(query.limit);
+    if (query.offset !== undefined) select = select.offset(query.offset);
+
+    const [rows, [{ total }]] = await Promise.all([
+      select,
+      db.select({ total: count() }).from(articles).where(where),
+    ]);
+    return { articles: rows, total };
+  }
+
+  async getSelectedArticles(): Promise<Article[]> {
+    const { articles: selected } = await this.queryArticles({ selected: true });
+    return selected.filter(article => article.status !== "archived");
+  }
+
+  // Newsletter Articles
+  async linkNewsletterArticles(newsletterId: number, articleIds: number[]): Promise<void> {
+    if (articleIds.length === 0) return;
+    await db
+      .insert(newsletterArticles)
+      .values(articleIds.map(articleId => ({ newsletterId, articleId })));
+  }
+
+  async getNewsletterArticles(newsletterId: number): Promise<Article[]> {
+    const rows = await db
+      .select({ article: articles })
+      .from(newsletterArticles)
+      .innerJoin(articles, eq(newsletterArticles.articleId, articles.id))
+      .where(eq(newsletterArticles.newsletterId, newsletterId));
+    return rows.map((row: { article: Article }) => row.article);
+  }
+
+  async getArticleNewsletters(articleId: number): Promise<Newsletter[]> {
+    const rows = await db
+      .select({ newsletter: newsletters })
+      .from(newsletterArticles)
+      .innerJoin(newsletters, eq(newsletterArticles.newsletterId, newsletters.id))
+      .where(eq(newsletterArticles.articleId, articleId))
+      .orderBy(desc(newsletters.issueNumber));
+    return rows.map((row: { newsletter: Newsletter }) => row.newsletter);
+  }
+
+  async getUsedArticleIds(): Promise<number[]> {
+    const rows = await db
+      .selectDistinct({ articleId: newsletterArticles.articleId })
+      .from(newsletterArticles)
+      .innerJoin(newsletters, eq(newsletterArticles.newsletterId, newsletters.id))
+      .where(eq(newsletters.status, "published"));
+    return rows.map((row: { articleId: number }) => row.articleId);
+  }
+
   // Newsletters
   async getNewsletters(): Promise<Newsletter[]> {
     return await db.select().from(newsletters).orderBy(desc(newsletters.issueNumber));
@@ -409,6 +607,10 @@ export class DatabaseStorage implements IStorage {
         beehiivId: insertNewsletter.beehiivId || null,
         beehiivUrl: insertNewsletter.beehiivUrl || null,
         wordCount: insertNewsletter.wordCount || null,
+        templateId: insertNewsletter.templateId ?? null,
+        customPrompt: insertNewsletter.customPrompt || null,
+        structuredContent: insertNewsletter.structuredContent || null,
+        verificationReport: insertNewsletter.verificationReport || null,
       })
       .returning();
     return newsletter;
@@ -429,6 +631,21 @@ export class DatabaseStorage implements IStorage {
     return latest ? latest.issueNumber + 1 : (settingsData?.issueStartNumber || 1);
   }
 
+  // Newsletter Revisions
+  async getNewsletterRevisions(newsletterId: number): Promise<NewsletterRevision[]> {
+    return await db.select().from(newsletterRevisions)
+      .where(eq(newsletterRevisions.newsletterId, newsletterId))
+      .orderBy(desc(newsletterRevisions.createdAt), desc(newsletterRevisions.id));
+  }
+
+  async createNewsletterRevision(insertRevision: InsertNewsletterRevision): Promise<NewsletterRevision> {
+    const [revision] = await db
+      .insert(newsletterRevisions)
+      .values(insertRevision)
+      .returning();
+    return revision;
+  }
+
   // Settings
   async getSettings(): Promise<Settings | undefined> {
     const [settingsData] = await db.select().from(settings).limit(1);
@@ -470,6 +687,21 @@ export class DatabaseStorage implements IStorage {
           dailyScheduleTime: insertSettings.dailyScheduleTime || "09:00",
           autoSelectArticles: insertSettings.autoSelectArticles || false,
           maxDailyArticles: insertSettings.maxDailyArticles || 5,
+          fullTextEnabled: insertSettings.fullTextEnabled || false,
+          fullTextMaxChars: insertSettings.fullTextMaxChars || 20000,
+          fullTextAllowedDomains: insertSettings.fullTextAllowedDomains || [],
+          fullTextBlockedDomains: insertSettings.fullTextBlockedDomains || [],
+          relevanceKeywords: insertSettings.relevanceKeywords || [],
+          claudeScoringEnabled: insertSettings.claudeScoringEnabled || false,
+          defaultTemplateId: insertSettings.defaultTemplateId ?? null,
+          structuredOutput: insertSettings.structuredOutput || false,
+          verificationBlocksPublish: insertSettings.verificationBlocksPublish || false,
+          verificationMaxFlags: insertSettings.verificationMaxFlags ?? 3,
+          emailLayout: insertSettings.emailLayout || "branded",
+          emailLogoUrl: insertSettings.emailLogoUrl || null,
+          emailAccentColor: insertSettings.emailAccentColor || "#2563eb",
+          emailFooterText: insertSettings.emailFooterText || null,
+          emailUnsubscribeUrl: insertSettings.emailUnsubscribeUrl || "{{unsubscribe_url}}",
         })
         .returning();
       return created;
@@ -628,7 +860,12 @@ export class DatabaseStorage implements IStorage {
         articleCount: 0,
         errorCount: 0,
         lastError: null,
+        etag: null,
+        lastModified: null,
+        sourceType: insertFeedSource.sourceType || "feed",
+        scrapeConfig: insertFeedSource.scrapeConfig || null,
         refreshInterval: insertFeedSource.refreshInterval || 60,
+        weight: insertFeedSource.weight ?? 50,
         tags: insertFeedSource.tags || [],
       })
       .returning();
@@ -655,6 +892,123 @@ export class DatabaseStorage implements IStorage {
       .orderBy(feedSources.name);
   }
 
+  // Filter Rules
+  async getFilterRules(): Promise<FilterRule[]> {
+    return await db.select().from(filterRules).orderBy(filterRules.id);
+  }
+
+  async createFilterRule(insertRule: InsertFilterRule): Promise<FilterRule> {
+    const [rule] = await db
+      .insert(filterRules)
+      .values(insertRule)
+      .returning();
+    return rule;
+  }
+
+  async updateFilterRule(id: number, updates: Partial<FilterRule>): Promise<FilterRule | undefined> {
+    const [rule] = await db
+      .update(filterRules)
+      .set(updates)
+      .where(eq(filterRules.id, id))
+      .returning();
+    return rule || undefined;
+  }
+
+  async deleteFilterRule(id: number): Promise<boolean> {
+    const result = await db.delete(filterRules).where(eq(filterRules.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  async createFilteredArticle(insertFiltered: InsertFilteredArticle): Promise<FilteredArticle | undefined> {
+    const [filtered] = await db
+      .insert(filteredArticles)
+      .values(insertFiltered)
+      .onConflictDoNothing({ target: [filteredArticles.url, filteredArticles.ruleId] })
+      .returning();
+    return filtered;
+  }
+
+  async getFilteredArticles(limit = 100): Promise<FilteredArticle[]> {
+    return await db.select().from(filteredArticles)
+      .orderBy(desc(filteredArticles.filteredAt))
+      .limit(limit);
+  }
+
+  // Newsletter Templates
+  async getNewsletterTemplates(): Promise<NewsletterTemplate[]> {
+    return await db.select().from(newsletterTemplates).orderBy(newsletterTemplates.id);
+  }
+
+  async getNewsletterTemplate(id: number): Promise<NewsletterTemplate | undefined> {
+    const [template] = await db.select().from(newsletterTemplates).where(eq(newsletterTemplates.id, id));
+    return template || undefined;
+  }
+
+  async createNewsletterTemplate(insertTemplate: InsertNewsletterTemplate): Promise<NewsletterTemplate> {
+    const [template] = await db
+      .insert(newsletterTemplates)
+      .values(insertTemplate)
+      .returning();
+    return template;
+  }
+
+  async seedNewsletterTemplates(templates: InsertNewsletterTemplate[]): Promise<NewsletterTemplate[]> {
+    return await db
+      .insert(newsletterTemplates)
+      .values(templates)
+      .onConflictDoNothing({ target: newsletterTemplates.name })
+      .returning();
+  }
+
+  async updateNewsletterTemplate(id: number, updates: Partial<NewsletterTemplate>): Promise<NewsletterTemplate | undefined> {
+    const [template] = await db
+      .update(newsletterTemplates)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(newsletterTemplates.id, id))
+      .returning();
+    return template || undefined;
+  }
+
+  async deleteNewsletterTemplate(id: number): Promise<boolean> {
+    const result = await db.delete(newsletterTemplates).where(eq(newsletterTemplates.id, id));
+    return (result.rowCount ?? 0) > 0;
+  }
+
+  // Jobs
+  async getJobs(options: { status?: string; limit?: number } = {}): Promise<Job[]> {
+    const query = db.select().from(jobs);
+    const filtered = options.status ? query.where(eq(jobs.status, options.status)) : query;
+    return await filtered.orderBy(desc(jobs.createdAt)).limit(options.limit || 100);
+  }
+
+  async getJob(id: number): Promise<Job | undefined> {
+    const [job] = await db.select().from(jobs).where(eq(jobs.id, id));
+    return job || undefined;
+  }
+
+  async createJob(insertJob: InsertJob & Partial<Pick<Job, 'attempts' | 'startedAt'>>): Promise<Job> {
+    const [job] = await db
+      .insert(jobs)
+      .values(insertJob)
+      .returning();
+    return job;
+  }
+
+  async updateJob(id: number, updates: Partial<Job>): Promise<Job | undefined> {
+    const [job] = await db
+      .update(jobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(jobs.id, id))
+      .returning();
+    return job || undefined;
+  }
+
+  async getDueJobs(now = new Date()): Promise<Job[]> {
+    return await db.select().from(jobs)
+      .where(and(eq(jobs.status, "pending"), lte(jobs.runAt, now)))
+      .orderBy(jobs.runAt);
+  }
+
   // Data Management
   async createDataBackup(insertBackup: InsertDataBackup): Promise<DataBackup> {
     const [backup] = await db
@@ -678,44 +1032,67 @@ export class DatabaseStorage implements IStorage {
 
   async purgeAllData(): Promise<void> {
     // Delete all data except users and settings
+    await db.delete(newsletterArticles);
+    await db.delete(newsletterRevisions);
     await db.delete(articles);
     await db.delete(newsletters);
     await db.delete(activityLogs);
     await db.delete(schedules);
     await db.delete(socialMediaPosts);
+    await db.delete(filteredArticles);
+    await db.delete(filterRules);
     await db.delete(feedSources);
     await db.delete(dataBackups);
+    await db.delete(jobs);
   }
 
   async exportAllData(): Promise<any> {
     const [
       articlesData,
       newslettersData,
+      newsletterArticlesData,
+      newsletterRevisionsData,
       settingsData,
       activityLogsData,
       schedulesData,
       socialMediaPostsData,
       feedSourcesData,
+      filterRulesData,
+      filteredArticlesData,
+      newsletterTemplatesData,
+      jobsData,
       backupsData
     ] = await Promise.all([
       db.select().from(articles),
       db.select().from(newsletters),
+      db.select().from(newsletterArticles),
+      db.select().from(newsletterRevisions),
       db.select().from(settings),
       db.select().from(activityLogs),
       db.select().from(schedules),
       db.select().from(socialMediaPosts),
       db.select().from(feedSources),
+      db.select().from(filterRules),
+      db.select().from(filteredArticles),
+      db.select().from(newsletterTemplates),
+      db.select().from(jobs),
       db.select().from(dataBackups),
     ]);
 
     return {
       articles: articlesData,
       newsletters: newslettersData,
+      newsletterArticles: newsletterArticlesData,
+      newsletterRevisions: newsletterRevisionsData,
       settings: settingsData[0] || null,
       activityLogs: activityLogsData,
       schedules: schedulesData,
       socialMediaPosts: socialMediaPostsData,
       feedSources: feedSourcesData,
+      filterRules: filterRulesData,
+      filteredArticles: filteredArticlesData,
+      newsletterTemplates: newsletterTemplatesData,
+      jobs: jobsData,
       backups: backupsData,
       exportedAt: new Date().toISOString(),
     };
@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, boolean, timestamp, jsonb, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -8,17 +8,105 @@ export const users = pgTable("users", {
   password: text("password").notNull(),
 });
 
+// Each component is normalized to 0-1 before weighting. Recency isn't stored: it would go stale,
+// so it is blended in when articles are ranked (see RECENCY_WEIGHT)
+export interface ScoreBreakdown {
+  source: number;
+  topic: number;
+  coverage: number;
+  claude?: number;
+  matchedKeywords: string[];
+}
+
+// Share of the ranking score that comes from recency, which halves every RECENCY_HALF_LIFE_HOURS
+export const RECENCY_WEIGHT = 0.35;
+export const RECENCY_HALF_LIFE_HOURS = 24;
+
 export const articles = pgTable("articles", {
   id: serial("id").primaryKey(),
   title: text("title").notNull(),
   content: text("content"),
+  fullContent: text("full_content"), // readable body extracted from the article page
   source: text("source").notNull(),
+  author: text("author"),
+  categories: text("categories").array().default([]),
+  imageUrl: text("image_url"), // enclosure or media thumbnail
   url: text("url").notNull(),
+  canonicalUrl: text("canonical_url").unique(), // normalized URL used for deduplication
+  contributingSources: text("contributing_sources").array().default([]), // every source that reported this story
   publishedDate: timestamp("published_date").notNull(),
   selected: boolean("selected").default(false),
+  status: text("status").notNull().default("inbox"), // inbox, reviewed, archived
+  relevanceScore: integer("relevance_score"), // 0-100 before recency, see scoreBreakdown for the components
+  scoreBreakdown: jsonb("score_breakdown").$type<ScoreBreakdown>(),
+  feedSourceId: integer("feed_source_id").references(() => feedSources.id, { onDelete: "set null" }),
   fetchedAt: timestamp("fetched_at").defaultNow(),
 });
 
+// A {{placeholder}} in a template prompt; spaces inside the braces are allowed
+export const TEMPLATE_PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+export const newsletterTemplates = pgTable("newsletter_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull().unique(), // built-in templates are seeded by name
+  description: text("description"),
+  // Placeholders: {{title}}, {{issueNumber}}, {{date}}, {{articles}}, {{sections}}, {{targetLength}}, {{tone}}, {{format}}, {{instructions}}
+  promptBody: text("prompt_body").notNull(),
+  sections: text("sections").array().default([]),
+  targetLength: text("target_length").notNull().default("600-1000 words"),
+  tone: text("tone").notNull().default("professional but engaging"),
+  outputFormat: text("output_format").notNull().default("markdown"), // markdown, html, plain
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Structured generation output; every item cites the articles it was written from
+export interface NewsletterItem {
+  headline: string;
+  summary: string; // markdown
+  articleIds: number[];
+}
+
+export interface NewsletterSection {
+  heading: string;
+  items: NewsletterItem[];
+}
+
+export interface StructuredNewsletter {
+  title: string;
+  intro: string;
+  sections: NewsletterSection[];
+  outro: string;
+}
+
+// A sentence from the draft whose figures or names could not all be found in the source articles
+export interface FlaggedClaim {
+  text: string;
+  unsupported: string[];
+}
+
+export interface VerificationReport {
+  checkedAt: string;
+  claimCount: number; // sentences containing figures or names
+  flaggedClaims: FlaggedClaim[];
+  unknownUrls: string[]; // links that point outside the issue's articles
+  flagCount: number;
+}
+
+// One run of a word-level diff between two revisions
+export interface DiffSegment {
+  type: "equal" | "added" | "removed";
+  text: string;
+}
+
+// A part of an issue that can be regenerated on its own: the intro, one story or the conclusion
+export interface IssueSection {
+  index: number;
+  role: "intro" | "story" | "conclusion";
+  heading: string | null; // kept as written; only the body is regenerated
+  text: string;
+}
+
 export const newsletters = pgTable("newsletters", {
   id: serial("id").primaryKey(),
   issueNumber: integer("issue_number").notNull(),
@@ -36,10 +124,35 @@ export const newsletters = pgTable("newsletters", {
   beehiivId: text("beehiiv_id"),
   beehiivUrl: text("beehiiv_url"),
   wordCount: integer("word_count"),
+  templateId: integer("template_id").references(() => newsletterTemplates.id, { onDelete: "set null" }),
+  customPrompt: text("custom_prompt"), // editorial instructions given for this issue
+  structuredContent: jsonb("structured_content").$type<StructuredNewsletter>(), // set when generated in structured mode
+  verificationReport: jsonb("verification_report").$type<VerificationReport>(), // fact check against the source articles
   generatedAt: timestamp("generated_at").defaultNow(),
   publishedAt: timestamp("published_at"),
 });
 
+export const newsletterArticles = pgTable("newsletter_articles", {
+  id: serial("id").primaryKey(),
+  newsletterId: integer("newsletter_id").notNull().references(() => newsletters.id, { onDelete: "cascade" }),
+  articleId: integer("article_id").notNull().references(() => articles.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Snapshot of a newsletter's content each time it was generated, edited, approved or restored
+export const newsletterRevisions = pgTable("newsletter_revisions", {
+  id: serial("id").primaryKey(),
+  newsletterId: integer("newsletter_id").notNull().references(() => newsletters.id, { onDelete: "cascade" }),
+  content: text("content").notNull(),
+  htmlContent: text("html_content"),
+  structuredContent: jsonb("structured_content").$type<StructuredNewsletter>(), // the issue's sections if it was structured then
+  wordCount: integer("word_count"),
+  author: text("author").notNull(),
+  kind: text("kind").notNull().default("edited"), // generated, edited, regenerated, approved, restored
+  restoredFromId: integer("restored_from_id"), // the revision a "restored" revision copies
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const settings = pgTable("settings", {
   id: serial("id").primaryKey(),
   claudeApiKey: text("claude_api_key"),
@@ -60,6 +173,24 @@ export const settings = pgTable("settings", {
   dailyScheduleTime: text("daily_schedule_time").default("09:00"),
   autoSelectArticles: boolean("auto_select_articles").default(false),
   maxDailyArticles: integer("max_daily_articles").default(5),
+  // Full-text extraction settings
+  fullTextEnabled: boolean("full_text_enabled").default(false),
+  fullTextMaxChars: integer("full_text_max_chars").default(20000),
+  fullTextAllowedDomains: text("full_text_allowed_domains").array().default([]),
+  fullTextBlockedDomains: text("full_text_blocked_domains").array().default([]),
+  // Relevance scoring settings
+  relevanceKeywords: text("relevance_keywords").array().default([]),
+  claudeScoringEnabled: boolean("claude_scoring_enabled").default(false),
+  defaultTemplateId: integer("default_template_id"), // used by scheduled runs and when no template is picked
+  structuredOutput: boolean("structured_output").default(false), // generate sections and cited items instead of free text
+  verificationBlocksPublish: boolean("verification_blocks_publish").default(false), // hold back auto-publish of issues that fail the fact check
+  verificationMaxFlags: integer("verification_max_flags").default(3),
+  // Email template for outbound issues
+  emailLayout: text("email_layout").default("branded"), // branded, minimal
+  emailLogoUrl: text("email_logo_url"),
+  emailAccentColor: text("email_accent_color").default("#2563eb"),
+  emailFooterText: text("email_footer_text"),
+  emailUnsubscribeUrl: text("email_unsubscribe_url").default("{{unsubscribe_url}}"), // merge tag filled in by the sending platform
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
@@ -101,10 +232,23 @@ export const socialMediaPosts = pgTable("social_media_posts", {
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// How html and sitemap sources are read; feed sources ignore it
+export interface ScrapeConfig {
+  itemSelector?: string; // html: one element per listed post
+  titleSelector?: string; // html selectors below are relative to the item
+  linkSelector?: string;
+  dateSelector?: string;
+  summarySelector?: string;
+  urlPattern?: string; // sitemap: only keep URLs matching this regex
+  maxItems?: number;
+}
+
 export const feedSources = pgTable("feed_sources", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
   url: text("url").notNull(),
+  sourceType: text("source_type").notNull().default("feed"), // feed, html, sitemap
+  scrapeConfig: jsonb("scrape_config").$type<ScrapeConfig>(),
   category: text("category").notNull(), // 'AI', 'Tech', 'Business', etc.
   description: text("description"),
   enabled: boolean("enabled").default(true),
@@ -112,12 +256,44 @@ export const feedSources = pgTable("feed_sources", {
   articleCount: integer("article_count").default(0),
   errorCount: integer("error_count").default(0),
   lastError: text("last_error"),
+  etag: text("etag"), // HTTP validators from the last successful fetch
+  lastModified: text("last_modified"),
   refreshInterval: integer("refresh_interval").default(60), // minutes
+  weight: integer("weight").default(50), // 0-100, how much relevance scoring trusts this source
   tags: text("tags").array().default([]),
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+export const filterRules = pgTable("filter_rules", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  type: text("type").notNull(), // keyword, regex, source, min_length
+  action: text("action").notNull().default("exclude"), // include (must match) or exclude (must not match)
+  field: text("field").notNull().default("any"), // title, content, any
+  values: text("values").array().default([]), // keywords, patterns or sources
+  minLength: integer("min_length"),
+  feedSourceId: integer("feed_source_id").references(() => feedSources.id, { onDelete: "cascade" }), // null applies to every feed
+  enabled: boolean("enabled").default(true),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Audit trail of articles dropped by filter rules
+export const filteredArticles = pgTable("filtered_articles", {
+  id: serial("id").primaryKey(),
+  title: text("title").notNull(),
+  url: text("url").notNull(),
+  source: text("source").notNull(),
+  feedSourceId: integer("feed_source_id").references(() => feedSources.id, { onDelete: "set null" }),
+  ruleId: integer("rule_id").references(() => filterRules.id, { onDelete: "set null" }),
+  ruleName: text("rule_name").notNull(),
+  reason: text("reason").notNull(),
+  filteredAt: timestamp("filtered_at").defaultNow().notNull(),
+}, (table) => [
+  // Feeds return the same items on every refresh; each article is logged once per rule
+  uniqueIndex("filtered_articles_url_rule_idx").on(table.url, table.ruleId),
+]);
+
 export const dataBackups = pgTable("data_backups", {
   id: serial("id").primaryKey(),
   filename: text("filename").notNull(),
@@ -128,6 +304,23 @@ export const dataBackups = pgTable("data_backups", {
   downloadUrl: text("download_url"),
 });
 
+// Background work (generation, publishing, social posts) that is retried with backoff when it fails
+export const jobs = pgTable("jobs", {
+  id: serial("id").primaryKey(),
+  type: text("type").notNull(), // generate, publish, social_generate, rescore
+  status: text("status").notNull().default("pending"), // pending, running, completed, dead
+  payload: jsonb("payload").$type<Record<string, any>>().notNull().default({}),
+  result: jsonb("result").$type<Record<string, any>>(),
+  attempts: integer("attempts").notNull().default(0),
+  maxAttempts: integer("max_attempts").notNull().default(5),
+  lastError: text("last_error"),
+  runAt: timestamp("run_at").defaultNow().notNull(), // not picked up before this time
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -136,15 +329,81 @@ export const insertUserSchema = createInsertSchema(users).pick({
 export const insertArticleSchema = createInsertSchema(articles).omit({
   id: true,
   fetchedAt: true,
+  relevanceScore: true,
+  scoreBreakdown: true,
 }).extend({
   publishedDate: z.union([z.date(), z.string().transform((str) => new Date(str))]).default(() => new Date())
 });
 
+export const structuredNewsletterSchema = z.object({
+  title: z.string(),
+  intro: z.string(),
+  sections: z.array(z.object({
+    heading: z.string(),
+    items: z.array(z.object({
+      headline: z.string(),
+      summary: z.string(),
+      articleIds: z.array(z.coerce.number().int()),
+    })),
+  })),
+  outro: z.string(),
+});
+
 export const insertNewsletterSchema = createInsertSchema(newsletters).omit({
   id: true,
   generatedAt: true,
   publishedAt: true,
   approvedAt: true,
+}).extend({
+  structuredContent: structuredNewsletterSchema.nullable().optional(),
+  verificationReport: z.custom<VerificationReport>().nullable().optional(),
+});
+
+export const insertNewsletterTemplateSchema = createInsertSchema(newsletterTemplates).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  name: z.string().trim().min(1, "Name is required"),
+  promptBody: z.string().refine(
+    body => Array.from(body.matchAll(TEMPLATE_PLACEHOLDER)).some(match => match[1] === "articles"),
+    "Prompt must include the {{articles}} placeholder"
+  ),
+  outputFormat: z.enum(["markdown", "html", "plain"]).default("markdown"),
+});
+
+export const insertNewsletterArticleSchema = createInsertSchema(newsletterArticles).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertNewsletterRevisionSchema = createInsertSchema(newsletterRevisions).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  kind: z.enum(["generated", "edited", "regenerated", "approved", "restored"]).default("edited"),
+  structuredContent: structuredNewsletterSchema.nullable().optional(),
+});
+
+// Manual edit of an issue: content in the template's format, editor HTML (converted to that format on the server), or both
+export const newsletterEditSchema = z.object({
+  content: z.string().trim().min(1, "Content can't be empty").optional(),
+  htmlContent: z.string().trim().min(1, "Content can't be empty").optional(),
+  author: z.string().trim().min(1).max(100).optional(),
+}).refine(edit => edit.content !== undefined || edit.htmlContent !== undefined, "Either content or htmlContent is required");
+
+// The ?from=&to= window of the article list; anything Date can parse, e.g. 2025-03-01 or a full ISO timestamp
+export const articleDateRangeSchema = z.object({
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+// Editorial instructions are meant to be a few lines, not a second prompt
+export const MAX_CUSTOM_PROMPT_LENGTH = 2000;
+
+// Rewrite of one section of an issue, optionally steered by the editor
+export const sectionRegenerationSchema = z.object({
+  instructions: z.string().trim().max(MAX_CUSTOM_PROMPT_LENGTH, "Instructions are too long").optional(),
 });
 
 export const insertSettingsSchema = createInsertSchema(settings).omit({
@@ -170,6 +429,16 @@ export const insertSocialMediaPostSchema = createInsertSchema(socialMediaPosts).
   updatedAt: true,
 });
 
+export const scrapeConfigSchema = z.object({
+  itemSelector: z.string().optional(),
+  titleSelector: z.string().optional(),
+  linkSelector: z.string().optional(),
+  dateSelector: z.string().optional(),
+  summarySelector: z.string().optional(),
+  urlPattern: z.string().optional(),
+  maxItems: z.number().int().min(1).max(200).optional(),
+});
+
 export const insertFeedSourceSchema = createInsertSchema(feedSources).omit({
   id: true,
   createdAt: true,
@@ -178,6 +447,25 @@ export const insertFeedSourceSchema = createInsertSchema(feedSources).omit({
   articleCount: true,
   errorCount: true,
   lastError: true,
+  etag: true,
+  lastModified: true,
+}).extend({
+  sourceType: z.enum(["feed", "html", "sitemap"]).default("feed"),
+  scrapeConfig: scrapeConfigSchema.nullable().optional(),
+});
+
+export const insertFilterRuleSchema = createInsertSchema(filterRules).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  type: z.enum(["keyword", "regex", "source", "min_length"]),
+  action: z.enum(["include", "exclude"]).default("exclude"),
+  field: z.enum(["title", "content", "any"]).default("any"),
+});
+
+export const insertFilteredArticleSchema = createInsertSchema(filteredArticles).omit({
+  id: true,
+  filteredAt: true,
 });
 
 export const insertDataBackupSchema = createInsertSchema(dataBackups).omit({
@@ -185,12 +473,36 @@ export const insertDataBackupSchema = createInsertSchema(dataBackups).omit({
   createdAt: true,
 });
 
+export const insertJobSchema = createInsertSchema(jobs).omit({
+  id: true,
+  result: true,
+  attempts: true,
+  lastError: true,
+  startedAt: true,
+  completedAt: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  type: z.enum(["generate", "publish", "social_generate", "rescore"]),
+  status: z.enum(["pending", "running", "completed", "dead"]).default("pending"),
+  payload: z.record(z.any()).default({}),
+});
+
 export type InsertUser = z.infer<typeof insertUserSchema>;
 export type User = typeof users.$inferSelect;
 export type Article = typeof articles.$inferSelect;
 export type InsertArticle = z.infer<typeof insertArticleSchema>;
 export type Newsletter = typeof newsletters.$inferSelect;
 export type InsertNewsletter = z.infer<typeof insertNewsletterSchema>;
+export type NewsletterTemplate = typeof newsletterTemplates.$inferSelect;
+export type InsertNewsletterTemplate = z.infer<typeof insertNewsletterTemplateSchema>;
+export type NewsletterArticle = typeof newsletterArticles.$inferSelect;
+export type InsertNewsletterArticle = z.infer<typeof insertNewsletterArticleSchema>;
+export type NewsletterRevision = typeof newsletterRevisions.$inferSelect;
+export type InsertNewsletterRevision = z.infer<typeof insertNewsletterRevisionSchema>;
+export type NewsletterEdit = z.infer<typeof newsletterEditSchema>;
+export type SectionRegeneration = z.infer<typeof sectionRegenerationSchema>;
+export type RevisionKind = InsertNewsletterRevision["kind"];
 export type Settings = typeof settings.$inferSelect;
 export type InsertSettings = z.infer<typeof insertSettingsSchema>;
 export type ActivityLog = typeof activityLogs.$inferSelect;
@@ -201,5 +513,12 @@ export type SocialMediaPost = typeof socialMediaPosts.$inferSelect;
 export type InsertSocialMediaPost = z.infer<typeof insertSocialMediaPostSchema>;
 export type FeedSource = typeof feedSources.$inferSelect;
 export type InsertFeedSource = z.infer<typeof insertFeedSourceSchema>;
+export type FilterRule = typeof filterRules.$inferSelect;
+export type InsertFilterRule = z.infer<typeof insertFilterRuleSchema>;
+export type FilteredArticle = typeof filteredArticles.$inferSelect;
+export type InsertFilteredArticle = z.infer<typeof insertFilteredArticleSchema>;
 export type DataBackup = typeof dataBackups.$inferSelect;
 export type InsertDataBackup = z.infer<typeof insertDataBackupSchema>;
+export type Job = typeof jobs.$inferSelect;
+export type InsertJob = z.infer<typeof insertJobSchema>;
+export type JobType = InsertJob["type"];